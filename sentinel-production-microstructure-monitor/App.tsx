@@ -1,18 +1,35 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import {
   NormalizedMarketTick, SignalOutput, StressScore, CausalSequence,
-  TimelineDataPoint, SignalType, StressLevel, ConfidenceLevel, CriticalEvent,
-  DecisionTrace, MarketSnapshot
+  TimelineDataPoint, StressLevel, ConfidenceLevel, CriticalEvent,
+  DecisionTrace, MarketSnapshot, Venue, StreamStatus, ImportRowError
 } from './types';
-import { THEME, TYPOGRAPHY, FORMATTERS } from './constants';
-import { BinanceService }    from './services/BinanceService';
+import { THEME, TYPOGRAPHY, FORMATTERS, SYMBOLS, DEFAULT_SYMBOL } from './constants';
+import { FeedAdapter }       from './services/FeedAdapter';
+import { createFeedAdapter } from './services/FeedFactory';
+import { ConsolidatedBook }  from './services/ConsolidatedBook';
 import { AnalyticsEngine }   from './services/AnalyticsEngine';
+import { SIGNAL_REGISTRY }   from './services/SignalRegistry';
 import { AudioEngine }       from './services/AudioEngine';
 import { StressGauge }       from './components/StressGauge';
 import { SignalCard }         from './components/SignalCard';
 import { TimelineChart }      from './components/TimelineChart';
-import { HistoricalDataLoader, HistoricalDataPoint } from './services/HistoricalDataLoader';
+import {
+  HistoricalDataLoader, HistoricalDataPoint, HistoricalRange, KlineInterval,
+  KLINE_INTERVALS
+} from './services/HistoricalDataLoader';
+import { SCENARIOS, DEFAULT_SCENARIO, CrashScenario } from './services/ScenarioCatalogue';
+import { SessionRecorder, SessionRecording, downloadSession, parseSession } from './services/SessionRecorder';
+import { AggTradeLoader, TradeReplay, MAX_TRADE_REPLAY_MS } from './services/AggTradeLoader';
 import { ExplainabilityLayer } from './components/ExplainabilityLayer';
+import { CacheManager }        from './components/CacheManager';
+import { DepthModelComparison } from './components/DepthModelComparison';
+import { BacktestPanel }        from './components/BacktestPanel';
+import { SweepPanel }           from './components/SweepPanel';
+import { DepthModel, HEURISTIC_DEPTH_MODEL, calibrateDepthModel } from './services/DepthModel';
+import { EngineSettings }       from './components/EngineSettings';
+import { EngineConfig }         from './services/EngineConfig';
+import { loadActiveConfig, storeActiveConfig } from './services/EnginePresets';
 
 // ── Error Boundary ───────────────────────────────────────────────────────────
 class ErrorBoundary extends React.Component<
@@ -52,9 +69,74 @@ class ErrorBoundary extends React.Component<
 }
 // ────────────────────────────────────────────────────────────────────────────
 
+type EngineResult = ReturnType<AnalyticsEngine['processTick']>;
+
+// Latest output of one symbol's live engine. Every symbol keeps streaming in
+// the background; switching the selector just re-points the display at it.
+interface LiveSymbolState {
+  tick:     NormalizedMarketTick;
+  result:   EngineResult;
+  timeline: TimelineDataPoint[];
+}
+
+type AppMode = 'LIVE' | 'HISTORICAL' | 'REPLAY';
+
+// Session replay: warm-up window replayed on seek (60s of 100ms ticks), and
+// the longest recording gap played through in real time — longer gaps
+// (reconnects, a paused tab) are skipped instead of waited out.
+const REPLAY_WARMUP_TICKS = 600;
+const REPLAY_MAX_GAP_MS   = 5_000;
+const REPLAY_SPEEDS       = [1, 5, 20];
+
+// Historical playback speed is candles per second. Up to 25/s each candle
+// gets its own frame; above that frames stay at 40ms and batch candles.
+const historyCadence = (candlesPerSecond: number) => candlesPerSecond <= 25
+  ? { intervalMs: Math.round(1000 / candlesPerSecond), stepsPerTick: 1 }
+  : { intervalMs: 40, stepsPerTick: Math.ceil(candlesPerSecond / 25) };
+
+// Range picker edits UTC wall-clock strings; Binance kline times are UTC
+const toUtcInput   = (ms: number) => new Date(ms).toISOString().slice(0, 16);
+const fromUtcInput = (value: string) => Date.parse(`${value}:00Z`);
+
+// Drag-and-drop target props for the import bars — the first dropped file wins
+const fileDropProps = (onFile: (file: File) => void) => ({
+  onDragOver: (e: React.DragEvent) => e.preventDefault(),
+  onDrop:     (e: React.DragEvent) => {
+    e.preventDefault();
+    const file = e.dataTransfer.files?.[0];
+    if (file) onFile(file);
+  }
+});
+
+// Hover text listing the rows an import rejected
+const describeRowErrors = (skipped: number, errors: ImportRowError[]) =>
+  errors.map(err => `line ${err.line}: ${err.reason}`).join('\n') +
+  (skipped > errors.length ? `\n…and ${skipped - errors.length} more` : '');
+
+type ConnectionStatus = 'CONNECTED' | 'CONNECTING' | 'RECONNECTING' | 'FAILED' | 'DISCONNECTED' | 'HISTORICAL';
+
+// Rolls per-stream socket states up into the header pill. Any stream that is
+// not OPEN degrades the whole feed — one dead depth socket means a frozen book.
+function summarizeStreams(streams: StreamStatus[]): ConnectionStatus {
+  const live = streams.filter(s => s.state !== 'CLOSED');
+  if (live.length === 0)                             return 'DISCONNECTED';
+  if (live.some(s => s.state === 'FAILED'))          return 'FAILED';
+  if (live.some(s => s.state === 'BACKING_OFF'))     return 'RECONNECTING';
+  if (live.some(s => s.state === 'CONNECTING'))      return 'CONNECTING';
+  return 'CONNECTED';
+}
+
+const STREAM_STATE_DOT: Record<StreamStatus['state'], string> = {
+  OPEN:        'bg-emerald-500',
+  CONNECTING:  'bg-sky-500 animate-pulse',
+  BACKING_OFF: 'bg-amber-500 animate-pulse',
+  FAILED:      'bg-red-500',
+  CLOSED:      'bg-gray-600'
+};
+
 const App: React.FC = () => {
   // ── Live state ──────────────────────────────────────────────────────────────
-  const [mode, setMode]                     = useState<'LIVE' | 'HISTORICAL'>('LIVE');
+  const [mode, setMode]                     = useState<AppMode>('LIVE');
   const [lastTick, setLastTick]             = useState<NormalizedMarketTick | null>(null);
   const [signals, setSignals]               = useState<Record<string, SignalOutput> | null>(null);
   const [stress, setStress]                 = useState<StressScore | null>(null);
@@ -62,14 +144,56 @@ const App: React.FC = () => {
   const [trace, setTrace]                   = useState<DecisionTrace | null>(null);
   const [criticalLog, setCriticalLog]       = useState<CriticalEvent[]>([]);
   const [timelineData, setTimelineData]     = useState<TimelineDataPoint[]>([]);
-  const [connectionStatus, setConnectionStatus] = useState<'CONNECTED' | 'DISCONNECTED' | 'HISTORICAL'>('DISCONNECTED');
+  // Keyed by StreamStatus.id — every socket of every live feed reports here
+  const [streamStatuses, setStreamStatuses] = useState<Record<string, StreamStatus>>({});
   const [historicalPoints, setHistoricalPoints] = useState<HistoricalDataPoint[]>([]);
+  // Range currently loaded, and the picker's unapplied edits
+  const [historyRange, setHistoryRange]     = useState<HistoricalRange>(DEFAULT_SCENARIO);
+  // Selected catalogue entry; null once a custom range is loaded
+  const [scenario, setScenario]             = useState<CrashScenario | null>(DEFAULT_SCENARIO);
+  const [rangeDraft, setRangeDraft]         = useState({
+    symbol:   DEFAULT_SCENARIO.symbol,
+    interval: DEFAULT_SCENARIO.interval as KlineInterval,
+    start:    toUtcInput(DEFAULT_SCENARIO.startTime),
+    end:      toUtcInput(DEFAULT_SCENARIO.endTime)
+  });
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [showCache, setShowCache]           = useState(false);
+  const [showBacktest, setShowBacktest]     = useState(false);
+  const [showSweep, setShowSweep]           = useState(false);
+  // Depth models replay can synthesise books with; calibrated ones are added at runtime
+  const [depthModels, setDepthModels]       = useState<DepthModel[]>([HEURISTIC_DEPTH_MODEL]);
+  const [depthModelId, setDepthModelId]     = useState(HEURISTIC_DEPTH_MODEL.id);
+  const [showDepthCompare, setShowDepthCompare] = useState(false);
+  // Rejected rows of the last kline CSV import; null for network loads
+  const [klineImport, setKlineImport]       = useState<{ file: string; skipped: number; errors: ImportRowError[] } | null>(null);
   const [simStep, setSimStep]               = useState(0);
   const [isPaused, setIsPaused]             = useState(false);
   const [playbackSpeed, setPlaybackSpeed]   = useState(1);
   const [isAudioEnabled, setIsAudioEnabled] = useState(false);
   const [isAppReady, setIsAppReady]         = useState(false);
+  const [selectedSymbol, setSelectedSymbol] = useState<string>(DEFAULT_SYMBOL.symbol);
+  // 'CONSOLIDATED' streams every venue and merges them per symbol
+  const [venue, setVenue]                   = useState<Venue | 'CONSOLIDATED'>(Venue.BINANCE);
+  // Engine config every engine runs under; restored from the last session
+  const [engineConfig, setEngineConfig]     = useState<EngineConfig>(loadActiveConfig);
+  const [showSettings, setShowSettings]     = useState(false);
+
+  // ── Session record / replay state ───────────────────────────────────────────
+  const [isRecording, setIsRecording]       = useState(false);
+  const [recordedTicks, setRecordedTicks]   = useState(0);
+  const [session, setSession]               = useState<SessionRecording | null>(null);
+  const [replaySymbol, setReplaySymbol]     = useState<string>(DEFAULT_SYMBOL.symbol);
+  // Tick-level aggTrades replay — takes the place of a loaded session
+  const [tradeReplay, setTradeReplay]       = useState<TradeReplay | null>(null);
+  // null when idle; otherwise a progress line for the fetch in flight
+  const [tradeLoadStatus, setTradeLoadStatus] = useState<string | null>(null);
+  // Defaults to the hour around the first scenario's first expected breach
+  const [tradeDraft, setTradeDraft]         = useState({
+    symbol: DEFAULT_SCENARIO.symbol,
+    start:  toUtcInput(DEFAULT_SCENARIO.expected_breaches[0].time - 1_800_000),
+    end:    toUtcInput(DEFAULT_SCENARIO.expected_breaches[0].time + 1_800_000)
+  });
 
   // ── Snapshot state ──────────────────────────────────────────────────────────
   // When non-null: all display components use snapshot data instead of live data.
@@ -87,23 +211,62 @@ const App: React.FC = () => {
   const activeTick        = snapshotEvent?.snapshot?.tick     ?? lastTick;
   const activeTimeline    = snapshotEvent?.snapshot?.timelineAtCapture ?? timelineData;
 
+  // Header reflects the selected symbol's sockets only
+  const selectedStreams   = useMemo(
+    () => Object.values(streamStatuses).filter(s => s.symbol === selectedSymbol),
+    [streamStatuses, selectedSymbol]
+  );
+  const connectionStatus: ConnectionStatus = mode !== 'LIVE' ? 'HISTORICAL' : summarizeStreams(selectedStreams);
+
+  // Replay drives one symbol at a time out of a (possibly multi-symbol) session,
+  // or the single symbol of an aggTrades replay
+  const replayTicks = useMemo(
+    () => tradeReplay ? tradeReplay.ticks
+        : session     ? session.ticks.filter(t => t.symbol === replaySymbol)
+        : [],
+    [tradeReplay, session, replaySymbol]
+  );
+
   // ── Refs ────────────────────────────────────────────────────────────────────
+  // analyticsRef drives historical replay; live mode runs one engine per symbol
   const analyticsRef        = useRef<AnalyticsEngine>(new AnalyticsEngine());
+  // Read when engines are (re)built, so callbacks needn't depend on it
+  const engineConfigRef     = useRef<EngineConfig>(engineConfig);
   const audioRef            = useRef<AudioEngine>(new AudioEngine());
-  const binanceRef          = useRef<BinanceService | null>(null);
+  const feedsRef            = useRef<FeedAdapter[]>([]);
+  const liveEnginesRef      = useRef<Record<string, AnalyticsEngine>>({});
+  const liveStateRef        = useRef<Record<string, LiveSymbolState>>({});
+  const selectedSymbolRef   = useRef<string>(DEFAULT_SYMBOL.symbol);
   const simTimerRef         = useRef<any>(null);
   const simStepRef          = useRef<number>(0);
   const historicalPointsRef = useRef<HistoricalDataPoint[]>([]);
   const isPausedRef         = useRef<boolean>(false);
+  const historyRangeRef     = useRef<HistoricalRange>(DEFAULT_SCENARIO);
   // timelineDataRef keeps a stable reference for snapshot capture without
   // needing timelineData in useCallback dependency arrays
   const timelineDataRef     = useRef<TimelineDataPoint[]>([]);
+  const recorderRef         = useRef<SessionRecorder>(new SessionRecorder());
+  const replayTicksRef      = useRef<NormalizedMarketTick[]>([]);
+  // Replay clock in recorded processing_timestamp ms — advances 100ms × speed per frame
+  const replayClockRef      = useRef<number>(0);
 
   const historyLoader = useMemo(() => new HistoricalDataLoader(), []);
+  const tradeLoader   = useMemo(() => new AggTradeLoader(), []);
+
+  // Hot-swaps the config on every running engine: buffers keep their samples
+  // and the next tick is scored (and its trace stamped) under the new config
+  const applyEngineConfig = useCallback((config: EngineConfig) => {
+    engineConfigRef.current = config;
+    setEngineConfig(config);
+    storeActiveConfig(config);
+    analyticsRef.current.setEngineConfig(config);
+    Object.values(liveEnginesRef.current).forEach(engine => engine.setEngineConfig(config));
+  }, []);
 
   useEffect(() => { historicalPointsRef.current  = historicalPoints; }, [historicalPoints]);
   useEffect(() => { isPausedRef.current          = isPaused; },        [isPaused]);
   useEffect(() => { timelineDataRef.current      = timelineData; },     [timelineData]);
+  useEffect(() => { replayTicksRef.current       = replayTicks; },      [replayTicks]);
 
   const toggleAudio = useCallback(() => {
     const newState = audioRef.current.toggle();
@@ -112,18 +275,20 @@ const App: React.FC = () => {
 
   // Enrich a raw CriticalEvent with a full MarketSnapshot before logging it.
   // The snapshot is a time-capsule of the exact market state at this moment.
+  // timeline defaults to the displayed chart; background symbols pass their own.
   const enrichAndLog = useCallback((
     event:   CriticalEvent,
-    result:  { stress: StressScore, signals: Record<SignalType, SignalOutput>, causal: CausalSequence, trace: DecisionTrace },
-    tick:    NormalizedMarketTick
+    result:  { stress: StressScore, signals: Record<string, SignalOutput>, causal: CausalSequence, trace: DecisionTrace },
+    tick:    NormalizedMarketTick,
+    timeline: TimelineDataPoint[] = timelineDataRef.current
   ) => {
     const snapshot: MarketSnapshot = {
       stress:            result.stress,
-      signals:           result.signals as Record<SignalType, SignalOutput>,
+      signals:           result.signals,
       causal:            result.causal,
       trace:             result.trace,
       tick,
-      timelineAtCapture: timelineDataRef.current.slice() // snapshot of chart up to this tick
+      timelineAtCapture: timeline.slice() // snapshot of chart up to this tick
     };
     const enriched: CriticalEvent = { ...event, snapshot };
     setCriticalLog(prev => [enriched, ...prev].slice(0, 100));
@@ -143,46 +308,154 @@ const App: React.FC = () => {
 
   const exitSnapshot = useCallback(() => setSnapshotEvent(null), []);
 
+  // ── Session recorder ─────────────────────────────────────────────────────────
+  // Stopping always downloads — there is no in-app store for recordings.
+  const stopRecording = useCallback(() => {
+    const startedAt = recorderRef.current.getStartedAt();
+    const blob      = recorderRef.current.stop();
+    setIsRecording(false);
+    if (blob) downloadSession(blob, startedAt);
+  }, []);
+
+  const toggleRecording = useCallback(() => {
+    if (recorderRef.current.isRecording()) {
+      stopRecording();
+      return;
+    }
+    recorderRef.current.start(venue);
+    setRecordedTicks(0);
+    setIsRecording(true);
+  }, [venue, stopRecording]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const id = setInterval(() => setRecordedTicks(recorderRef.current.getTickCount()), 1000);
+    return () => clearInterval(id);
+  }, [isRecording]);
+
   // ── Live tick handler ────────────────────────────────────────────────────────
+  // Every symbol's tick runs through its own engine. Only the selected symbol
+  // pushes into React state; the rest are kept warm in liveStateRef.
   const handleLiveTick = useCallback((tick: NormalizedMarketTick) => {
     try {
-      const result = analyticsRef.current.processTick(tick);
-      setLastTick(tick);
+      const engine = liveEnginesRef.current[tick.symbol];
+      if (!engine) return;
+      if (recorderRef.current.isRecording() && !recorderRef.current.record(tick)) {
+        console.warn('[Sentinel] Recording limit reached — stopping and downloading.');
+        stopRecording();
+      }
+      const result   = engine.processTick(tick);
+      const prev     = liveStateRef.current[tick.symbol];
+      const timeline = [...(prev?.timeline ?? []), {
+        timestamp: tick.exchange_timestamp,
+        price:     tick.price,
+        stress:    result.stress.score
+      }].slice(-100);
+      liveStateRef.current[tick.symbol] = { tick, result, timeline };
       setIsAppReady(true);
+
+      if (tick.symbol !== selectedSymbolRef.current) {
+        if (result.criticalEvent) enrichAndLog(result.criticalEvent, result, tick, timeline);
+        return;
+      }
+      setLastTick(tick);
       setSignals(result.signals);
       setStress(result.stress);
       setCausal(result.causal);
       setTrace(result.trace);
       if (result.stress) audioRef.current.setStress(result.stress.score);
       if (result.criticalEvent) enrichAndLog(result.criticalEvent, result, tick);
-      setTimelineData(prev => [...prev, {
-        timestamp: tick.exchange_timestamp,
-        price:     tick.price,
-        stress:    result.stress.score
-      }].slice(-100));
+      setTimelineData(timeline);
     } catch (err) {
       console.error('[Sentinel] handleLiveTick error:', err);
     }
-  }, [enrichAndLog]);
+  }, [enrichAndLog, stopRecording]);
+
+  // ── Symbol selector ──────────────────────────────────────────────────────────
+  // Re-points the dashboard at another symbol's engine using its latest result.
+  const selectSymbol = useCallback((symbol: string) => {
+    selectedSymbolRef.current = symbol;
+    setSelectedSymbol(symbol);
+    setSnapshotEvent(null);
+    const state = liveStateRef.current[symbol];
+    setLastTick(state?.tick ?? null);
+    setSignals(state?.result.signals ?? null);
+    setStress(state?.result.stress ?? null);
+    setCausal(state?.result.causal ?? null);
+    setTrace(state?.result.trace ?? null);
+    setTimelineData(state?.timeline ?? []);
+    audioRef.current.setStress(state?.result.stress.score ?? 0);
+  }, []);
 
   // ── Historical data loader ───────────────────────────────────────────────────
-  const loadCovidData = useCallback(async () => {
+  // Fresh engine and playback from the first candle of a loaded dataset
+  const showHistory = useCallback((range: HistoricalRange, data: HistoricalDataPoint[]) => {
+    const cfg  = SYMBOLS.find(s => s.symbol === range.symbol) ?? { ...DEFAULT_SYMBOL, symbol: range.symbol };
+    analyticsRef.current = new AnalyticsEngine(cfg, engineConfigRef.current);
+    historyRangeRef.current = range;
+    setHistoryRange(range);
+    setTimelineData([]);
+    setHistoricalPoints(data);
+    historicalPointsRef.current = data;
+    setSimStep(0);
+    simStepRef.current = 0;
+    setIsPaused(false);
+    isPausedRef.current = false;
+  }, []);
+
+  // A failed load keeps the previous dataset. With nothing loaded yet the
+  // mode stays up with an empty range bar, so a CSV can still be imported
+  // when Binance is unreachable.
+  const loadHistory = useCallback(async (range: HistoricalRange | CrashScenario) => {
     setIsLoadingHistory(true);
     try {
-      const data = await historyLoader.loadCovidCrash();
-      setHistoricalPoints(data);
-      historicalPointsRef.current = data;
-      setSimStep(0);
-      simStepRef.current = 0;
-      setIsPaused(false);
-      isPausedRef.current = false;
+      const data = 'expected_breaches' in range
+        ? await historyLoader.loadScenario(range)
+        : await historyLoader.load(range);
+      setKlineImport(null);
+      showHistory(range, data);
     } catch (e) {
-      alert("Failed to load historical data. Reverting to Live mode.");
-      setMode('LIVE');
+      const reason = e instanceof Error ? e.message : String(e);
+      if (historicalPointsRef.current.length > 0) {
+        alert(`Failed to load historical data: ${reason}`);
+      } else {
+        alert(`Failed to load historical data: ${reason}. Import a Binance kline CSV from the range bar to replay offline.`);
+      }
     } finally {
       setIsLoadingHistory(false);
     }
-  }, [historyLoader]);
+  }, [historyLoader, showHistory]);
+
+  const importKlineFile = useCallback(async (file: File) => {
+    try {
+      const result = historyLoader.importCsv(file.name, await file.text(), rangeDraft.symbol);
+      setScenario(null);
+      setRangeDraft({ symbol: result.range.symbol, interval: result.range.interval, start: toUtcInput(result.range.startTime), end: toUtcInput(result.range.endTime) });
+      setKlineImport({ file: file.name, skipped: result.skipped, errors: result.errors });
+      if (result.skipped > 0) console.warn(`[Sentinel] ${file.name}: ${result.skipped} bad rows skipped.`, result.errors);
+      showHistory(result.range, result.points);
+    } catch (err) {
+      alert(`Failed to import ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [historyLoader, rangeDraft.symbol, showHistory]);
+
+  const applyRangeDraft = useCallback(() => {
+    setScenario(null);
+    loadHistory({
+      symbol:    rangeDraft.symbol,
+      interval:  rangeDraft.interval,
+      startTime: fromUtcInput(rangeDraft.start),
+      endTime:   fromUtcInput(rangeDraft.end)
+    });
+  }, [rangeDraft, loadHistory]);
+
+  const selectScenario = useCallback((id: string) => {
+    const next = SCENARIOS.find(s => s.id === id);
+    if (!next) return;
+    setScenario(next);
+    setRangeDraft({ symbol: next.symbol, interval: next.interval, start: toUtcInput(next.startTime), end: toUtcInput(next.endTime) });
+    loadHistory(next);
+  }, [loadHistory]);
 
   // ── Seek handler ─────────────────────────────────────────────────────────────
   // FIX: on seek, reset the REAL engine and replay (stepIndex - 200) → stepIndex
@@ -251,11 +524,52 @@ const App: React.FC = () => {
     }
   }, [historyLoader, enrichAndLog]);
 
+  // Pauses on the first candle at or after the given time
+  const jumpToTime = useCallback((timeMs: number) => {
+    const points = historicalPointsRef.current;
+    const index  = points.findIndex(p => p.timestamp >= timeMs);
+    if (index < 0) return;
+    simStepRef.current = index;
+    setSimStep(index);
+    setIsPaused(true);
+    isPausedRef.current = true;
+    runHistoryStep(index, true);
+  }, [runHistoryStep]);
+
+  // ── Depth models ─────────────────────────────────────────────────────────────
+  // Switching re-warms the engine at the current candle so the new books
+  // aren't judged against a baseline the old model built.
+  const selectDepthModel = useCallback((model: DepthModel) => {
+    historyLoader.setDepthModel(model);
+    tradeLoader.setDepthModel(model);
+    setDepthModelId(model.id);
+    if (mode === 'HISTORICAL' && historicalPointsRef.current.length > 0) runHistoryStep(simStepRef.current, true);
+  }, [historyLoader, tradeLoader, mode, runHistoryStep]);
+
+  // Fits a model to a recorded live session — the replayed symbol's ticks if
+  // the session has them, else its first symbol's
+  const calibrateFromSession = useCallback(async (file: File) => {
+    try {
+      const recording = parseSession(await file.text());
+      const symbol    = recording.symbols.includes(historyRangeRef.current.symbol) ? historyRangeRef.current.symbol : recording.symbols[0];
+      const stamp     = new Date(recording.header.started_at).toISOString().slice(0, 16).replace('T', ' ');
+      const model     = calibrateDepthModel(recording.ticks.filter(t => t.symbol === symbol), `${symbol} ${stamp}`);
+      setDepthModels(prev => [...prev.filter(m => m.id !== model.id), model]);
+      selectDepthModel(model);
+    } catch (err) {
+      alert(`Failed to calibrate: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, [selectDepthModel]);
+
   // ── Mode switch effect ────────────────────────────────────────────────────────
   useEffect(() => {
-    binanceRef.current?.stop();
+    feedsRef.current.forEach(feed => feed.stop());
+    feedsRef.current = [];
+    setStreamStatuses({});
     clearInterval(simTimerRef.current);
     analyticsRef.current.reset();
+    liveEnginesRef.current = {};
+    liveStateRef.current   = {};
     setTimelineData([]);
     setCriticalLog([]);
     setTrace(null);
@@ -268,29 +582,189 @@ const App: React.FC = () => {
     simStepRef.current = 0;
     audioRef.current.setStress(0);
 
+    let unsubscribers: (() => void)[] = [];
     if (mode === 'LIVE') {
-      setConnectionStatus('DISCONNECTED');
-      binanceRef.current = new BinanceService(handleLiveTick);
-      // FIX: start() is async (clock sync + WebSocket open). Await before CONNECTED.
-      binanceRef.current.start().then(() => setConnectionStatus('CONNECTED'));
-    } else {
-      setConnectionStatus('HISTORICAL');
-      loadCovidData();
+      SYMBOLS.forEach(cfg => { liveEnginesRef.current[cfg.symbol] = new AnalyticsEngine(cfg, engineConfigRef.current); });
+      if (venue === 'CONSOLIDATED') {
+        const venues = Object.values(Venue);
+        feedsRef.current = SYMBOLS.flatMap(cfg => {
+          const book = new ConsolidatedBook(venues, handleLiveTick);
+          return venues.map(v => createFeedAdapter(v, cfg, tick => book.push(tick)));
+        });
+      } else {
+        feedsRef.current = SYMBOLS.map(cfg => createFeedAdapter(venue, cfg, handleLiveTick));
+      }
+      // Header status comes from socket state events, not from start() resolving
+      unsubscribers = feedsRef.current.map(feed => feed.onStatus(status =>
+        setStreamStatuses(prev => ({ ...prev, [status.id]: status }))
+      ));
+      feedsRef.current.forEach(feed => feed.start());
+    } else if (mode === 'HISTORICAL') {
+      loadHistory(historyRangeRef.current);
     }
+    // REPLAY starts from the session effect below once a file is loaded
 
     return () => {
-      binanceRef.current?.stop();
+      // Leaving live (or switching venue) ends the recording it was feeding
+      if (recorderRef.current.isRecording()) stopRecording();
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      feedsRef.current.forEach(feed => feed.stop());
       clearInterval(simTimerRef.current);
     };
-  }, [mode, handleLiveTick, loadCovidData]);
+  }, [mode, venue, handleLiveTick, loadHistory, stopRecording]);
+
+  // Header retry: sockets that gave up stay down until asked
+  const retryFailedStreams = useCallback(() => {
+    feedsRef.current.forEach(feed => feed.retryFailed());
+  }, []);
+
+  // ── Session replay ──────────────────────────────────────────────────────────
+  const loadSessionFile = useCallback(async (file: File) => {
+    try {
+      const recording = parseSession(await file.text());
+      setTradeReplay(null);
+      setSession(recording);
+      setReplaySymbol(recording.symbols.includes(selectedSymbolRef.current) ? selectedSymbolRef.current : recording.symbols[0]);
+      if (recording.skipped > 0) console.warn(`[Sentinel] Session loaded with ${recording.skipped} unreadable lines skipped.`);
+    } catch (err) {
+      alert(`Failed to load session: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, []);
+
+  const applyTradeReplay = useCallback((replay: TradeReplay) => {
+    setSession(null);
+    setTradeReplay(replay);
+    setReplaySymbol(replay.symbol);
+    if (replay.skipped > 0) console.warn(`[Sentinel] aggTrades archive loaded with ${replay.skipped} unreadable rows skipped.`);
+  }, []);
+
+  const fetchTradeReplay = useCallback(async () => {
+    setTradeLoadStatus('Fetching trades...');
+    try {
+      const replay = await tradeLoader.fetch(
+        tradeDraft.symbol, fromUtcInput(tradeDraft.start), fromUtcInput(tradeDraft.end),
+        count => setTradeLoadStatus(`Fetched ${count.toLocaleString()} trades...`)
+      );
+      applyTradeReplay(replay);
+    } catch (err) {
+      alert(`Failed to load trades: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setTradeLoadStatus(null);
+    }
+  }, [tradeLoader, tradeDraft, applyTradeReplay]);
+
+  const loadTradeArchive = useCallback(async (file: File) => {
+    setTradeLoadStatus(`Reading ${file.name}...`);
+    try {
+      const replay = tradeLoader.loadArchive(
+        file.name, await file.text(), tradeDraft.symbol, fromUtcInput(tradeDraft.start), fromUtcInput(tradeDraft.end)
+      );
+      applyTradeReplay(replay);
+    } catch (err) {
+      alert(`Failed to load archive: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setTradeLoadStatus(null);
+    }
+  }, [tradeLoader, tradeDraft, applyTradeReplay]);
+
+  // Fresh engine for the replayed symbol; runs on load, symbol change and on
+  // (re)entering REPLAY mode.
+  useEffect(() => {
+    if (mode !== 'REPLAY' || replayTicks.length === 0) return;
+    const cfg = SYMBOLS.find(s => s.symbol === replaySymbol) ?? { ...DEFAULT_SYMBOL, symbol: replaySymbol };
+    analyticsRef.current   = new AnalyticsEngine(cfg, engineConfigRef.current);
+    simStepRef.current     = 0;
+    replayClockRef.current = replayTicks[0].processing_timestamp;
+    setSimStep(0);
+    setPlaybackSpeed(1);
+    setIsPaused(false);
+    isPausedRef.current = false;
+    setTimelineData([]);
+    setSnapshotEvent(null);
+  }, [mode, replayTicks, replaySymbol]);
+
+  const applyReplayResult = useCallback((
+    tick:   NormalizedMarketTick,
+    result: ReturnType<AnalyticsEngine['processTick']>
+  ) => {
+    setLastTick(tick);
+    setSignals(result.signals);
+    setStress(result.stress);
+    setCausal(result.causal);
+    setTrace(result.trace);
+    audioRef.current.setStress(result.stress.score);
+  }, []);
+
+  // Same approach as runHistoryStep's seek: reset the engine and replay the
+  // warm-up window up to the target so buffers and timeline match the moment.
+  const seekReplay = useCallback((index: number) => {
+    const ticks = replayTicksRef.current;
+    if (!ticks[index]) return;
+    analyticsRef.current.reset();
+    const points: TimelineDataPoint[] = [];
+    let result: ReturnType<AnalyticsEngine['processTick']> | null = null;
+    for (let i = Math.max(0, index - REPLAY_WARMUP_TICKS); i <= index; i++) {
+      result = analyticsRef.current.processTick(ticks[i]);
+      points.push({ timestamp: ticks[i].exchange_timestamp, price: ticks[i].price, stress: result.stress.score });
+    }
+    simStepRef.current     = index;
+    replayClockRef.current = ticks[index].processing_timestamp;
+    setSimStep(index);
+    setTimelineData(points.length >= 2 ? points.slice(-100) : []);
+    if (result) applyReplayResult(ticks[index], result);
+  }, [applyReplayResult]);
+
+  useEffect(() => {
+    if (mode !== 'REPLAY' || isPaused || replayTicks.length === 0) return;
+
+    const id = setInterval(() => {
+      if (isPausedRef.current) return;
+      const ticks = replayTicksRef.current;
+      let step = simStepRef.current;
+      if (step >= ticks.length - 1) {
+        setIsPaused(true);
+        isPausedRef.current = true;
+        return;
+      }
+
+      // Skip dead air rather than replaying it in real time
+      if (ticks[step + 1].processing_timestamp - replayClockRef.current > REPLAY_MAX_GAP_MS) {
+        replayClockRef.current = ticks[step + 1].processing_timestamp;
+      }
+      replayClockRef.current += 100 * playbackSpeed;
+
+      let last: { tick: NormalizedMarketTick; result: ReturnType<AnalyticsEngine['processTick']> } | null = null;
+      const points: TimelineDataPoint[] = [];
+      while (step + 1 < ticks.length && ticks[step + 1].processing_timestamp <= replayClockRef.current) {
+        step++;
+        try {
+          const tick   = ticks[step];
+          const result = analyticsRef.current.processTick(tick);
+          last = { tick, result };
+          points.push({ timestamp: tick.exchange_timestamp, price: tick.price, stress: result.stress.score });
+          if (result.criticalEvent) enrichAndLog(result.criticalEvent, result, tick);
+        } catch (err) {
+          console.error('[Sentinel] replay step error at', step, err);
+        }
+      }
+      simStepRef.current = step;
+
+      if (last) {
+        setSimStep(step);
+        applyReplayResult(last.tick, last.result);
+        setTimelineData(prev => [...prev, ...points].slice(-100));
+      }
+    }, 100);
+
+    return () => clearInterval(id);
+  }, [mode, isPaused, playbackSpeed, replayTicks, enrichAndLog, applyReplayResult]);
 
   // ── Playback loop ─────────────────────────────────────────────────────────────
   useEffect(() => {
     clearInterval(simTimerRef.current);
     if (mode !== 'HISTORICAL' || isPaused || historicalPoints.length === 0) return;
 
-    const intervalMs   = playbackSpeed === 1 ? 1000 : playbackSpeed === 50 ? 40 : 50;
-    const stepsPerTick = playbackSpeed === 1 ? 1    : playbackSpeed === 50 ? 2  : 5;
+    const { intervalMs, stepsPerTick } = historyCadence(playbackSpeed);
 
     simTimerRef.current = setInterval(() => {
       if (isPausedRef.current) return;
@@ -360,7 +834,7 @@ const App: React.FC = () => {
         <div className="w-16 h-16 border-2 border-cyan-500/30 border-t-cyan-400 rounded-full animate-spin" />
         <div className="flex flex-col items-center gap-2">
           <span className="text-cyan-400 font-mono text-sm uppercase tracking-[0.3em]">Sentinel</span>
-          <span className="text-gray-600 font-mono text-[10px] uppercase tracking-widest animate-pulse">Connecting to Binance...</span>
+          <span className="text-gray-600 font-mono text-[10px] uppercase tracking-widest animate-pulse">Connecting to {venue === 'CONSOLIDATED' ? 'all venues' : venue}...</span>
         </div>
       </div>
     );
@@ -372,7 +846,7 @@ const App: React.FC = () => {
         <div className="w-16 h-16 border-2 border-amber-500/30 border-t-amber-400 rounded-full animate-spin" />
         <div className="flex flex-col items-center gap-2">
           <span className="text-amber-400 font-mono text-sm uppercase tracking-[0.3em]">Sentinel</span>
-          <span className="text-gray-600 font-mono text-[10px] uppercase tracking-widest animate-pulse">Loading COVID Crash Dataset...</span>
+          <span className="text-gray-600 font-mono text-[10px] uppercase tracking-widest animate-pulse">Loading {historyRange.symbol} {historyRange.interval} history...</span>
         </div>
       </div>
     );
@@ -384,9 +858,13 @@ const App: React.FC = () => {
     if (sig.includes('Flow'))       return 'FLOW';
     if (sig.includes('Volatility')) return 'VOL';
     if (sig.includes('Forced'))     return 'SELL';
+    if (sig.includes('Venue'))      return 'VEN';
+    if (sig.includes('Leverage'))   return 'LEV';
     return sig.split(' ')[0];
   };
 
+  const activeSymbolConfig = SYMBOLS.find(s => s.symbol === (activeTick?.symbol ?? selectedSymbol)) ?? DEFAULT_SYMBOL;
+
   // ── Render ────────────────────────────────────────────────────────────────────
   return (
     <div className="min-h-screen flex flex-col p-4 gap-4 max-w-[1920px] mx-auto overflow-hidden">
@@ -403,13 +881,42 @@ const App: React.FC = () => {
           <div className="h-8 w-px bg-gray-800" />
           <div className="flex gap-2">
             <button onClick={() => setMode('LIVE')} className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all duration-300 ${mode === 'LIVE' ? 'bg-emerald-600 text-white shadow-lg shadow-emerald-900/30 ring-1 ring-emerald-500/50' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}>LIVE FEED</button>
-            <button onClick={() => setMode('HISTORICAL')} className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all duration-300 ${mode === 'HISTORICAL' ? 'bg-amber-600 text-white shadow-lg shadow-amber-900/30 ring-1 ring-amber-500/50' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}>COVID CRASH REPLAY</button>
+            <button onClick={() => setMode('HISTORICAL')} className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all duration-300 ${mode === 'HISTORICAL' ? 'bg-amber-600 text-white shadow-lg shadow-amber-900/30 ring-1 ring-amber-500/50' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}>CRASH SCENARIOS</button>
+            <button onClick={() => setMode('REPLAY')} className={`px-4 py-1.5 rounded-lg text-xs font-bold transition-all duration-300 ${mode === 'REPLAY' ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/30 ring-1 ring-cyan-500/50' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}>SESSION REPLAY</button>
           </div>
+          {mode === 'HISTORICAL' && (
+            <select value={scenario?.id ?? 'CUSTOM'} onChange={(e) => selectScenario(e.target.value)} className="bg-[#0a0e14] border border-gray-800 rounded-lg px-2 py-1.5 text-[10px] font-bold font-mono text-gray-300 uppercase tracking-widest focus:outline-none focus:border-amber-600">
+              {SCENARIOS.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+              <option value="CUSTOM" disabled>Custom range</option>
+            </select>
+          )}
+          {mode === 'LIVE' && (
+            <button onClick={toggleRecording} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-[10px] font-black font-mono uppercase tracking-widest transition-all ${isRecording ? 'bg-red-500/10 border-red-500 text-red-400' : 'bg-gray-800 border-gray-700 text-gray-500 hover:text-gray-300'}`} title={isRecording ? 'Stop and download the recording' : 'Record every symbol\'s ticks for later replay'}>
+              <div className={`w-2 h-2 rounded-full ${isRecording ? 'bg-red-500 animate-pulse' : 'bg-gray-600'}`} />
+              {isRecording ? `REC ${recordedTicks.toLocaleString()}` : 'REC'}
+            </button>
+          )}
+          {mode === 'LIVE' && (
+            <select value={venue} onChange={(e) => setVenue(e.target.value as Venue | 'CONSOLIDATED')} className="bg-[#0a0e14] border border-gray-800 rounded-lg px-2 py-1.5 text-[10px] font-bold font-mono text-gray-300 uppercase tracking-widest focus:outline-none focus:border-emerald-600">
+              {Object.values(Venue).map(v => <option key={v} value={v}>{v}</option>)}
+              <option value="CONSOLIDATED">All venues · consolidated</option>
+            </select>
+          )}
+          {mode === 'LIVE' && (
+            <div className="flex items-center gap-1 bg-[#0a0e14] rounded-lg p-1 border border-gray-800">
+              {SYMBOLS.map(cfg => (
+                <button key={cfg.symbol} onClick={() => selectSymbol(cfg.symbol)} className={`px-2 py-1 text-[10px] font-bold font-mono rounded transition-colors ${selectedSymbol === cfg.symbol ? 'bg-emerald-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{cfg.base}</button>
+              ))}
+            </div>
+          )}
           <button onClick={toggleAudio} className={`w-9 h-9 flex items-center justify-center rounded-lg border transition-all duration-300 ${isAudioEnabled ? 'bg-emerald-500/10 border-emerald-500 text-emerald-400 shadow-[0_0_15px_rgba(16,185,129,0.2)]' : 'bg-gray-800 border-gray-700 text-gray-500 hover:text-gray-300 hover:border-gray-500'}`} title={isAudioEnabled ? "Mute" : "Enable Sonification"}>
             {isAudioEnabled
               ? <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
               : <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 14l2-2m0 0l2-2m-2 2l-2-2m2 2l2 2" /></svg>}
           </button>
+          <button onClick={() => setShowSettings(v => !v)} className={`flex items-center gap-2 px-3 py-1.5 rounded-lg border text-[10px] font-black font-mono uppercase tracking-widest transition-all ${showSettings ? 'bg-cyan-500/10 border-cyan-500 text-cyan-400' : 'bg-gray-800 border-gray-700 text-gray-500 hover:text-gray-300'}`} title="Engine weights, thresholds and presets">
+            {engineConfig.name} v{engineConfig.version}
+          </button>
         </div>
         <div className="flex items-center gap-8">
           <div className="text-right flex flex-col items-end">
@@ -419,10 +926,26 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-2 bg-[#0a0e14] px-4 py-2 rounded-lg border border-gray-800 min-w-[150px] justify-center shadow-inner">
-            <div className={`w-2 h-2 rounded-full ${connectionStatus === 'CONNECTED' ? 'bg-emerald-500 animate-pulse shadow-[0_0_10px_#10b981]' : connectionStatus === 'HISTORICAL' ? 'bg-amber-500' : 'bg-red-500 animate-ping'}`} />
+            <div className={`w-2 h-2 rounded-full ${connectionStatus === 'CONNECTED' ? 'bg-emerald-500 animate-pulse shadow-[0_0_10px_#10b981]' : connectionStatus === 'HISTORICAL' ? 'bg-amber-500' : connectionStatus === 'CONNECTING' || connectionStatus === 'RECONNECTING' ? 'bg-amber-500 animate-pulse' : 'bg-red-500 animate-ping'}`} />
             <span className="text-[10px] font-black font-mono text-gray-400 uppercase tracking-widest">
-              {connectionStatus === 'CONNECTED' ? 'STREAMING' : connectionStatus === 'HISTORICAL' ? 'REPLAYING' : 'IDLE'}
+              {connectionStatus === 'CONNECTED' ? 'STREAMING' : connectionStatus === 'HISTORICAL' ? 'REPLAYING' : connectionStatus === 'DISCONNECTED' ? 'IDLE' : connectionStatus}
             </span>
+            {mode === 'LIVE' && selectedStreams.length > 0 && (
+              <div className="flex items-center gap-1 pl-2 ml-1 border-l border-gray-800">
+                {selectedStreams.map(s => (
+                  <div
+                    key={s.id}
+                    className={`w-1.5 h-1.5 rounded-full ${STREAM_STATE_DOT[s.state]}`}
+                    title={`${s.venue} ${s.stream}: ${s.state}${s.attempt > 0 ? ` · attempt ${s.attempt}` : ''}${s.retry_in_ms != null ? ` · retry in ${(s.retry_in_ms / 1000).toFixed(1)}s` : ''}`}
+                  />
+                ))}
+              </div>
+            )}
+            {connectionStatus === 'FAILED' && (
+              <button onClick={retryFailedStreams} className="ml-1 px-2 py-0.5 rounded border border-red-500/40 text-[9px] font-black font-mono uppercase tracking-widest text-red-400 hover:bg-red-500/10 transition-colors" title="Reconnect the streams that gave up retrying">
+                Retry
+              </button>
+            )}
           </div>
           {/* FIX [E]: data_quality indicator — shows when Binance feed data is stale/degraded */}
           {activeTick && activeTick.data_quality !== 'GOOD' && (
@@ -434,6 +957,10 @@ const App: React.FC = () => {
         </div>
       </header>
 
+      {showSettings && (
+        <EngineSettings config={engineConfig} onApply={applyEngineConfig} onClose={() => setShowSettings(false)} />
+      )}
+
       {/* ── Snapshot Banner ── */}
       {snapshotEvent && (
         <div className="bg-[#1a1200] border border-amber-800/60 rounded-xl px-5 py-3 flex items-center justify-between animate-in slide-in-from-top duration-300 shadow-lg">
@@ -474,6 +1001,83 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* ── Historical range picker ── */}
+      {mode === 'HISTORICAL' && !isLoadingHistory && (
+        <div {...fileDropProps(importKlineFile)} className="bg-[#151a23] border border-gray-800 rounded-xl px-6 py-2.5 flex items-center gap-4 text-[10px] font-mono text-gray-500 uppercase tracking-widest">
+          <span className="text-amber-500 font-black">Range</span>
+          <select value={rangeDraft.symbol} onChange={(e) => setRangeDraft(d => ({ ...d, symbol: e.target.value }))} className="bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 focus:outline-none focus:border-amber-600">
+            {SYMBOLS.map(cfg => <option key={cfg.symbol} value={cfg.symbol}>{cfg.symbol}</option>)}
+          </select>
+          <select value={rangeDraft.interval} onChange={(e) => setRangeDraft(d => ({ ...d, interval: e.target.value as KlineInterval }))} className="bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 focus:outline-none focus:border-amber-600">
+            {(Object.keys(KLINE_INTERVALS) as KlineInterval[]).map(iv => <option key={iv} value={iv}>{iv}</option>)}
+          </select>
+          <input type="datetime-local" value={rangeDraft.start} onChange={(e) => setRangeDraft(d => ({ ...d, start: e.target.value }))} className="bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 focus:outline-none focus:border-amber-600 [color-scheme:dark]" />
+          <span>→</span>
+          <input type="datetime-local" value={rangeDraft.end} onChange={(e) => setRangeDraft(d => ({ ...d, end: e.target.value }))} className="bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 focus:outline-none focus:border-amber-600 [color-scheme:dark]" />
+          <span className="text-gray-600">UTC</span>
+          <button onClick={applyRangeDraft} className="px-3 py-1 rounded bg-amber-600 hover:bg-amber-500 text-black font-black transition-colors">Load</button>
+          <label className="px-3 py-1 rounded bg-gray-800 border border-gray-700 text-gray-300 font-black cursor-pointer hover:border-amber-600 transition-colors" title="Binance public-data kline CSV (unzipped) — or drop it on this bar">
+            Import CSV
+            <input type="file" accept=".csv,text/csv" className="hidden"
+              onChange={(e) => { const file = e.target.files?.[0]; if (file) importKlineFile(file); e.target.value = ''; }} />
+          </label>
+          <select value={depthModelId} onChange={(e) => { const m = depthModels.find(d => d.id === e.target.value); if (m) selectDepthModel(m); }} title="Depth model used to synthesise replayed books" className="bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 focus:outline-none focus:border-amber-600 normal-case">
+            {depthModels.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+          </select>
+          <label className="px-3 py-1 rounded bg-gray-800 border border-gray-700 text-gray-300 font-black cursor-pointer hover:border-amber-600 transition-colors" title="Fit a depth model to a recorded live session (.jsonl)">
+            Calibrate
+            <input type="file" accept=".jsonl,.ndjson,.json,application/x-ndjson,application/json" className="hidden"
+              onChange={(e) => { const file = e.target.files?.[0]; if (file) calibrateFromSession(file); e.target.value = ''; }} />
+          </label>
+          <button onClick={() => setShowDepthCompare(v => !v)} className={`px-3 py-1 rounded border font-black transition-colors ${showDepthCompare ? 'bg-amber-500/10 border-amber-600 text-amber-400' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-600'}`}>Compare</button>
+          <button onClick={() => setShowCache(v => !v)} className={`px-3 py-1 rounded border font-black transition-colors ${showCache ? 'bg-amber-500/10 border-amber-600 text-amber-400' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-600'}`}>Cache</button>
+          <button onClick={() => setShowBacktest(v => !v)} className={`px-3 py-1 rounded border font-black transition-colors ${showBacktest ? 'bg-amber-500/10 border-amber-600 text-amber-400' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-600'}`} title="Score the engine's critical events against every scenario's labeled episodes">Backtest</button>
+          <button onClick={() => setShowSweep(v => !v)} className={`px-3 py-1 rounded border font-black transition-colors ${showSweep ? 'bg-amber-500/10 border-amber-600 text-amber-400' : 'bg-gray-800 border-gray-700 text-gray-300 hover:border-amber-600'}`} title="Search weights and thresholds against the backtest and export the best config">Sweep</button>
+          <span className="ml-auto text-gray-600">
+            {klineImport && <span className="normal-case">{klineImport.file} · </span>}
+            {klineImport && klineImport.skipped > 0 && <span className="text-amber-500 cursor-help" title={describeRowErrors(klineImport.skipped, klineImport.errors)}>{klineImport.skipped} bad rows skipped · </span>}
+            {historicalPoints.length.toLocaleString()} candles loaded
+          </span>
+        </div>
+      )}
+
+      {mode === 'HISTORICAL' && !isLoadingHistory && showDepthCompare && (
+        <DepthModelComparison loader={historyLoader} points={historicalPoints} symbol={historyRange.symbol} models={depthModels} engineConfig={engineConfig} onClose={() => setShowDepthCompare(false)} />
+      )}
+
+      {mode === 'HISTORICAL' && !isLoadingHistory && showCache && (
+        <CacheManager loader={historyLoader} onClose={() => setShowCache(false)} />
+      )}
+
+      {mode === 'HISTORICAL' && showBacktest && (
+        <BacktestPanel depthModel={depthModels.find(m => m.id === depthModelId) ?? HEURISTIC_DEPTH_MODEL} engineConfig={engineConfig} onClose={() => setShowBacktest(false)} />
+      )}
+
+      {mode === 'HISTORICAL' && showSweep && (
+        <SweepPanel depthModel={depthModels.find(m => m.id === depthModelId) ?? HEURISTIC_DEPTH_MODEL} engineConfig={engineConfig} onClose={() => setShowSweep(false)} />
+      )}
+
+      {/* ── Scenario brief: expected breaches vs what the engine has flagged ── */}
+      {mode === 'HISTORICAL' && !isLoadingHistory && scenario && (
+        <div className="bg-[#151a23] border border-gray-800 rounded-xl px-6 py-2.5 flex items-center gap-6 font-mono">
+          <div className="flex flex-col gap-0.5 max-w-xl">
+            <span className="text-[10px] font-black text-amber-400 uppercase tracking-widest">{scenario.name}</span>
+            <span className="text-[10px] text-gray-500 leading-snug">{scenario.description}</span>
+          </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            {scenario.expected_breaches.map(b => {
+              const flagged = criticalLog.some(e => e.symbol === scenario.symbol && Math.abs(e.timestamp - b.time) <= scenario.tolerance_ms);
+              return (
+                <button key={b.time} onClick={() => jumpToTime(b.time - scenario.tolerance_ms)} title={`${b.label} — jump to ${scenario.tolerance_ms / 3_600_000}h before`} className={`flex items-center gap-2 px-2.5 py-1 rounded border text-[9px] uppercase tracking-widest transition-colors ${flagged ? 'bg-emerald-500/10 border-emerald-700 text-emerald-400' : 'bg-[#0a0e14] border-gray-800 text-gray-400 hover:border-amber-600'}`}>
+                  <span className={`w-1.5 h-1.5 rounded-full ${flagged ? 'bg-emerald-500' : 'bg-gray-600'}`} />
+                  {new Date(b.time).toISOString().slice(5, 16).replace('T', ' ')} UTC
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {/* ── Historical playback controls ── */}
       {mode === 'HISTORICAL' && !isLoadingHistory && (
         <div className={`border rounded-xl px-6 py-3 flex items-center gap-6 animate-in slide-in-from-top duration-300 ${snapshotEvent ? 'bg-[#0a0e14]/60 border-gray-800/40 opacity-60' : 'bg-[#151a23] border-gray-800 border-amber-900/30'}`}>
@@ -484,7 +1088,7 @@ const App: React.FC = () => {
           </button>
           <div className="flex-1 flex flex-col gap-1">
             <div className="flex justify-between text-[10px] font-mono text-gray-500 uppercase tracking-widest">
-              <span>Temporal Replay ({new Date(historicalPoints[simStep]?.timestamp || 0).toLocaleDateString()})</span>
+              <span>Temporal Replay · {historyRange.symbol} {historyRange.interval} ({new Date(historicalPoints[simStep]?.timestamp || 0).toISOString().slice(0, 16).replace('T', ' ')} UTC)</span>
               <span className="text-amber-500 font-bold">{Math.round((simStep / (historicalPoints.length - 1 || 1)) * 100)}% Complete</span>
             </div>
             <input type="range" min="0" max={historicalPoints.length - 1} value={simStep}
@@ -500,13 +1104,89 @@ const App: React.FC = () => {
             />
           </div>
           <div className="flex items-center gap-2 bg-[#0a0e14] rounded-lg p-1 border border-gray-800">
-            {[1, 50, 100].map(s => (
+            {(historicalPoints.length > 10_000 ? [1, 50, 100, 500] : [1, 50, 100]).map(s => (
               <button key={s} onClick={() => setPlaybackSpeed(s)} className={`px-2 py-1 text-[10px] font-bold rounded transition-colors ${playbackSpeed === s ? 'bg-amber-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{s}x</button>
             ))}
           </div>
         </div>
       )}
 
+      {/* ── Session replay controls ── */}
+      {mode === 'REPLAY' && (
+        <div {...fileDropProps(file => /\.csv$/i.test(file.name) ? loadTradeArchive(file) : loadSessionFile(file))} className={`border rounded-xl px-6 py-3 flex items-center gap-6 animate-in slide-in-from-top duration-300 ${snapshotEvent ? 'bg-[#0a0e14]/60 border-gray-800/40 opacity-60' : 'bg-[#151a23] border-gray-800 border-cyan-900/30'}`}>
+          <label className="px-3 py-1.5 rounded-lg bg-gray-800 border border-gray-700 text-[10px] font-black font-mono text-gray-300 uppercase tracking-widest cursor-pointer hover:border-cyan-600 transition-colors">
+            {session ? 'Load other' : 'Load session'}
+            <input type="file" accept=".jsonl,.ndjson,.json,application/x-ndjson,application/json" className="hidden"
+              onChange={(e) => { const file = e.target.files?.[0]; if (file) loadSessionFile(file); e.target.value = ''; }} />
+          </label>
+          {!session && !tradeReplay && (
+            <span className="text-[10px] font-mono text-gray-500 uppercase tracking-widest">Record a live session with REC and load or drop the .jsonl (or a JSON tick dump) here, or replay Binance trades below.</span>
+          )}
+          {(session || tradeReplay) && replayTicks.length > 0 && (
+            <>
+              <button onClick={() => { const next = !isPaused; setIsPaused(next); isPausedRef.current = next; }} className="w-10 h-10 flex items-center justify-center rounded-full bg-gray-800 hover:bg-cyan-600 text-white transition-all shadow-inner">
+                {isPaused
+                  ? <svg className="w-4 h-4 ml-0.5" fill="currentColor" viewBox="0 0 20 20"><path d="M4.5 2.691l11 6.309-11 6.309V2.691z" /></svg>
+                  : <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20"><path d="M5 4h3v12H5V4zm7 0h3v12h-3V4z" /></svg>}
+              </button>
+              <div className="flex-1 flex flex-col gap-1">
+                <div className="flex justify-between text-[10px] font-mono text-gray-500 uppercase tracking-widest">
+                  <span>
+                    {tradeReplay
+                      ? <>aggTrades {tradeReplay.symbol} · {new Date(replayTicks[simStep]?.processing_timestamp || 0).toISOString().slice(0, 19).replace('T', ' ')} UTC · {tradeReplay.trade_count.toLocaleString()} trades</>
+                      : <>Session {session.header.venue} · {new Date(replayTicks[simStep]?.processing_timestamp || 0).toLocaleTimeString([], { hour12: false })}</>}
+                    {tradeReplay && tradeReplay.skipped > 0 && <span className="text-amber-500 cursor-help" title={describeRowErrors(tradeReplay.skipped, tradeReplay.errors)}> · {tradeReplay.skipped} bad rows skipped</span>}
+                    {session && session.skipped > 0 && <span className="text-amber-500 cursor-help" title={describeRowErrors(session.skipped, session.errors)}> · {session.skipped} bad lines skipped</span>}
+                  </span>
+                  <span className="text-cyan-400 font-bold">{simStep + 1} / {replayTicks.length} ticks</span>
+                </div>
+                <input type="range" min="0" max={replayTicks.length - 1} value={simStep}
+                  onChange={(e) => {
+                    setIsPaused(true);
+                    isPausedRef.current = true;
+                    seekReplay(parseInt(e.target.value));
+                  }}
+                  className="w-full h-1.5 bg-gray-800 rounded-lg appearance-none cursor-pointer accent-cyan-500"
+                />
+              </div>
+              {session && session.symbols.length > 1 && (
+                <div className="flex items-center gap-1 bg-[#0a0e14] rounded-lg p-1 border border-gray-800">
+                  {session.symbols.map(sym => (
+                    <button key={sym} onClick={() => setReplaySymbol(sym)} className={`px-2 py-1 text-[10px] font-bold font-mono rounded transition-colors ${replaySymbol === sym ? 'bg-cyan-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{SYMBOLS.find(s => s.symbol === sym)?.base ?? sym}</button>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center gap-2 bg-[#0a0e14] rounded-lg p-1 border border-gray-800">
+                {REPLAY_SPEEDS.map(s => (
+                  <button key={s} onClick={() => setPlaybackSpeed(s)} className={`px-2 py-1 text-[10px] font-bold rounded transition-colors ${playbackSpeed === s ? 'bg-cyan-600 text-white' : 'text-gray-500 hover:text-gray-300'}`}>{s}x</button>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* ── aggTrades tick replay source ── */}
+      {mode === 'REPLAY' && (
+        <div className="bg-[#151a23] border border-gray-800 rounded-xl px-6 py-2.5 flex items-center gap-4 text-[10px] font-mono text-gray-500 uppercase tracking-widest">
+          <span className="text-cyan-500 font-black">Trades</span>
+          <select value={tradeDraft.symbol} onChange={(e) => setTradeDraft(d => ({ ...d, symbol: e.target.value }))} className="bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 focus:outline-none focus:border-cyan-600">
+            {SYMBOLS.map(cfg => <option key={cfg.symbol} value={cfg.symbol}>{cfg.symbol}</option>)}
+          </select>
+          <input type="datetime-local" value={tradeDraft.start} onChange={(e) => setTradeDraft(d => ({ ...d, start: e.target.value }))} className="bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 focus:outline-none focus:border-cyan-600 [color-scheme:dark]" />
+          <span>→</span>
+          <input type="datetime-local" value={tradeDraft.end} onChange={(e) => setTradeDraft(d => ({ ...d, end: e.target.value }))} className="bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 focus:outline-none focus:border-cyan-600 [color-scheme:dark]" />
+          <span className="text-gray-600">UTC · max {MAX_TRADE_REPLAY_MS / 3_600_000}h</span>
+          <button onClick={fetchTradeReplay} disabled={tradeLoadStatus !== null} className="px-3 py-1 rounded bg-cyan-600 hover:bg-cyan-500 disabled:opacity-40 text-black font-black transition-colors">Fetch aggTrades</button>
+          <label className={`px-3 py-1 rounded bg-gray-800 border border-gray-700 text-gray-300 font-black transition-colors ${tradeLoadStatus !== null ? 'opacity-40 pointer-events-none' : 'cursor-pointer hover:border-cyan-600'}`} title="Unzipped aggTrades CSV from data.binance.vision; trades outside the range are ignored">
+            Load archive
+            <input type="file" accept=".csv,text/csv" className="hidden"
+              onChange={(e) => { const file = e.target.files?.[0]; if (file) loadTradeArchive(file); e.target.value = ''; }} />
+          </label>
+          {tradeLoadStatus && <span className="text-cyan-400 animate-pulse">{tradeLoadStatus}</span>}
+        </div>
+      )}
+
       {/* ── Main layout ── */}
       <main className="flex-1 grid grid-cols-12 gap-4 h-[calc(100vh-200px)] overflow-hidden">
 
@@ -527,7 +1207,7 @@ const App: React.FC = () => {
           {/* Stat cards */}
           <div className="grid grid-cols-4 gap-4">
             <div className="bg-[#151a23] border border-gray-800 rounded-xl p-4 flex flex-col justify-between shadow-md">
-              <span className="text-[10px] text-gray-500 uppercase tracking-widest block font-mono">Mark Price</span>
+              <span className="text-[10px] text-gray-500 uppercase tracking-widest block font-mono">Mark Price · {activeSymbolConfig.base}/{activeSymbolConfig.quote}</span>
               <div className="text-2xl font-black font-mono tracking-tighter text-white">
                 ${activeTick?.price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) || '---'}
               </div>
@@ -540,7 +1220,9 @@ const App: React.FC = () => {
             </div>
             <div className="bg-[#151a23] border border-gray-800 rounded-xl p-4 flex flex-col justify-between shadow-md">
               <span className="text-[10px] text-gray-500 uppercase tracking-widest block font-mono">Liquidity Depth</span>
-              <div className="text-2xl font-black font-mono text-blue-400 tracking-tighter">{activeTick?.total_depth.toFixed(1) || '---'}</div>
+              <div className="text-2xl font-black font-mono text-blue-400 tracking-tighter">
+                {activeTick?.total_depth.toFixed(1) || '---'} <span className="text-[10px] text-gray-600 font-normal">{activeSymbolConfig.base}</span>
+              </div>
             </div>
             <div className="bg-[#151a23] border border-gray-800 rounded-xl p-4 flex flex-col justify-between shadow-md group">
               <div className="flex justify-between items-center mb-1">
@@ -551,16 +1233,11 @@ const App: React.FC = () => {
               </div>
               <div className="flex items-center justify-between">
                 <div className="flex gap-1.5">
-                  {activeSignals && [
-                    { id: 'L', type: SignalType.LIQUIDITY },
-                    { id: 'F', type: SignalType.FLOW },
-                    { id: 'V', type: SignalType.VOLATILITY },
-                    { id: 'S', type: SignalType.FORCED_SELLING }
-                  ].map(v => {
-                    const active = activeSignals[v.type]?.triggered;
+                  {activeSignals && SIGNAL_REGISTRY.map(p => {
+                    const active = activeSignals[p.id]?.triggered;
                     return (
-                      <div key={v.id} className={`w-6 h-6 flex items-center justify-center rounded-sm text-[9px] font-black font-mono border transition-all duration-500 ${active ? 'bg-red-500/20 border-red-500 text-red-400 shadow-[0_0_12px_rgba(239,68,68,0.4)] animate-pulse' : 'bg-gray-800/40 border-gray-800 text-gray-600 grayscale'}`} title={v.type}>
-                        {v.id}
+                      <div key={p.id} className={`w-6 h-6 flex items-center justify-center rounded-sm text-[9px] font-black font-mono border transition-all duration-500 ${active ? 'bg-red-500/20 border-red-500 text-red-400 shadow-[0_0_12px_rgba(239,68,68,0.4)] animate-pulse' : 'bg-gray-800/40 border-gray-800 text-gray-600 grayscale'}`} title={p.id}>
+                        {p.badge}
                       </div>
                     );
                   })}
@@ -606,6 +1283,21 @@ const App: React.FC = () => {
                 </div>
               </div>
 
+              {/* Reflexivity — Hawkes branching ratio of trade arrivals; 1.0 is criticality */}
+              {activeCausal?.reflexivity && (
+                <div className="flex items-center gap-2 mb-3 px-2 py-1.5 rounded-lg bg-gray-900/50 border border-gray-800/80" title="Share of trades triggered by earlier trades (Hawkes branching ratio)">
+                  <span className={`text-[8px] font-black font-mono uppercase tracking-widest ${activeCausal.reflexivity.critical ? 'text-red-400' : 'text-gray-500'}`}>Reflexivity</span>
+                  <div className="flex-1 h-1 bg-gray-800 rounded-full overflow-hidden">
+                    <div className={`h-full rounded-full transition-all ${activeCausal.reflexivity.critical ? 'bg-red-500' : activeCausal.reflexivity.branching_ratio > 0.6 ? 'bg-amber-500' : 'bg-blue-500'}`} style={{ width: `${activeCausal.reflexivity.branching_ratio * 100}%` }} />
+                  </div>
+                  <span className={`text-[9px] font-black font-mono ${activeCausal.reflexivity.critical ? 'text-red-400' : 'text-gray-400'}`}>n {activeCausal.reflexivity.branching_ratio.toFixed(2)}</span>
+                  <span className="text-[8px] text-gray-600 font-mono">{activeCausal.reflexivity.intensity.toFixed(1)}/s · μ {activeCausal.reflexivity.base_rate.toFixed(1)}/s</span>
+                  {activeCausal.reflexivity.critical && (
+                    <span className="text-[8px] font-black font-mono px-1.5 py-0.5 rounded uppercase tracking-tight bg-red-500/20 text-red-400 border border-red-500/30">Near critical</span>
+                  )}
+                </div>
+              )}
+
               <div className="flex-1 overflow-y-auto space-y-0 relative pr-1 custom-scrollbar min-h-0">
                 {activeCausal?.active
                   ? (<>
@@ -631,10 +1323,10 @@ const App: React.FC = () => {
                                 <span className="text-[9px] text-gray-700 font-mono italic">
                                   {step.elapsed_since_catalyst_ms > 0
                                     ? mode === 'HISTORICAL'
-                                      // FIX [H]: Historical ticks are 1-min klines.
+                                      // FIX [H]: Historical ticks are klines of the loaded interval.
                                       // elapsed is kline boundary distance, not real seconds.
                                       // Show "+N candles" to prevent misreading as real signal lag.
-                                      ? `+${Math.round(step.elapsed_since_catalyst_ms / 60000)} candle${Math.round(step.elapsed_since_catalyst_ms / 60000) !== 1 ? 's' : ''}`
+                                      ? `+${Math.round(step.elapsed_since_catalyst_ms / KLINE_INTERVALS[historyRange.interval])} candle${Math.round(step.elapsed_since_catalyst_ms / KLINE_INTERVALS[historyRange.interval]) !== 1 ? 's' : ''}`
                                       : `+${(step.elapsed_since_catalyst_ms / 1000).toFixed(0)}s`
                                     : new Date(step.timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })}
                                 </span>
@@ -695,7 +1387,7 @@ const App: React.FC = () => {
                       <div className={`absolute left-0 top-0 bottom-0 w-1.5 ${event.stress_score > 80 ? 'bg-red-500 shadow-[0_0_15px_rgba(239,68,68,0.6)]' : 'bg-amber-500'}`} />
                       <div className="flex justify-between items-start mb-2">
                         <div className="flex flex-col">
-                          <span className={`text-[10px] font-black font-mono uppercase tracking-tight ${event.stress_score > 80 ? 'text-red-400' : 'text-gray-300'}`}>{event.level} REGIME</span>
+                          <span className={`text-[10px] font-black font-mono uppercase tracking-tight ${event.stress_score > 80 ? 'text-red-400' : 'text-gray-300'}`}>{event.symbol} · {event.level} REGIME</span>
                           <span className="text-[9px] text-gray-600 font-mono">
                             {new Date(event.timestamp).toLocaleTimeString([], { hour12: false, hour: '2-digit', minute: '2-digit', second: '2-digit' })} • #{criticalLog.length - eventIdx}
                           </span>
@@ -0,0 +1,104 @@
+import { readFileSync, createWriteStream } from 'node:fs';
+import { once } from 'node:events';
+import { basename } from 'node:path';
+import { Writable } from 'node:stream';
+import { readTickFile, replayTickStream, toRecord, toCsvRow, CSV_HEADER } from '../services/BatchRunner';
+import { EngineConfig, DEFAULT_ENGINE_CONFIG, parseEngineConfig } from '../services/EngineConfig';
+import { setLogSink } from '../services/Log';
+
+// Headless engine run: one input file in, one record per tick out.
+//
+//   npm run cli -- <file> [--format jsonl|csv] [--out <file>] [--symbol BTCUSDT]
+//                         [--from <ISO time>] [--to <ISO time>] [--events-only]
+//                         [--config <engine config .json>]
+//
+// <file> is anything the app replays: a session .jsonl / JSON tick dump, a
+// Binance kline CSV, or a Binance aggTrades CSV (which needs --from/--to).
+
+const USAGE = 'Usage: npm run cli -- <file> [--format jsonl|csv] [--out <file>] [--symbol SYM] [--from ISO] [--to ISO] [--events-only] [--config file.json]';
+
+function parseArgs(argv: string[]) {
+  const args: { file?: string; format: 'jsonl' | 'csv'; out?: string; symbol?: string; from?: number; to?: number; eventsOnly: boolean; config: EngineConfig } =
+    { format: 'jsonl', eventsOnly: false, config: DEFAULT_ENGINE_CONFIG };
+  for (let i = 0; i < argv.length; i++) {
+    const arg  = argv[i];
+    const next = () => {
+      const value = argv[++i];
+      if (value === undefined) throw new Error(`${arg} needs a value`);
+      return value;
+    };
+    const time = (value: string) => {
+      const ms = Date.parse(/Z|[+-]\d\d:?\d\d$/.test(value) ? value : `${value}Z`);
+      if (!isFinite(ms)) throw new Error(`${arg}: "${value}" is not a date/time`);
+      return ms;
+    };
+    switch (arg) {
+      case '--format': {
+        const format = next();
+        if (format !== 'jsonl' && format !== 'csv') throw new Error(`--format must be jsonl or csv, not "${format}"`);
+        args.format = format;
+        break;
+      }
+      case '--out':         args.out    = next(); break;
+      case '--symbol':      args.symbol = next().toUpperCase(); break;
+      case '--from':        args.from   = time(next()); break;
+      case '--to':          args.to     = time(next()); break;
+      case '--events-only': args.eventsOnly = true; break;
+      case '--config': {
+        const file = next();
+        args.config = parseEngineConfig(readFileSync(file, 'utf8'));
+        break;
+      }
+      case '--help':
+      case '-h':
+        console.error(USAGE);
+        process.exit(0);
+      default:
+        if (arg.startsWith('--')) throw new Error(`Unknown option ${arg}`);
+        if (args.file) throw new Error('Only one input file is supported');
+        args.file = arg;
+    }
+  }
+  if (!args.file) throw new Error('No input file given');
+  return args;
+}
+
+// A full stream buffers everything written after it; wait for it to drain
+async function writeLine(out: Writable, line: string): Promise<void> {
+  if (!out.write(line + '\n')) await once(out, 'drain');
+}
+
+async function main(): Promise<void> {
+  const args    = parseArgs(process.argv.slice(2));
+  const streams = readTickFile(basename(args.file), readFileSync(args.file, 'utf8'), args);
+  if (streams.length === 0) throw new Error(args.symbol ? `No ${args.symbol} ticks in ${args.file}` : `No ticks in ${args.file}`);
+
+  const out = args.out ? createWriteStream(args.out) : process.stdout;
+  if (args.format === 'csv') await writeLine(out, CSV_HEADER);
+
+  for (const stream of streams) {
+    let events = 0;
+    for (const [tick, result] of replayTickStream(stream, args.config)) {
+      if (result.criticalEvent) events++;
+      if (args.eventsOnly && !result.criticalEvent) continue;
+      const record = toRecord(tick, result);
+      await writeLine(out, args.format === 'csv' ? toCsvRow(record) : JSON.stringify(record));
+    }
+    // Progress goes to stderr so stdout stays clean for piping
+    console.error(`[sentinel] ${stream.symbol} (${stream.source}, ${args.config.name} config): ${stream.ticks.length} ticks, ${events} critical events` +
+      (stream.skipped > 0 ? `, ${stream.skipped} input rows skipped` : ''));
+  }
+  if (out !== process.stdout) {
+    out.end();
+    await once(out, 'finish');
+  }
+}
+
+// Service progress goes to stderr; stdout carries records only
+setLogSink(message => console.error(message));
+
+main().catch(err => {
+  console.error(`[sentinel] ${err instanceof Error ? err.message : String(err)}`);
+  console.error(USAGE);
+  process.exit(1);
+});
@@ -0,0 +1,143 @@
+import React, { useMemo, useState } from 'react';
+import { HistoricalDataLoader } from '../services/HistoricalDataLoader';
+import { DepthModel } from '../services/DepthModel';
+import { EngineConfig } from '../services/EngineConfig';
+import { SCENARIOS } from '../services/ScenarioCatalogue';
+import { BacktestScore, ScenarioBacktest, backtestTicks, combineScores, scenarioTicks } from '../services/Backtest';
+
+interface BacktestPanelProps {
+  depthModel:   DepthModel;
+  engineConfig: EngineConfig;
+  onClose:      () => void;
+}
+
+const formatUtc = (ms: number) => new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+
+// Signed hours/minutes: "+1h 20m" early, "−15m" late
+const formatLead = (ms: number | null) => {
+  if (ms === null) return '—';
+  const minutes = Math.round(Math.abs(ms) / 60_000);
+  const text    = minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+  return `${ms >= 0 ? '+' : '−'}${text}`;
+};
+
+const pct = (v: number) => `${Math.round(v * 100)}%`;
+
+const ScoreRow: React.FC<{ score: BacktestScore }> = ({ score }) => (
+  <div className="flex items-center gap-5">
+    <span>Hit rate <span className="text-gray-200 font-bold">{pct(score.hit_rate)}</span> ({score.hits}/{score.episodes})</span>
+    <span>Missed <span className={score.missed > 0 ? 'text-red-400 font-bold' : 'text-gray-200 font-bold'}>{score.missed}</span></span>
+    <span>Precision <span className="text-gray-200 font-bold">{score.events > 0 ? pct(score.precision) : '—'}</span></span>
+    <span>False alarms <span className="text-gray-200 font-bold">{score.false_alarms_per_day.toFixed(1)}/day</span> ({score.false_alarms} in {score.days.toFixed(1)}d)</span>
+    <span>Median lead <span className="text-gray-200 font-bold">{formatLead(score.median_lead_ms)}</span></span>
+  </div>
+);
+
+/**
+ * Replays every catalogue scenario through a fresh engine and scores the
+ * critical events it emits against the scenarios' labeled stress episodes,
+ * so a change to weights or thresholds can be judged on more than one chart.
+ */
+export const BacktestPanel: React.FC<BacktestPanelProps> = ({ depthModel, engineConfig, onClose }) => {
+  // Its own loader: loading a scenario repoints the loader, and the one in
+  // App drives the on-screen replay
+  const loader = useMemo(() => new HistoricalDataLoader(), []);
+  const [runs, setRuns]       = useState<ScenarioBacktest[]>([]);
+  const [errors, setErrors]   = useState<Record<string, string>>({});
+  const [running, setRunning] = useState<string | null>(null);
+
+  const run = async () => {
+    loader.setDepthModel(depthModel);
+    setRuns([]);
+    setErrors({});
+    for (const scenario of SCENARIOS) {
+      setRunning(scenario.name);
+      try {
+        const ticks  = await scenarioTicks(loader, scenario);
+        // Let the status line paint before the synchronous replay
+        await new Promise(resolve => setTimeout(resolve, 0));
+        const result = backtestTicks(scenario, ticks, engineConfig);
+        setRuns(prev => [...prev, result]);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        console.error(`[Backtest] ${scenario.name} failed:`, err);
+        setErrors(prev => ({ ...prev, [scenario.id]: message }));
+      }
+    }
+    setRunning(null);
+  };
+
+  const total = runs.length > 0 ? combineScores(runs) : null;
+
+  return (
+    <div className="bg-[#151a23] border border-gray-800 rounded-xl px-6 py-3 flex flex-col gap-3 font-mono text-[10px] uppercase tracking-widest text-gray-500">
+      <div className="flex items-center gap-4">
+        <span className="text-amber-500 font-black">Backtest · labeled episodes</span>
+        <span>{SCENARIOS.length} scenarios · {depthModel.name} depth · <span className="normal-case">{engineConfig.name} v{engineConfig.version}</span></span>
+        {running && <span className="text-amber-400 animate-pulse">Replaying {running}...</span>}
+        <button onClick={run} disabled={running !== null} className="ml-auto px-2 py-1 rounded border border-amber-700 text-amber-400 hover:bg-amber-500/10 disabled:opacity-40 transition-colors">Run</button>
+        <button onClick={onClose} className="px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-gray-200 transition-colors">Close</button>
+      </div>
+
+      {runs.length === 0 && !running && Object.keys(errors).length === 0 && (
+        <span className="text-gray-600 normal-case tracking-normal">
+          Each scenario's expected breaches, widened by its tolerance, are the labeled episodes. An episode is hit when a critical event lands inside its window; events outside every window are false alarms. Lead time is measured to the labeled moment.
+        </span>
+      )}
+
+      {total && (
+        <div className="px-3 py-2 rounded-lg bg-[#0a0e14] border border-amber-900/50 flex items-center gap-4">
+          <span className="text-amber-400 font-black w-44">All scenarios</span>
+          <ScoreRow score={total} />
+        </div>
+      )}
+
+      {SCENARIOS.map(scenario => {
+        const result = runs.find(r => r.scenario.id === scenario.id);
+        const error  = errors[scenario.id];
+        if (!result && !error) return null;
+        if (error) {
+          return (
+            <div key={scenario.id} className="px-3 py-2 rounded-lg bg-[#0a0e14] border border-gray-800 flex items-center gap-4">
+              <span className="text-gray-300 font-black w-44">{scenario.name}</span>
+              <span className="text-red-400 normal-case tracking-normal">{error}</span>
+            </div>
+          );
+        }
+
+        const span = Math.max(1, scenario.endTime - scenario.startTime);
+        const x    = (t: number) => `${Math.min(100, Math.max(0, ((t - scenario.startTime) / span) * 100))}%`;
+        return (
+          <div key={scenario.id} className="px-3 py-2 rounded-lg bg-[#0a0e14] border border-gray-800 flex flex-col gap-2">
+            <div className="flex items-center gap-4">
+              <span className="text-gray-300 font-black w-44">{scenario.name}</span>
+              <ScoreRow score={result.score} />
+            </div>
+
+            {/* Window strip: labeled episodes shaded, events as ticks (green inside, red false alarm) */}
+            <div className="relative h-5 rounded bg-[#151a23] border border-gray-800 overflow-hidden">
+              {result.outcomes.map(o => (
+                <div key={o.episode.time} title={o.episode.label}
+                  className={`absolute inset-y-0 ${o.hit ? 'bg-emerald-500/15' : 'bg-red-500/15'}`}
+                  style={{ left: x(o.episode.start), width: `calc(${x(o.episode.end)} - ${x(o.episode.start)})` }} />
+              ))}
+              {result.events.map(e => (
+                <div key={e.id} title={`${formatUtc(e.timestamp)} UTC · stress ${e.stress_score} · ${e.primary_factor}`}
+                  className={`absolute inset-y-0 w-px ${result.false_alarm_times.includes(e.timestamp) ? 'bg-red-500' : 'bg-emerald-400'}`}
+                  style={{ left: x(e.timestamp) }} />
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {result.outcomes.map(o => (
+                <span key={o.episode.time} title={o.episode.label} className={`px-2 py-0.5 rounded border ${o.hit ? 'border-emerald-800 text-emerald-400' : 'border-red-900 text-red-400'}`}>
+                  {formatUtc(o.episode.time)} · {o.hit ? `lead ${formatLead(o.lead_ms)}` : 'missed'}
+                </span>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { HistoricalDataLoader } from '../services/HistoricalDataLoader';
+import { CachedSegmentInfo } from '../services/HistoryCache';
+
+interface CacheManagerProps {
+  loader:  HistoricalDataLoader;
+  onClose: () => void;
+}
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1_048_576 ? `${(bytes / 1_048_576).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const formatAge = (ms: number) => {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 60)   return `${minutes}m`;
+  if (minutes < 1440) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / 1440)}d`;
+};
+
+const formatUtc = (ms: number) => new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+
+export const CacheManager: React.FC<CacheManagerProps> = ({ loader, onClose }) => {
+  const [segments, setSegments] = useState<CachedSegmentInfo[] | null>(null);
+
+  const refresh = useCallback(() => {
+    loader.listCached().then(setSegments);
+  }, [loader]);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const evict = async (segment: CachedSegmentInfo) => {
+    await loader.evictCached(segment);
+    refresh();
+  };
+
+  const clearAll = async () => {
+    await loader.clearCached();
+    refresh();
+  };
+
+  const totalBytes = segments?.reduce((s, seg) => s + seg.bytes, 0) ?? 0;
+
+  return (
+    <div className="bg-[#151a23] border border-gray-800 rounded-xl px-6 py-3 flex flex-col gap-2 font-mono text-[10px] uppercase tracking-widest text-gray-500">
+      <div className="flex items-center gap-4">
+        <span className="text-amber-500 font-black">Kline cache</span>
+        <span>{segments ? `${segments.length} segments · ${formatBytes(totalBytes)}` : 'Reading...'}</span>
+        <button onClick={clearAll} disabled={!segments?.length} className="ml-auto px-2 py-1 rounded border border-gray-700 text-gray-400 hover:border-red-600 hover:text-red-400 disabled:opacity-40 transition-colors">Clear all</button>
+        <button onClick={onClose} className="px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-gray-200 transition-colors">Close</button>
+      </div>
+      {segments && segments.length === 0 && (
+        <span className="text-gray-600 normal-case tracking-normal">Nothing cached yet — fetched klines are stored here and reused across reloads.</span>
+      )}
+      {segments && segments.length > 0 && (
+        <div className="flex flex-col gap-1 max-h-40 overflow-y-auto custom-scrollbar">
+          {segments.map(seg => (
+            <div key={seg.key} className="flex items-center gap-4 px-2 py-1 rounded bg-[#0a0e14] border border-gray-800">
+              <span className="text-gray-300 font-bold w-20">{seg.symbol}</span>
+              <span className="w-8">{seg.interval}</span>
+              <span className="flex-1 normal-case">{formatUtc(seg.startTime)} → {formatUtc(seg.endTime)} UTC</span>
+              <span className="w-24 text-right">{seg.candles.toLocaleString()} candles</span>
+              <span className="w-16 text-right">{formatBytes(seg.bytes)}</span>
+              <span className="w-12 text-right" title={`First fetched ${new Date(seg.created_at).toLocaleString()}`}>{formatAge(Date.now() - seg.created_at)}</span>
+              <button onClick={() => evict(seg)} className="px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:border-red-600 hover:text-red-400 transition-colors">Evict</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine } from 'recharts';
+import { SignalType } from '../types';
+import { SYMBOLS, DEFAULT_SYMBOL } from '../constants';
+import { AnalyticsEngine } from '../services/AnalyticsEngine';
+import { HistoricalDataLoader, HistoricalDataPoint } from '../services/HistoricalDataLoader';
+import { DepthModel, DepthModelParams, DEPTH_PARAM_LABELS } from '../services/DepthModel';
+import { EngineConfig } from '../services/EngineConfig';
+import { ChartErrorBoundary } from './TimelineChart';
+
+interface DepthModelComparisonProps {
+  loader:  HistoricalDataLoader;
+  points:  HistoricalDataPoint[];
+  symbol:  string;
+  models:  DepthModel[];
+  engineConfig: EngineConfig;
+  onClose: () => void;
+}
+
+interface ModelRun {
+  model:        DepthModel;
+  mean:         number;
+  peak:         number;
+  triggeredPct: number;
+  firstTrigger: number | null;
+}
+
+const MODEL_COLORS = ['#f59e0b', '#22d3ee', '#a78bfa', '#34d399', '#f472b6'];
+// Candles processed per model between yields to the UI thread
+const CHUNK_SIZE  = 2000;
+// Chart points per line; each keeps its bucket's peak so spikes survive
+const CHART_POINTS = 600;
+
+const formatUtc = (ms: number) => new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+
+/**
+ * Runs the loaded dataset through a fresh engine once per depth model and
+ * plots the Liquidity signal each one produces. The models differ only in
+ * the books they synthesise, so the spread between lines is how much the
+ * Liquidity reading owes to the depth assumption rather than to the data.
+ */
+export const DepthModelComparison: React.FC<DepthModelComparisonProps> = ({ loader, points, symbol, models, engineConfig, onClose }) => {
+  // Liquidity's own trigger threshold under the running config
+  const liquidityTrigger = engineConfig.triggers[SignalType.LIQUIDITY];
+  const [runs, setRuns]         = useState<ModelRun[]>([]);
+  const [chart, setChart]       = useState<Record<string, number>[]>([]);
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    if (points.length === 0) return;
+    let cancelled = false;
+    const cfg     = SYMBOLS.find(s => s.symbol === symbol) ?? { ...DEFAULT_SYMBOL, symbol };
+    const stride  = Math.max(1, Math.ceil(points.length / CHART_POINTS));
+    const engines = models.map(() => new AnalyticsEngine(cfg, engineConfig));
+    const values  = models.map(() => new Float32Array(points.length));
+    setRuns([]);
+    setChart([]);
+    setProgress(0);
+
+    const step = (start: number) => {
+      if (cancelled) return;
+      const end = Math.min(points.length, start + CHUNK_SIZE);
+      models.forEach((model, m) => {
+        for (let i = start; i < end; i++) {
+          const result = engines[m].processTick(loader.convertToTick(points[i], model));
+          values[m][i] = result.signals[SignalType.LIQUIDITY].value;
+        }
+      });
+      setProgress(end / points.length);
+      if (end < points.length) {
+        setTimeout(() => step(end), 0);
+        return;
+      }
+
+      setRuns(models.map((model, m) => {
+        let sum = 0, peak = 0, triggered = 0, firstTrigger: number | null = null;
+        values[m].forEach((v, i) => {
+          sum += v;
+          peak = Math.max(peak, v);
+          if (v > liquidityTrigger) {
+            triggered++;
+            if (firstTrigger === null) firstTrigger = points[i].timestamp;
+          }
+        });
+        return { model, mean: sum / points.length, peak, triggeredPct: (triggered / points.length) * 100, firstTrigger };
+      }));
+      const rows: Record<string, number>[] = [];
+      for (let i = 0; i < points.length; i += stride) {
+        const row: Record<string, number> = { timestamp: points[i].timestamp };
+        models.forEach((model, m) => {
+          let peak = 0;
+          for (let j = i; j < Math.min(points.length, i + stride); j++) peak = Math.max(peak, values[m][j]);
+          row[model.id] = peak;
+        });
+        rows.push(row);
+      }
+      setChart(rows);
+    };
+    setTimeout(() => step(0), 0);
+
+    return () => { cancelled = true; };
+  }, [loader, points, symbol, models, engineConfig, liquidityTrigger]);
+
+  const tsDomain: [number, number] = chart.length >= 2
+    ? [chart[0].timestamp, chart[chart.length - 1].timestamp]
+    : [0, 1];
+
+  return (
+    <div className="bg-[#151a23] border border-gray-800 rounded-xl px-6 py-3 flex flex-col gap-3 font-mono text-[10px] uppercase tracking-widest text-gray-500">
+      <div className="flex items-center gap-4">
+        <span className="text-amber-500 font-black">Depth models · Liquidity signal</span>
+        <span>{symbol} · {points.length.toLocaleString()} candles</span>
+        {progress < 1 && <span className="text-amber-400 animate-pulse">Replaying {Math.round(progress * 100)}%</span>}
+        <button onClick={onClose} className="ml-auto px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-gray-200 transition-colors">Close</button>
+      </div>
+
+      {chart.length >= 2 && (
+        <div className="h-40">
+          <ChartErrorBoundary>
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chart}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+                <XAxis dataKey="timestamp" type="number" domain={tsDomain} hide />
+                <YAxis domain={[0, 100]} stroke="#4b5563" fontSize={9} width={28} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#0a0e14', border: '1px solid #374151', borderRadius: '8px', fontSize: '11px' }}
+                  labelFormatter={(t) => `${formatUtc(Number(t))} UTC`}
+                  isAnimationActive={false}
+                />
+                <ReferenceLine y={liquidityTrigger} stroke="#dc2626" strokeDasharray="3 3" />
+                {models.map((model, m) => (
+                  <Line key={model.id} type="monotone" dataKey={model.id} name={model.name}
+                    stroke={MODEL_COLORS[m % MODEL_COLORS.length]} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </ChartErrorBoundary>
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${runs.length}, minmax(0, 1fr))` }}>
+          {runs.map((run, m) => (
+            <div key={run.model.id} className="bg-[#0a0e14] border border-gray-800 rounded-lg p-3 flex flex-col gap-1.5">
+              <span className="font-black" style={{ color: MODEL_COLORS[m % MODEL_COLORS.length] }}>{run.model.name}</span>
+              <span className="normal-case tracking-normal text-gray-600">{run.model.description}</span>
+              <div className="flex justify-between"><span>Mean</span><span className="text-gray-300">{run.mean.toFixed(1)}</span></div>
+              <div className="flex justify-between"><span>Peak</span><span className="text-gray-300">{run.peak}</span></div>
+              <div className="flex justify-between"><span>Triggered</span><span className="text-gray-300">{run.triggeredPct.toFixed(1)}% of candles</span></div>
+              <div className="flex justify-between"><span>First trigger</span><span className="text-gray-300">{run.firstTrigger ? `${formatUtc(run.firstTrigger)} UTC` : '—'}</span></div>
+              <div className="mt-1 pt-1.5 border-t border-gray-800 grid grid-cols-2 gap-x-3 gap-y-0.5 normal-case tracking-normal">
+                {(Object.keys(DEPTH_PARAM_LABELS) as (keyof DepthModelParams)[]).map(key => (
+                  <React.Fragment key={key}>
+                    <span className="text-gray-600">{DEPTH_PARAM_LABELS[key]}</span>
+                    <span className="text-right text-gray-400">{Number(run.model.params[key].toPrecision(4))}</span>
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import {
+  EngineConfig, EngineBuffers, DEFAULT_ENGINE_CONFIG, BUFFER_LABELS,
+  validateEngineConfig, parseEngineConfig, configFingerprint, downloadEngineConfig
+} from '../services/EngineConfig';
+import { EnginePreset, listPresets, savePreset, deletePreset } from '../services/EnginePresets';
+import { SIGNAL_REGISTRY } from '../services/SignalRegistry';
+
+interface EngineSettingsProps {
+  config:  EngineConfig;
+  onApply: (config: EngineConfig) => void;
+  onClose: () => void;
+}
+
+const LEVEL_NAMES = ['Elevated', 'Stressed', 'Unstable', 'Critical'];
+
+const inputClass = 'w-20 bg-[#0a0e14] border border-gray-800 rounded px-2 py-0.5 text-gray-300 text-right focus:outline-none focus:border-cyan-600';
+
+const NumberField: React.FC<{ label: string; value: number; step: number; onChange: (v: number) => void; title?: string }> = ({ label, value, step, onChange, title }) => (
+  <label className="flex items-center justify-between gap-3" title={title}>
+    <span className="normal-case tracking-normal text-gray-500 truncate">{label}</span>
+    <input type="number" step={step} value={Number.isFinite(value) ? value : ''} onChange={(e) => onChange(e.target.value === '' ? NaN : Number(e.target.value))} className={inputClass} />
+  </label>
+);
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="flex flex-col gap-1.5 bg-[#0a0e14]/60 border border-gray-800 rounded-lg p-3">
+    <span className="text-cyan-400/70 font-black">{title}</span>
+    {children}
+  </div>
+);
+
+/**
+ * Edits the engine config of the running monitor. Changes are staged in a
+ * draft and only reach the engines on Apply (or Save, which applies the
+ * saved version); every trace after that is stamped with the new config.
+ */
+export const EngineSettings: React.FC<EngineSettingsProps> = ({ config, onApply, onClose }) => {
+  const [draft, setDraft]       = useState<EngineConfig>(config);
+  const [presets, setPresets]   = useState<EnginePreset[]>(listPresets);
+  const [saveName, setSaveName] = useState(config.name);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const problems   = validateEngineConfig(draft);
+  const draftPrint = configFingerprint(draft);
+  const dirty      = draftPrint !== configFingerprint(config) || draft.name !== config.name || draft.version !== config.version;
+
+  const set = (patch: Partial<EngineConfig>) => setDraft(d => ({ ...d, ...patch }));
+  const setSignal = (field: 'weights' | 'triggers', signal: string, v: number) =>
+    setDraft(d => ({ ...d, [field]: { ...d[field], [signal]: v } }));
+  const setBuffer = (key: keyof EngineBuffers, v: number) =>
+    setDraft(d => ({ ...d, buffers: { ...d.buffers, [key]: v } }));
+  const setShock = (i: number, v: number) =>
+    setDraft(d => ({ ...d, shock_table: d.shock_table.map((x, j) => j === i ? v : x) }));
+  const setBoundary = (i: number, v: number) =>
+    setDraft(d => ({ ...d, level_boundaries: d.level_boundaries.map((x, j) => j === i ? v : x) as EngineConfig['level_boundaries'] }));
+
+  const loadDraft = (next: EngineConfig) => {
+    setDraft(next);
+    setSaveName(next.name);
+    setFileError(null);
+  };
+
+  const save = () => {
+    const saved = savePreset(draft, saveName.trim());
+    setPresets(listPresets());
+    loadDraft(saved);
+    onApply(saved);
+  };
+
+  const remove = (p: EngineConfig) => {
+    deletePreset(p.name, p.version);
+    setPresets(listPresets());
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      loadDraft(parseEngineConfig(await file.text()));
+    } catch (err) {
+      setFileError(`${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const selectedPreset = presets.find(p => p.config.name === draft.name && p.config.version === draft.version);
+
+  return (
+    <div className="bg-[#151a23] border border-gray-800 rounded-xl px-6 py-3 flex flex-col gap-3 font-mono text-[10px] uppercase tracking-widest text-gray-500">
+      <div className="flex items-center gap-3 flex-wrap">
+        <span className="text-cyan-400 font-black">Engine config</span>
+        <span title={`Applied fingerprint ${configFingerprint(config)}`}>Running <span className="text-gray-300 normal-case">{config.name} v{config.version}</span></span>
+        <select
+          value={selectedPreset ? `${selectedPreset.config.name}\u0000${selectedPreset.config.version}` : ''}
+          onChange={(e) => {
+            if (e.target.value === 'DEFAULT') { loadDraft(DEFAULT_ENGINE_CONFIG); return; }
+            const p = presets.find(x => `${x.config.name}\u0000${x.config.version}` === e.target.value);
+            if (p) loadDraft(p.config);
+          }}
+          className="bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 focus:outline-none focus:border-cyan-600 normal-case">
+          <option value="" disabled>Load preset...</option>
+          <option value="DEFAULT">Default (built in)</option>
+          {presets.map(p => (
+            <option key={`${p.config.name}-${p.config.version}`} value={`${p.config.name}\u0000${p.config.version}`}>
+              {p.config.name} · v{p.config.version} · {new Date(p.saved_at).toLocaleString()}
+            </option>
+          ))}
+        </select>
+        {selectedPreset && (
+          <button onClick={() => remove(selectedPreset.config)} className="px-2 py-1 rounded border border-gray-700 text-gray-400 hover:border-red-600 hover:text-red-400 transition-colors">Delete v{selectedPreset.config.version}</button>
+        )}
+        <label className="px-2 py-1 rounded border border-gray-700 text-gray-400 cursor-pointer hover:border-cyan-600 hover:text-cyan-400 transition-colors" title="Engine config JSON — e.g. exported by the parameter sweep">
+          Import
+          <input type="file" accept=".json,application/json" className="hidden"
+            onChange={(e) => { const file = e.target.files?.[0]; if (file) importFile(file); e.target.value = ''; }} />
+        </label>
+        <button onClick={() => downloadEngineConfig(draft)} disabled={problems.length > 0} className="px-2 py-1 rounded border border-gray-700 text-gray-400 hover:border-cyan-600 hover:text-cyan-400 disabled:opacity-40 transition-colors">Export</button>
+        <button onClick={onClose} className="ml-auto px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-gray-200 transition-colors">Close</button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-3">
+        <Section title="Weights">
+          {SIGNAL_REGISTRY.map(p => <NumberField key={p.id} label={p.label} title={p.id} value={draft.weights[p.id]} step={0.05} onChange={v => setSignal('weights', p.id, v)} />)}
+        </Section>
+        <Section title="Trigger > value">
+          {SIGNAL_REGISTRY.map(p => <NumberField key={p.id} label={p.label} title={p.id} value={draft.triggers[p.id]} step={1} onChange={v => setSignal('triggers', p.id, v)} />)}
+        </Section>
+        <Section title="Shock table">
+          {draft.shock_table.map((v, i) => (
+            <NumberField key={i} label={`${i}${i === draft.shock_table.length - 1 ? '+' : ''} signal${i === 1 ? '' : 's'}`} value={v} step={0.05} onChange={x => setShock(i, x)} />
+          ))}
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => set({ shock_table: draft.shock_table.slice(0, -1) })} disabled={draft.shock_table.length <= 1} className="px-2 rounded border border-gray-700 text-gray-400 disabled:opacity-40">−</button>
+            <button onClick={() => set({ shock_table: [...draft.shock_table, draft.shock_table[draft.shock_table.length - 1] ?? 1] })} className="px-2 rounded border border-gray-700 text-gray-400">+</button>
+          </div>
+        </Section>
+        <Section title="Smoothing">
+          <NumberField label="Stress α up"   value={draft.stress_alpha_up}   step={0.01} onChange={v => set({ stress_alpha_up: v })} />
+          <NumberField label="Stress α down" value={draft.stress_alpha_down} step={0.01} onChange={v => set({ stress_alpha_down: v })} />
+          <NumberField label="Flow α up"     value={draft.flow_alpha_up}     step={0.01} onChange={v => set({ flow_alpha_up: v })} />
+          <NumberField label="Flow α down"   value={draft.flow_alpha_down}   step={0.01} onChange={v => set({ flow_alpha_down: v })} />
+        </Section>
+        <Section title="Levels & cooldowns">
+          {LEVEL_NAMES.map((name, i) => (
+            <NumberField key={name} label={`${name} from`} value={draft.level_boundaries[i]} step={1} onChange={v => setBoundary(i, v)}
+              title={name === 'Unstable' ? 'Crossing above this fires a critical event' : undefined} />
+          ))}
+          <NumberField label="Event cooldown ms" value={draft.event_cooldown_ms} step={1000} onChange={v => set({ event_cooldown_ms: v })} title="Minimum gap between escalation events" />
+          <NumberField label="Flow reset gap ms" value={draft.flow_reset_gap_ms} step={500} onChange={v => set({ flow_reset_gap_ms: v })} title="A tick gap longer than this resets the Flow EMA" />
+        </Section>
+        <Section title="Buffers (samples)">
+          {(Object.keys(BUFFER_LABELS) as (keyof EngineBuffers)[]).map(key => (
+            <NumberField key={key} label={BUFFER_LABELS[key]} value={draft.buffers[key]} step={10} onChange={v => setBuffer(key, v)} />
+          ))}
+        </Section>
+      </div>
+
+      {fileError && <span className="text-red-400 normal-case tracking-normal">{fileError}</span>}
+      {problems.length > 0 && (
+        <ul className="text-red-400 normal-case tracking-normal list-disc pl-4">
+          {problems.map(p => <li key={p}>{p}</li>)}
+        </ul>
+      )}
+
+      <div className="flex items-center gap-3">
+        <span className="normal-case tracking-normal">
+          Draft <span className="text-gray-300">{draft.name} v{draft.version}</span> <span className="text-gray-600">#{draftPrint}</span>
+          {dirty && <span className="text-amber-400"> · not applied</span>}
+        </span>
+        <button onClick={() => loadDraft(config)} disabled={!dirty} className="ml-auto px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-gray-200 disabled:opacity-40 transition-colors">Revert</button>
+        <button onClick={() => onApply(draft)} disabled={!dirty || problems.length > 0} className="px-3 py-1 rounded border border-cyan-700 text-cyan-400 font-black hover:bg-cyan-500/10 disabled:opacity-40 transition-colors">Apply</button>
+        <input value={saveName} onChange={(e) => setSaveName(e.target.value)} placeholder="Preset name" className="w-44 bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 normal-case focus:outline-none focus:border-cyan-600" />
+        <button onClick={save} disabled={!saveName.trim() || problems.length > 0} title="Save as the next version of this preset and apply it" className="px-3 py-1 rounded bg-cyan-700 hover:bg-cyan-600 text-white font-black disabled:opacity-40 transition-colors">Save & apply</button>
+      </div>
+    </div>
+  );
+};
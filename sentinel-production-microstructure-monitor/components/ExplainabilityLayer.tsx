@@ -1,5 +1,6 @@
 import React from 'react';
 import { DecisionTrace, StressScore, SignalOutput, StressLevel, ConfidenceLevel } from '../types';
+import { getSignalPlugin } from '../services/SignalRegistry';
 
 interface ExplainabilityLayerProps {
   trace: DecisionTrace | null;
@@ -17,13 +18,7 @@ export const ExplainabilityLayer: React.FC<ExplainabilityLayerProps> = ({ trace,
     );
   }
 
-  const getSignalShort = (name: string) => {
-    if (name.includes('Liquidity')) return 'LIQ';
-    if (name.includes('Flow')) return 'FLOW';
-    if (name.includes('Volatility')) return 'VOL';
-    if (name.includes('Forced')) return 'SELL';
-    return 'UNK';
-  };
+  const getSignalShort = (name: string) => getSignalPlugin(name)?.short ?? 'UNK';
 
   const getLevelColor = (level: StressLevel) => {
     switch (level) {
@@ -47,13 +42,18 @@ export const ExplainabilityLayer: React.FC<ExplainabilityLayerProps> = ({ trace,
   const derivedSmoothed = trace.smoothing_alpha * trace.pre_smooth_score +
                           (1 - trace.smoothing_alpha) * trace.previous_score;
   const derivedFinal = Math.round(derivedSmoothed);
+  // The engine picks the fast-attack alpha whenever the target is above the
+  // previous score — compare those, not the alpha, which the config can change
+  const fastAttack = trace.pre_smooth_score > trace.previous_score;
 
   // FIX [A]: Also verify shock multiplier matches the SHOCK_TABLE.
   // OLD: ExplainabilityLayer showed "1+(N×0.08)" but engine uses SHOCK_TABLE.
   // This caused the displayed formula to differ from the actual computation.
-  // Now we verify the recorded multiplier against the true table and flag mismatches.
-  const SHOCK_TABLE_CLIENT: readonly number[] = [1.00, 1.00, 1.15, 1.35, 1.60];
-  const expectedShock = SHOCK_TABLE_CLIENT[trace.signals_aligned] ?? 1.00;
+  // Now we verify the recorded multiplier against the table the trace's
+  // engine config carried, and flag mismatches.
+  // Beyond the table's length the last entry is the cap.
+  const shockIndex    = Math.min(trace.signals_aligned, trace.shock_table.length - 1);
+  const expectedShock = trace.shock_table[shockIndex] ?? 1.00;
   // Allow ±0.001 tolerance for floating-point rounding
   const shockVerified = Math.abs(trace.shock_multiplier - expectedShock) < 0.001;
   const verified = derivedFinal === trace.final_score && shockVerified;
@@ -76,6 +76,10 @@ export const ExplainabilityLayer: React.FC<ExplainabilityLayerProps> = ({ trace,
           <h2 className="text-[10px] font-black text-cyan-400 uppercase tracking-[0.3em] font-mono">Score Computation Trace</h2>
         </div>
         <div className="flex items-center gap-6 font-mono text-[10px]">
+          <span className="text-gray-600 uppercase" title={`Engine config fingerprint ${trace.engine_config.fingerprint}`}>
+            Config <span className="text-gray-400 normal-case">{trace.engine_config.name} v{trace.engine_config.version}</span>
+            <span className="text-gray-700 ml-1">#{trace.engine_config.fingerprint}</span>
+          </span>
           <span className="text-gray-600 uppercase">
             Prev <span className="text-gray-400">{trace.previous_score.toFixed(1)}</span>
             <span className="text-gray-700 mx-2">→</span>
@@ -162,7 +166,7 @@ export const ExplainabilityLayer: React.FC<ExplainabilityLayerProps> = ({ trace,
                 {trace.shock_multiplier.toFixed(2)}×
               </span>
               <span className="text-[7px] text-gray-600 uppercase mt-1">
-                TABLE[{trace.signals_aligned}]
+                TABLE[{shockIndex}]
               </span>
             </div>
 
@@ -187,13 +191,13 @@ export const ExplainabilityLayer: React.FC<ExplainabilityLayerProps> = ({ trace,
             <span className="text-gray-700 text-[10px]">→</span>
 
             {/* Alpha */}
-            <div className={`flex-1 min-w-[82px] border rounded p-2.5 flex flex-col items-center ${trace.smoothing_alpha === 0.35 ? 'bg-red-500/10 border-red-500/30' : 'bg-emerald-500/10 border-emerald-500/30'}`}>
+            <div className={`flex-1 min-w-[82px] border rounded p-2.5 flex flex-col items-center ${fastAttack ? 'bg-red-500/10 border-red-500/30' : 'bg-emerald-500/10 border-emerald-500/30'}`}>
               <span className="text-[7px] text-gray-500 uppercase mb-1">Alpha α</span>
-              <span className={`text-base font-black font-mono ${trace.smoothing_alpha === 0.35 ? 'text-red-400' : 'text-emerald-400'}`}>
+              <span className={`text-base font-black font-mono ${fastAttack ? 'text-red-400' : 'text-emerald-400'}`}>
                 {trace.smoothing_alpha}
               </span>
               <span className="text-[7px] text-gray-600 uppercase mt-1">
-                {trace.smoothing_alpha === 0.35 ? 'Fast-Attack' : 'Slow-Decay'}
+                {fastAttack ? 'Fast-Attack' : 'Slow-Decay'}
               </span>
             </div>
 
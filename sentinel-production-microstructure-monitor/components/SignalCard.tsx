@@ -45,6 +45,15 @@ export const SignalCard: React.FC<SignalCardProps> = ({ signal }) => {
         </div>
       </div>
 
+      {signal.detail && (
+        <div className="flex items-center justify-between mb-4 px-2 py-1.5 rounded bg-gray-900/60 border border-gray-800">
+          <span className="text-[10px] text-gray-500 uppercase tracking-wider">{signal.detail.label}</span>
+          <span className={`${TYPOGRAPHY.number} text-sm`} style={{ color: severityColor }}>
+            {signal.detail.value}
+          </span>
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-y-2 mb-4">
         {Object.entries(signal.raw_metrics).map(([key, value]) => (
           <div key={key} className="flex flex-col">
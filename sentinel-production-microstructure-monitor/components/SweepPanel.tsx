@@ -0,0 +1,163 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { HistoricalDataLoader } from '../services/HistoricalDataLoader';
+import { DepthModel } from '../services/DepthModel';
+import { SCENARIOS } from '../services/ScenarioCatalogue';
+import { scenarioTicks } from '../services/Backtest';
+import { EngineConfig, downloadEngineConfig } from '../services/EngineConfig';
+import {
+  SWEEP_PARAMETERS, SWEEP_OBJECTIVES, DEFAULT_SWEPT_PARAMETERS,
+  SearchMode, SweepDataset, SweepTrial, checkSweepable, runSweep, sweepCandidates
+} from '../services/ParameterSweep';
+
+interface SweepPanelProps {
+  depthModel:   DepthModel;
+  // The sweep starts from, and is compared against, the running config
+  engineConfig: EngineConfig;
+  onClose:      () => void;
+}
+
+// Trials shown in the ranking; the rest are scored but not listed
+const SHOWN_TRIALS = 10;
+
+const formatLead = (ms: number | null) => ms === null ? '—' : `${ms >= 0 ? '+' : '−'}${Math.round(Math.abs(ms) / 60_000)}m`;
+const formatParam = (v: number) => Number(v.toFixed(3)).toString();
+
+/**
+ * Searches the engine's weights, triggers, shock table, EMA alphas and event
+ * threshold for the config that best meets an objective across every
+ * catalogue scenario, and exports the winner as an engine config file.
+ */
+export const SweepPanel: React.FC<SweepPanelProps> = ({ depthModel, engineConfig, onClose }) => {
+  // Its own loader, like BacktestPanel: loading repoints a loader's range
+  const loader = useMemo(() => new HistoricalDataLoader(), []);
+  const [enabled, setEnabled]       = useState<string[]>(DEFAULT_SWEPT_PARAMETERS);
+  const [objectiveId, setObjective] = useState(SWEEP_OBJECTIVES[0].id);
+  const [mode, setMode]             = useState<SearchMode>('RANDOM');
+  const [limit, setLimit]           = useState(60);
+  const [status, setStatus]         = useState<string | null>(null);
+  const [error, setError]           = useState<string | null>(null);
+  const [trials, setTrials]         = useState<SweepTrial[]>([]);
+  const stopRef = useRef(false);
+
+  const objective = SWEEP_OBJECTIVES.find(o => o.id === objectiveId) ?? SWEEP_OBJECTIVES[0];
+  const params    = SWEEP_PARAMETERS.filter(p => enabled.includes(p.id));
+
+  const toggle = (id: string) => setEnabled(prev => prev.includes(id) ? prev.filter(p => p !== id) : [...prev, id]);
+
+  const run = async () => {
+    setError(null);
+    setTrials([]);
+    stopRef.current = false;
+
+    let candidates: EngineConfig[];
+    try {
+      candidates = sweepCandidates(engineConfig, params, mode, limit);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return;
+    }
+
+    loader.setDepthModel(depthModel);
+    const datasets: SweepDataset[] = [];
+    const failed: string[] = [];
+    for (const scenario of SCENARIOS) {
+      if (stopRef.current) break;
+      setStatus(`Loading ${scenario.name}...`);
+      try {
+        datasets.push({ scenario, ticks: await scenarioTicks(loader, scenario) });
+      } catch (err) {
+        console.error(`[Sweep] ${scenario.name} failed to load:`, err);
+        failed.push(scenario.name);
+      }
+    }
+    if (failed.length > 0) setError(`Swept without ${failed.join(', ')} — could not load.`);
+    if (datasets.length === 0 || stopRef.current) {
+      setStatus(null);
+      return;
+    }
+    try {
+      checkSweepable(params, datasets, engineConfig);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setStatus(null);
+      return;
+    }
+
+    const ranked = await runSweep(datasets, candidates, objective, (done, total, best) => {
+      setStatus(`Trial ${done}/${total} · best ${best ? best.objective.toFixed(1) : '—'}`);
+    }, () => stopRef.current);
+
+    // Exported configs carry the objective they won on
+    const stamp = new Date().toISOString().slice(0, 10);
+    setTrials(ranked.map((t, i) => t.baseline ? t : { ...t, config: { ...t.config, name: `Sweep ${stamp} · ${objective.name} #${i + 1}`, version: 1 } }));
+    setStatus(null);
+  };
+
+  const baseline = trials.find(t => t.baseline);
+
+  return (
+    <div className="bg-[#151a23] border border-gray-800 rounded-xl px-6 py-3 flex flex-col gap-3 font-mono text-[10px] uppercase tracking-widest text-gray-500">
+      <div className="flex items-center gap-4">
+        <span className="text-amber-500 font-black">Parameter sweep</span>
+        <span>{SCENARIOS.length} scenarios · {depthModel.name} depth · from <span className="normal-case">{engineConfig.name} v{engineConfig.version}</span></span>
+        <select value={objectiveId} onChange={(e) => setObjective(e.target.value)} title={objective.description} className="bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 focus:outline-none focus:border-amber-600 normal-case">
+          {SWEEP_OBJECTIVES.map(o => <option key={o.id} value={o.id}>{o.name}</option>)}
+        </select>
+        <select value={mode} onChange={(e) => setMode(e.target.value as SearchMode)} className="bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 focus:outline-none focus:border-amber-600">
+          <option value="RANDOM">Random</option>
+          <option value="GRID">Grid</option>
+        </select>
+        <label className="flex items-center gap-2">
+          {mode === 'GRID' ? 'Max points' : 'Trials'}
+          <input type="number" min={1} max={5000} value={limit} onChange={(e) => setLimit(Math.max(1, Number(e.target.value) || 1))} className="w-20 bg-[#0a0e14] border border-gray-800 rounded px-2 py-1 text-gray-300 focus:outline-none focus:border-amber-600" />
+        </label>
+        {status && <span className="text-amber-400 animate-pulse normal-case">{status}</span>}
+        {status
+          ? <button onClick={() => { stopRef.current = true; }} className="ml-auto px-2 py-1 rounded border border-red-800 text-red-400 hover:bg-red-500/10 transition-colors">Stop</button>
+          : <button onClick={run} disabled={params.length === 0} className="ml-auto px-2 py-1 rounded border border-amber-700 text-amber-400 hover:bg-amber-500/10 disabled:opacity-40 transition-colors">Run</button>}
+        <button onClick={onClose} className="px-2 py-1 rounded border border-gray-700 text-gray-400 hover:text-gray-200 transition-colors">Close</button>
+      </div>
+
+      <span className="normal-case tracking-normal text-gray-600">Objective: {objective.description}. Scored with the labeled episodes of the backtest.</span>
+
+      <div className="flex flex-wrap gap-1.5">
+        {SWEEP_PARAMETERS.map(p => (
+          <button key={p.id} onClick={() => toggle(p.id)} title={`${formatParam(p.min)} – ${formatParam(p.max)}, step ${formatParam(p.step)} · default ${formatParam(p.get(engineConfig))}`}
+            className={`px-2 py-0.5 rounded border transition-colors ${enabled.includes(p.id) ? 'border-amber-600 text-amber-400 bg-amber-500/10' : 'border-gray-800 text-gray-600 hover:border-gray-600'}`}>
+            {p.label}
+          </button>
+        ))}
+      </div>
+
+      {error && <span className="text-red-400 normal-case tracking-normal">{error}</span>}
+
+      {trials.length > 0 && (
+        <div className="flex flex-col gap-1 overflow-x-auto custom-scrollbar">
+          <div className="flex items-center gap-3 px-2 text-gray-600">
+            <span className="w-8">#</span>
+            <span className="w-16 text-right">Objective</span>
+            <span className="w-16 text-right">Hit rate</span>
+            <span className="w-16 text-right">FA/day</span>
+            <span className="w-16 text-right">Lead</span>
+            {params.map(p => <span key={p.id} className="w-20 text-right normal-case truncate" title={p.label}>{p.label}</span>)}
+          </div>
+          {[...trials.slice(0, SHOWN_TRIALS), ...(baseline && trials.indexOf(baseline) >= SHOWN_TRIALS ? [baseline] : [])].map(t => (
+            <div key={trials.indexOf(t)} className={`flex items-center gap-3 px-2 py-1 rounded border ${t.baseline ? 'border-cyan-900 bg-cyan-500/5' : 'border-gray-800 bg-[#0a0e14]'}`}>
+              <span className="w-8 text-gray-400">{t.baseline ? 'Base' : trials.indexOf(t) + 1}</span>
+              <span className="w-16 text-right text-gray-200 font-bold">{t.objective.toFixed(1)}</span>
+              <span className="w-16 text-right">{Math.round(t.score.hit_rate * 100)}%</span>
+              <span className="w-16 text-right">{t.score.false_alarms_per_day.toFixed(1)}</span>
+              <span className="w-16 text-right">{formatLead(t.score.mean_lead_ms)}</span>
+              {params.map(p => {
+                const value   = p.get(t.config);
+                const changed = Math.abs(value - p.get(engineConfig)) > 1e-9;
+                return <span key={p.id} className={`w-20 text-right ${changed ? 'text-amber-400' : 'text-gray-500'}`}>{formatParam(value)}</span>;
+              })}
+              <button onClick={() => downloadEngineConfig(t.config)} className="ml-auto px-2 py-0.5 rounded border border-gray-700 text-gray-400 hover:border-amber-600 hover:text-amber-400 transition-colors">Export</button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
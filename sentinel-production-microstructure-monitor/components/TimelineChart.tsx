@@ -21,7 +21,7 @@ import { THEME, TYPOGRAPHY } from '../constants';
 // ─────────────────────────────────────────────────────────────────────────────
 interface ChartBoundaryState { crashed: boolean; }
 
-class ChartErrorBoundary extends React.Component<
+export class ChartErrorBoundary extends React.Component<
   { children: React.ReactNode },
   ChartBoundaryState
 > {
@@ -1,6 +1,6 @@
 
 import React from 'react';
-import { StressLevel } from './types';
+import { StressLevel, SymbolConfig } from './types';
 
 export const THEME = {
   bg: {
@@ -42,5 +42,19 @@ export const FORMATTERS = {
   currency: (val: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' }).format(val),
   number: (val: number) => new Intl.NumberFormat('en-US', { maximumFractionDigits: 2 }).format(val),
   bps: (val: number) => `${val.toFixed(2)} bps`,
-  depth: (val: number) => `${val.toFixed(2)} BTC`,
+  depth: (val: number, unit = 'BTC') => `${val.toFixed(2)} ${unit}`,
 };
+
+// Instruments the live feed monitors. The first entry is the default dashboard.
+// min_block_qty ≈ $45k notional at recent prices — the same size 0.5 BTC
+// represented when the large-trade floor was first calibrated.
+export const SYMBOLS: SymbolConfig[] = [
+  { symbol: 'BTCUSDT',  base: 'BTC',  quote: 'USDT', min_block_qty: 0.5 },
+  { symbol: 'ETHUSDT',  base: 'ETH',  quote: 'USDT', min_block_qty: 12 },
+  { symbol: 'SOLUSDT',  base: 'SOL',  quote: 'USDT', min_block_qty: 250 },
+  { symbol: 'BNBUSDT',  base: 'BNB',  quote: 'USDT', min_block_qty: 70 },
+  { symbol: 'XRPUSDT',  base: 'XRP',  quote: 'USDT', min_block_qty: 20_000 },
+  { symbol: 'DOGEUSDT', base: 'DOGE', quote: 'USDT', min_block_qty: 200_000 },
+];
+
+export const DEFAULT_SYMBOL = SYMBOLS[0];
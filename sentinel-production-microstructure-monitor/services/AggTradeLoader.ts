@@ -0,0 +1,255 @@
+import { ImportRowError, NormalizedMarketTick, SymbolConfig, Trade, Venue } from '../types';
+import { DEFAULT_SYMBOL, SYMBOLS } from '../constants';
+import { MAX_REPORTED_ROW_ERRORS } from './HistoricalDataLoader';
+import { DepthModel, HEURISTIC_DEPTH_MODEL } from './DepthModel';
+import { logInfo } from './Log';
+
+// Same cadence as the live adapters' emit loop
+const TICK_MS = 100;
+// Two hours of 100ms ticks is 72k ticks — under the session recorder's
+// in-memory ceiling, and a crash window's worth of trades fetches in minutes.
+export const MAX_TRADE_REPLAY_MS = 2 * 3_600_000;
+// Guard for archive files and unusually busy windows
+const MAX_AGG_TRADES = 3_000_000;
+const AGG_TRADES_PAGE_LIMIT = 1000;
+// The REST endpoint rejects startTime/endTime pairs more than an hour apart
+const AGG_TRADES_MAX_WINDOW_MS = 3_600_000;
+// Trailing window the synthetic book is estimated from
+const BOOK_WINDOW_MS = 60_000;
+// Matches BaseFeedAdapter's rolling large-trade percentile window
+const TRADE_SIZE_WINDOW = 200;
+
+export interface TradeReplay {
+  symbol:      string;
+  source:      'REST' | 'ARCHIVE';
+  ticks:       NormalizedMarketTick[];
+  trade_count: number;
+  // Archive rows that did not parse — reported, not fatal
+  skipped:     number;
+  errors:      ImportRowError[];
+}
+
+const configFor = (symbol: string): SymbolConfig =>
+  SYMBOLS.find(s => s.symbol === symbol) ?? { ...DEFAULT_SYMBOL, symbol };
+
+/**
+ * Tick-level replay from Binance aggregate trades.
+ *
+ * Trades are bucketed into 100ms ticks with their real sizes and aggressor
+ * sides, and large_trades uses the live p90-of-200 rule, so Flow and Forced
+ * Selling see what they would have seen live. aggTrades carry no book: depth
+ * and spread are still synthesised, from the trailing minute of trades, by
+ * the same DepthModel kline replay uses.
+ */
+export class AggTradeLoader {
+  private depthModel: DepthModel = HEURISTIC_DEPTH_MODEL;
+
+  setDepthModel(model: DepthModel): void { this.depthModel = model; }
+
+  async fetch(
+    symbol: string,
+    startTime: number,
+    endTime: number,
+    onProgress?: (tradeCount: number) => void
+  ): Promise<TradeReplay> {
+    this.validateWindow(startTime, endTime);
+    logInfo(`[AggTrades] Fetching ${symbol} aggTrades from Binance...`);
+
+    const trades: Trade[] = [];
+    let fromId: number | null = null;
+    let windowStart = startTime;
+
+    // Locate the first trade by time (an hour at a time), then walk forward by id
+    while (true) {
+      const query = fromId === null
+        ? `startTime=${windowStart}&endTime=${Math.min(windowStart + AGG_TRADES_MAX_WINDOW_MS - 1, endTime)}`
+        : `fromId=${fromId}`;
+      const response = await fetch(
+        `https://api.binance.com/api/v3/aggTrades?symbol=${symbol}&${query}&limit=${AGG_TRADES_PAGE_LIMIT}`
+      );
+      if (!response.ok) throw new Error(`Failed to fetch aggTrades (${response.status})`);
+      const data: any[] = await response.json();
+
+      if (data.length === 0) {
+        if (fromId !== null) break;
+        windowStart += AGG_TRADES_MAX_WINDOW_MS;
+        if (windowStart > endTime) break;
+        continue;
+      }
+
+      let pastEnd = false;
+      for (const t of data) {
+        if (t.T > endTime) { pastEnd = true; break; }
+        trades.push({
+          id:        t.a,
+          price:     parseFloat(t.p),
+          quantity:  parseFloat(t.q),
+          timestamp: t.T,
+          // m = buyer is the maker, so the aggressor was the seller
+          side:      t.m ? 'sell' : 'buy'
+        });
+      }
+      if (trades.length > MAX_AGG_TRADES) {
+        throw new Error(`More than ${MAX_AGG_TRADES.toLocaleString()} trades in the window — choose a shorter range`);
+      }
+      onProgress?.(trades.length);
+      if (pastEnd) break;
+      fromId = data[data.length - 1].a + 1;
+    }
+    if (trades.length === 0) throw new Error(`No ${symbol} trades in the selected range`);
+
+    logInfo(`[AggTrades] Building ticks from ${trades.length} trades...`);
+    return { symbol, source: 'REST', ticks: this.buildTicks(trades, configFor(symbol)), trade_count: trades.length, skipped: 0, errors: [] };
+  }
+
+  /**
+   * Parses a Binance public-data aggTrades CSV (data.binance.vision, unzipped):
+   * agg_trade_id, price, quantity, first_trade_id, last_trade_id, transact_time,
+   * is_buyer_maker[, is_best_match]. Header row optional. The symbol is taken
+   * from the file name (BTCUSDT-aggTrades-2024-08-05.csv) when it has one.
+   * Only trades inside [startTime, endTime] are replayed.
+   */
+  loadArchive(fileName: string, text: string, fallbackSymbol: string, startTime: number, endTime: number): TradeReplay {
+    this.validateWindow(startTime, endTime);
+    const symbol = /^([A-Z0-9]+)-aggTrades-/.exec(fileName)?.[1] ?? fallbackSymbol;
+
+    const trades: Trade[] = [];
+    const errors: ImportRowError[] = [];
+    let skipped   = 0;
+    let firstTs   = Infinity;
+    let lastTs    = -Infinity;
+    const lines = text.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+      const row = lines[i].trim();
+      if (row.length === 0 || row.startsWith('agg_trade_id')) continue;
+      const cols      = row.split(',');
+      const price     = parseFloat(cols[1]);
+      const quantity  = parseFloat(cols[2]);
+      let timestamp   = Number(cols[5]);
+      const maker     = cols[6]?.trim().toLowerCase();
+      const problem = cols.length < 7                          ? `expected at least 7 columns, found ${cols.length}`
+                    : !(price > 0) || !(quantity > 0)           ? 'price and quantity must be positive numbers'
+                    : !isFinite(timestamp)                      ? `transact_time "${cols[5]}" is not a number`
+                    : maker !== 'true' && maker !== 'false'     ? `is_buyer_maker "${cols[6]}" is not true/false`
+                    : null;
+      if (problem) {
+        skipped++;
+        if (errors.length < MAX_REPORTED_ROW_ERRORS) errors.push({ line: i + 1, reason: problem });
+        continue;
+      }
+      // Spot archives switched to microsecond timestamps in 2025
+      if (timestamp > 1e14) timestamp = Math.floor(timestamp / 1000);
+      firstTs = Math.min(firstTs, timestamp);
+      lastTs  = Math.max(lastTs, timestamp);
+      if (timestamp < startTime || timestamp > endTime) continue;
+      trades.push({ id: Number(cols[0]), price, quantity, timestamp, side: maker === 'true' ? 'sell' : 'buy' });
+      if (trades.length > MAX_AGG_TRADES) {
+        throw new Error(`More than ${MAX_AGG_TRADES.toLocaleString()} trades in the window — choose a shorter range`);
+      }
+    }
+    if (!isFinite(firstTs)) throw new Error('File contains no aggTrades rows.');
+    if (trades.length === 0) {
+      const fmt = (ms: number) => new Date(ms).toISOString().slice(0, 16).replace('T', ' ');
+      throw new Error(`No trades in the selected range — the file covers ${fmt(firstTs)} to ${fmt(lastTs)} UTC`);
+    }
+
+    trades.sort((a, b) => a.timestamp - b.timestamp || a.id - b.id);
+    logInfo(`[AggTrades] ${fileName}: ${trades.length} trades in range, ${skipped} rows skipped.`);
+    return { symbol, source: 'ARCHIVE', ticks: this.buildTicks(trades, configFor(symbol)), trade_count: trades.length, skipped, errors };
+  }
+
+  private validateWindow(startTime: number, endTime: number): void {
+    if (!(endTime > startTime)) throw new Error('End time must be after start time');
+    if (endTime - startTime > MAX_TRADE_REPLAY_MS) {
+      throw new Error(`Tick replay is limited to ${MAX_TRADE_REPLAY_MS / 3_600_000}h — choose a shorter range`);
+    }
+  }
+
+  // One tick per 100ms from the first trade to the last, empty buckets
+  // included — the live loop emits on a timer whether or not anything traded.
+  // Expects trades in time order.
+  private buildTicks(trades: Trade[], config: SymbolConfig): NormalizedMarketTick[] {
+    const ticks: NormalizedMarketTick[] = [];
+    const firstBucket = Math.floor(trades[0].timestamp / TICK_MS) * TICK_MS;
+
+    let next = 0;            // first trade not yet bucketed
+    let lo   = 0;            // first trade inside the trailing book window
+    let windowVolume = 0;
+    // Monotonic deques of trade indices for the window's high and low
+    const highs: number[] = []; let highHead = 0;
+    const lows:  number[] = []; let lowHead  = 0;
+    let sizeHistory: number[] = [];
+    let price = trades[0].price;
+
+    for (let bucket = firstBucket; next < trades.length; bucket += TICK_MS) {
+      const bucketEnd = bucket + TICK_MS;
+      const bucketTrades: Trade[] = [];
+      while (next < trades.length && trades[next].timestamp < bucketEnd) {
+        const t = trades[next];
+        bucketTrades.push(t);
+        windowVolume += t.quantity;
+        while (highs.length > highHead && trades[highs[highs.length - 1]].price <= t.price) highs.pop();
+        highs.push(next);
+        while (lows.length > lowHead && trades[lows[lows.length - 1]].price >= t.price) lows.pop();
+        lows.push(next);
+        price = t.price;
+        next++;
+      }
+      while (lo < next && trades[lo].timestamp < bucketEnd - BOOK_WINDOW_MS) {
+        windowVolume -= trades[lo].quantity;
+        lo++;
+      }
+      while (highHead < highs.length && highs[highHead] < lo) highHead++;
+      while (lowHead  < lows.length  && lows[lowHead]   < lo) lowHead++;
+
+      // Same p90-of-last-200 threshold BaseFeedAdapter applies live
+      let largeThreshold = config.min_block_qty;
+      if (bucketTrades.length > 0) {
+        sizeHistory = [...sizeHistory, ...bucketTrades.map(t => t.quantity)].slice(-TRADE_SIZE_WINDOW);
+        if (sizeHistory.length >= 10) {
+          const sorted = [...sizeHistory].sort((a, b) => a - b);
+          largeThreshold = Math.max(config.min_block_qty, sorted[Math.floor(sorted.length * 0.90)] ?? config.min_block_qty);
+        }
+      }
+
+      // Until a full minute has traded, estimate from the part that has
+      const minutes = Math.min(BOOK_WINDOW_MS, bucketEnd - firstBucket) / 60_000;
+      const open    = lo < next ? trades[lo].price : price;
+      const high    = highHead < highs.length ? trades[highs[highHead]].price : price;
+      const low     = lowHead  < lows.length  ? trades[lows[lowHead]].price   : price;
+      const volume  = Math.max(0, windowVolume);
+      const book    = this.depthModel.synthesize({ open, high, low, close: price, volume }, minutes);
+
+      const buys  = bucketTrades.filter(t => t.side === 'buy');
+      const sells = bucketTrades.filter(t => t.side === 'sell');
+      const exchangeTs = bucketTrades.length > 0 ? bucketTrades[bucketTrades.length - 1].timestamp : bucketEnd;
+      ticks.push({
+        symbol:               config.symbol,
+        venue:                Venue.BINANCE,
+        exchange_timestamp:   exchangeTs,
+        received_timestamp:   exchangeTs,
+        // Replay clock runs on recorded time, as with session recordings
+        processing_timestamp: bucketEnd,
+        price,
+        volume_24h:  (volume / minutes) * 1440,
+        bids:        book.bids,
+        asks:        book.asks,
+        trades: {
+          buy_volume:   buys.reduce((s, t) => s + t.quantity, 0),
+          sell_volume:  sells.reduce((s, t) => s + t.quantity, 0),
+          buy_count:    buys.length,
+          sell_count:   sells.length,
+          large_trades: bucketTrades.filter(t => t.quantity >= largeThreshold)
+        },
+        mid_price:    price,
+        spread:       book.spread,
+        spread_bps:   book.spread_bps,
+        total_depth:  book.total_depth,
+        is_valid:     true,
+        data_quality: 'GOOD',
+        synthesized:  { book: true, trade_counts: false }
+      });
+    }
+    return ticks;
+  }
+}
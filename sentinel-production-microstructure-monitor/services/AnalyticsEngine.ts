@@ -1,32 +1,19 @@
 import {
   NormalizedMarketTick, SignalOutput, StressLevel, ConfidenceLevel,
-  SignalType, StressScore, CausalSequence, CausalStep, Trade, CriticalEvent,
-  WeightContribution, DecisionTrace
+  StressScore, CausalSequence, CausalStep, CriticalEvent,
+  WeightContribution, DecisionTrace, SymbolConfig, EngineConfigStamp
 } from '../types';
-import { THEME } from '../constants';
-import { CircularBuffer } from './CircularBuffer';
-
-const safeNum = (val: number, fallback = 0): number =>
-  isFinite(val) && !isNaN(val) ? val : fallback;
-
-// ─── Named structural failure patterns (bitmask L|F|V|S) ─────────────────────
-const PATTERN_LABELS: Record<string, string> = {
-  '1000': 'LIQUIDITY DRAIN',
-  '0100': 'SELL PRESSURE',
-  '0010': 'INTRADAY VOLATILITY SPIKE',
-  '0001': 'INSTITUTIONAL EXIT',
-  '1100': 'LIQUIDITY VACUUM SELLOFF',
-  '1010': 'DEPTH COLLAPSE + VOLATILITY',
-  '1001': 'WHALE EXECUTION INTO THIN BOOK',
-  '0110': 'PANIC SELLING CASCADE',
-  '0101': 'COORDINATED INSTITUTIONAL EXIT',
-  '0011': 'FORCED LIQUIDATION SPIRAL',
-  '1110': 'MULTI-VECTOR BREAKDOWN',
-  '1101': 'STRUCTURAL MARKET FAILURE',
-  '1011': 'LIQUIDITY CRISIS',
-  '0111': 'CAPITULATION EVENT',
-  '1111': 'FULL MARKET BREAKDOWN — BLACK SWAN',
-};
+import { THEME, DEFAULT_SYMBOL } from '../constants';
+import { EngineConfig, DEFAULT_ENGINE_CONFIG, configFingerprint } from './EngineConfig';
+import { SignalPlugin, SignalContext, safeNum } from './SignalPlugin';
+import { SIGNAL_REGISTRY, patternLabel } from './SignalRegistry';
+
+// A registered signal with this engine's state and context for it
+interface SignalSlot {
+  plugin: SignalPlugin;
+  state:  unknown;
+  ctx:    SignalContext;
+}
 
 // ─── Shock multiplier (exponential convergence table) ────────────────────────
 // Proven by simulation: linear 1+N×0.08 was invisible at high raw scores.
@@ -34,58 +21,86 @@ const PATTERN_LABELS: Record<string, string> = {
 // 2 signals: 1.15× — two simultaneous structural anomalies is non-linear risk
 // 3 signals: 1.35× — systemic
 // 4 signals: 1.60× — black swan
-// These values are the ground truth displayed in ExplainabilityLayer.
-export const SHOCK_TABLE: readonly number[] = [1.00, 1.00, 1.15, 1.35, 1.60];
+// 5+ signals: held at 1.60× — the last entry is the cap
+// These values are the ground truth displayed in ExplainabilityLayer. An
+// EngineConfig may carry a different table; this is the default one.
+export const SHOCK_TABLE: readonly number[] = DEFAULT_ENGINE_CONFIG.shock_table;
 
 export class AnalyticsEngine {
-  // ─── Buffers ───────────────────────────────────────────────────────────────
-  // FIX [B]: liquidityBuffer expanded to 600 ticks (60 seconds at 100ms cadence).
-  // Baseline is now the 90th percentile of depth in this window.
-  // WHY: a 300-tick mean adapts fully within 30 seconds of sustained crisis,
-  // making the signal drop to zero while the market is still structurally broken.
-  // A 600-tick p90 anchor holds the pre-crisis reference for ~60 real seconds
-  // before the sustained thin book starts to lower the anchor.
-  // This is intentional: after 60 real seconds at new depth levels, the engine
-  // acknowledges it as a new regime rather than an ongoing anomaly.
-  private liquidityBuffer = new CircularBuffer<number>(600);
-  private priceBuffer     = new CircularBuffer<number>(300);
+  // Quantity thresholds were calibrated on BTC with a 0.5 BTC block floor.
+  // Signals keep them as multiples of min_block_qty so each symbol's engine
+  // scores the same notional activity the same way.
+  readonly config: SymbolConfig;
+  // Weights, thresholds, shock table, EMA alphas, level bounds, buffer
+  // lengths and cooldowns — see EngineConfig
+  private engineConfig: EngineConfig = DEFAULT_ENGINE_CONFIG;
+  private configStamp:  EngineConfigStamp;
+  // One per registered signal, in registry order. Each signal owns its
+  // buffers and EMAs; the engine only weights what they return.
+  private slots: SignalSlot[] = [];
+
+  constructor(config: SymbolConfig = DEFAULT_SYMBOL, engineConfig: EngineConfig = DEFAULT_ENGINE_CONFIG) {
+    this.config = config;
+    this.setEngineConfig(engineConfig);
+  }
+
+  getEngineConfig(): EngineConfig { return this.engineConfig; }
+
+  // Swaps config mid-stream. Signals resize their buffers in place, keeping
+  // their newest samples, so a running engine doesn't lose its baselines;
+  // the next tick is scored entirely under the new config.
+  setEngineConfig(engineConfig: EngineConfig): void {
+    this.engineConfig  = engineConfig;
+    this.configStamp   = { name: engineConfig.name, version: engineConfig.version, fingerprint: configFingerprint(engineConfig) };
+    this.weights       = { ...engineConfig.weights };
+    this.activeWeights = { ...this.weights };
+    const fresh = this.slots.length === 0;
+    this.slots = SIGNAL_REGISTRY.map((plugin, i) => {
+      const ctx: SignalContext = {
+        symbol:  this.config,
+        unit:    this.config.base,
+        config:  engineConfig,
+        trigger: engineConfig.triggers[plugin.id]
+      };
+      if (fresh) return { plugin, state: plugin.createState(ctx), ctx };
+      const slot = this.slots[i];
+      plugin.configure?.(slot.state, ctx);
+      return { ...slot, ctx };
+    });
+  }
 
   private previousStress          = 0;
   private previousLevel: StressLevel = StressLevel.STABLE;
   private previousSignalsAligned  = 0;
   private lastTrace: DecisionTrace | null = null;
 
-  // FIX [C]: Flow EMA over sell ratio (0.0–1.0), not the risk value.
-  // α_up=0.25 (fast attack), α_down=0.08 (slow decay).
-  // Eliminates the 0→80→0→60 flicker of the old tick-by-tick raw formula.
-  private flowRatioEMA = 0.50;
-
   // FIX [C]: Track last tick timestamp to detect stale engine state.
-  // If a new tick arrives after a >5s gap, reset flowRatioEMA to neutral
-  // to prevent ghost signals from pre-gap panic conditions.
+  // If a new tick arrives after a >5s gap, signals with onGap (Flow's sell
+  // EMA) reset to neutral to prevent ghost signals from pre-gap panic.
   private lastTickMs = 0;
 
   private lastEventExchangeTs    = 0;
-  private triggerOrder: { signal: SignalType, timestamp: number, initialValue: number }[] = [];
+  private triggerOrder: { signal: string, timestamp: number, initialValue: number }[] = [];
   private catalystTimestamp      = 0;
   private stressHistory: number[] = [];
 
-  readonly weights = {
-    [SignalType.LIQUIDITY]:      0.35,
-    [SignalType.FLOW]:           0.25,
-    [SignalType.VOLATILITY]:     0.25,
-    [SignalType.FORCED_SELLING]: 0.15
-  };
+  // Base weights, from the engine config. Venue Divergence only has an input
+  // on CONSOLIDATED ticks and Leverage only when the feed carries perpetual
+  // data, so weights are normalized over the signals that have inputs this
+  // tick: spot-only runs keep the configured ratios among the rest exactly.
+  private weights: Record<string, number>;
+
+  // Effective (normalized) weights for the current tick — set in processTick.
+  private activeWeights: Record<string, number>;
 
   reset(): void {
-    this.liquidityBuffer.clear();
-    this.priceBuffer.clear();
+    this.slots = this.slots.map(slot => ({ ...slot, state: slot.plugin.createState(slot.ctx) }));
+    this.activeWeights          = { ...this.weights };
     this.previousStress         = 0;
     this.previousLevel          = StressLevel.STABLE;
     this.previousSignalsAligned = 0;
     this.triggerOrder           = [];
     this.lastTrace              = null;
-    this.flowRatioEMA           = 0.50;
     this.lastTickMs             = 0;
     this.lastEventExchangeTs    = 0;
     this.catalystTimestamp      = 0;
@@ -95,28 +110,25 @@ export class AnalyticsEngine {
   getLastTrace(): DecisionTrace | null { return this.lastTrace; }
 
   processTick(tick: NormalizedMarketTick): {
-    signals:       Record<SignalType, SignalOutput>;
+    signals:       Record<string, SignalOutput>;
     stress:        StressScore;
     causal:        CausalSequence;
     criticalEvent: CriticalEvent | null;
     trace:         DecisionTrace;
   } {
     // FIX [C]: Detect engine staleness from data gap.
-    // If > 5 seconds elapsed since last tick (e.g. WebSocket reconnect),
-    // reset flowRatioEMA to neutral so pre-gap panic doesn't haunt the signal.
+    // If > flow_reset_gap_ms (5s default) elapsed since last tick (e.g. WebSocket
+    // reconnect), signals reset their short-memory state to neutral.
     // Use processing_timestamp (wall clock) not exchange_timestamp (may be historic).
     const nowMs = tick.processing_timestamp;
-    if (this.lastTickMs > 0 && (nowMs - this.lastTickMs) > 5_000) {
-      this.flowRatioEMA = 0.50; // ghost-kill: treat reconnect as fresh start
+    if (this.lastTickMs > 0 && (nowMs - this.lastTickMs) > this.engineConfig.flow_reset_gap_ms) {
+      this.slots.forEach(({ plugin, state }) => plugin.onGap?.(state)); // ghost-kill
     }
     this.lastTickMs = nowMs;
 
-    const signals = {
-      [SignalType.LIQUIDITY]:      this.processLiquidity(tick),
-      [SignalType.FLOW]:           this.processFlow(tick),
-      [SignalType.VOLATILITY]:     this.processVolatility(tick),
-      [SignalType.FORCED_SELLING]: this.processForcedSelling(tick),
-    };
+    const signals: Record<string, SignalOutput> = {};
+    this.slots.forEach(({ plugin, state, ctx }) => { signals[plugin.id] = plugin.process(tick, state, ctx); });
+    this.activeWeights = this.normalizeWeights(tick);
 
     const { stress, trace } = this.calculateStressWithTrace(signals, tick);
 
@@ -130,182 +142,52 @@ export class AnalyticsEngine {
     return { signals, stress, causal, criticalEvent, trace };
   }
 
-  // ── Signal processors ──────────────────────────────────────────────────────
-
-  private determineConfidence(value: number, high: number, med: number): ConfidenceLevel {
-    if (value >= high) return ConfidenceLevel.HIGH;
-    if (value >= med)  return ConfidenceLevel.MEDIUM;
-    return ConfidenceLevel.LOW;
-  }
-
-  // ── LIQUIDITY FRAGILITY (FIX [B]) ─────────────────────────────────────────
-  // OLD: 300-tick mean baseline. During prolonged crisis (>30s), baseline
-  // adapts fully to the new thin-book regime and signal drops to zero while
-  // the market is still broken.
-  //
-  // FIX: 600-tick p90 anchor baseline.
-  // - p90 of depth = "what the book normally looks like at its best 90% of time"
-  // - During sustained crisis: p90 stays at pre-crisis level until 60% of the
-  //   600-tick window is replaced by panic-level depth readings (~60 real seconds)
-  // - After 60 real seconds of sustained thin book: the engine acknowledges it
-  //   as a new regime, anchor gradually lowers — this is CORRECT behavior
-  // - Normal (non-panic) depth fluctuations do not move the p90 anchor
-  private processLiquidity(tick: NormalizedMarketTick): SignalOutput {
-    this.liquidityBuffer.push(safeNum(tick.total_depth, 0.1));
-    
-    // p90 anchor: the depth level at or above which the book sits 10% of the time.
-    // When depth collapses, this anchor holds the pre-crisis reference.
-    const anchor = safeNum(this.liquidityBuffer.percentile(0.90, tick.total_depth), 0.1);
-    if (anchor <= 0) return this.defaultSignal(SignalType.LIQUIDITY, tick.processing_timestamp);
-
-    const depthChange = safeNum(((tick.total_depth - anchor) / anchor) * 100, 0);
-    const risk = depthChange >= 0 ? 0 : Math.min(100, (-depthChange / 40) * 100);
-    const confidence = this.determineConfidence(this.liquidityBuffer.size(), 60, 20);
-
-    return {
-      name:        SignalType.LIQUIDITY,
-      value:       Math.round(risk),
-      severity:    this.getSeverity(risk),
-      triggered:   risk > 65,
-      raw_metrics: {
-        'Depth':    safeNum(tick.total_depth).toFixed(1),
-        'Anchor':   anchor.toFixed(1),
-        'Δ Anchor': `${safeNum(depthChange).toFixed(1)}%`
-      },
-      explanation: risk > 65
-        ? `Depth ${Math.abs(depthChange).toFixed(1)}% below 60s p90 anchor (${anchor.toFixed(1)} BTC) — structural thinning.`
-        : `Depth within p90 anchor range (${anchor.toFixed(1)} BTC).`,
-      confidence,
-      timestamp: tick.processing_timestamp,
-    };
-  }
-
-  // ── ORDER FLOW (FIX [C] partial) ──────────────────────────────────────────
-  // EMA of sell ratio. Gap detection handled in processTick before signals run.
-  private processFlow(tick: NormalizedMarketTick): SignalOutput {
-    const totalVol = safeNum(tick.trades.buy_volume + tick.trades.sell_volume, 0);
-    const rawRatio = totalVol > 0
-      ? safeNum(tick.trades.sell_volume / totalVol, 0.5)
-      : 0.5;
-
-    const alpha = rawRatio > this.flowRatioEMA ? 0.25 : 0.08;
-    this.flowRatioEMA = safeNum(
-      alpha * rawRatio + (1 - alpha) * this.flowRatioEMA, 0.5
-    );
-
-    const risk = safeNum(Math.max(0, (this.flowRatioEMA - 0.5) * 200), 0);
-    const confidence = totalVol > 0
-      ? this.determineConfidence(totalVol, 2.0, 0.5)
-      : ConfidenceLevel.LOW;
-
-    const sellPct    = (this.flowRatioEMA * 100).toFixed(1);
-    const imbalance  = safeNum(
-      this.flowRatioEMA / Math.max(1 - this.flowRatioEMA, 0.01), 1
-    ).toFixed(2);
-
-    return {
-      name:        SignalType.FLOW,
-      value:       Math.round(risk),
-      severity:    this.getSeverity(risk),
-      triggered:   risk > 65,
-      raw_metrics: { 'Sell EMA': `${sellPct}%`, 'Imbalance': imbalance },
-      explanation: risk > 65
-        ? `Sustained sell pressure: ${sellPct}% sell EMA (6+ ticks of 85%+ selling).`
-        : 'Order flow balanced — no directional selling pressure.',
-      confidence,
-      timestamp: tick.processing_timestamp,
-    };
-  }
-
-  // ── VOLATILITY (unchanged — math verified correct) ─────────────────────────
-  private processVolatility(tick: NormalizedMarketTick): SignalOutput {
-    this.priceBuffer.push(safeNum(tick.price, 1));
-    const prices = this.priceBuffer.getAll();
-    if (prices.length < 20) return this.defaultSignal(SignalType.VOLATILITY, tick.processing_timestamp);
-
-    const shortTerm = prices.slice(-10);
-    const getStd = (arr: number[]) => {
-      const mean = arr.reduce((a, b) => a + b) / arr.length;
-      return Math.sqrt(safeNum(arr.reduce((a, b) => a + (b - mean) ** 2, 0) / arr.length, 0));
-    };
-    const stdShort = safeNum(getStd(shortTerm), 0);
-    const stdLong  = safeNum(getStd(prices), 1) || 1;
-    const ratio    = safeNum(stdShort / stdLong, 1);
-    const risk     = safeNum(Math.min(100, Math.max(0, (ratio - 1) * 50)), 0);
-    const confidence = this.determineConfidence(prices.length, 50, 30);
-
-    return {
-      name:        SignalType.VOLATILITY,
-      value:       Math.round(risk),
-      severity:    this.getSeverity(risk),
-      triggered:   risk > 55,
-      raw_metrics: { 'Vol Ratio': ratio.toFixed(2), 'Price Std': stdShort.toFixed(2) },
-      explanation: risk > 55
-        ? `Intraday vol expansion: ${ratio.toFixed(2)}× regime baseline.`
-        : 'Price volatility within regime bounds.',
-      confidence,
-      timestamp: tick.processing_timestamp,
-    };
-  }
-
-  // ── FORCED SELLING ─────────────────────────────────────────────────────────
-  private processForcedSelling(tick: NormalizedMarketTick): SignalOutput {
-    const largeSells    = tick.trades.large_trades.filter(t => t.side === 'sell');
-    const totalLargeVol = safeNum(largeSells.reduce((s, t) => s + t.quantity, 0), 0);
-    const blockCount    = largeSells.length;
-    const risk          = safeNum(Math.min(100, (totalLargeVol / 15) * 100), 0);
-    const confidence    = this.determineConfidence(blockCount, 3, 1);
+  // ── Stress calculation ─────────────────────────────────────────────────────
 
-    return {
-      name:        SignalType.FORCED_SELLING,
-      value:       Math.round(risk),
-      severity:    this.getSeverity(risk),
-      triggered:   risk > 50,
-      raw_metrics: { 'Whale Vol': totalLargeVol.toFixed(2) + ' BTC', 'Blocks': blockCount },
-      explanation: risk > 50
-        ? `Block selling: ${totalLargeVol.toFixed(2)} BTC across ${blockCount} block${blockCount !== 1 ? 's' : ''}.`
-        : 'No significant block selling detected.',
-      confidence,
-      timestamp: tick.processing_timestamp,
-    };
+  private normalizeWeights(tick: NormalizedMarketTick): Record<string, number> {
+    const participating: Record<string, number> = {};
+    this.slots.forEach(({ plugin }) => {
+      participating[plugin.id] = plugin.hasInput && !plugin.hasInput(tick) ? 0 : this.weights[plugin.id] ?? 0;
+    });
+    const total = Object.values(participating).reduce((a, b) => a + b, 0) || 1;
+    Object.keys(participating).forEach(k => { participating[k] = participating[k] / total; });
+    return participating;
   }
 
-  // ── Stress calculation ─────────────────────────────────────────────────────
-
   private calculateStressWithTrace(
-    signals: Record<SignalType, SignalOutput>,
+    signals: Record<string, SignalOutput>,
     tick:    NormalizedMarketTick
   ): { stress: StressScore; trace: DecisionTrace } {
     const sigArray = Object.values(signals);
 
-    const rawStress = safeNum(
-      (signals[SignalType.LIQUIDITY].value      * this.weights[SignalType.LIQUIDITY])  +
-      (signals[SignalType.FLOW].value           * this.weights[SignalType.FLOW])       +
-      (signals[SignalType.VOLATILITY].value     * this.weights[SignalType.VOLATILITY]) +
-      (signals[SignalType.FORCED_SELLING].value * this.weights[SignalType.FORCED_SELLING]),
-      0
-    );
+    const w = this.activeWeights;
+    const rawStress = safeNum(sigArray.reduce((sum, s) => sum + s.value * w[s.name], 0), 0);
 
-    const activeSignals   = sigArray.filter(s => s.triggered).length;
-    const shockMultiplier = safeNum(SHOCK_TABLE[activeSignals] ?? 1.0, 1.0);
+    const shockTable      = this.engineConfig.shock_table;
+    // A zero-weight signal is shown but doesn't vote on convergence
+    const activeSignals   = sigArray.filter(s => s.triggered && w[s.name] > 0).length;
+    const shockIndex      = Math.min(activeSignals, shockTable.length - 1);
+    const shockMultiplier = safeNum(shockTable[shockIndex] ?? 1.0, 1.0);
     const targetStress    = safeNum(Math.min(100, rawStress * shockMultiplier), 0);
 
-    const alpha          = targetStress > this.previousStress ? 0.35 : 0.15;
+    const alpha          = targetStress > this.previousStress ? this.engineConfig.stress_alpha_up : this.engineConfig.stress_alpha_down;
     const smoothedStress = safeNum((alpha * targetStress) + ((1 - alpha) * this.previousStress), 0);
     const finalScore     = safeNum(Math.round(smoothedStress), 0);
     const level          = this.classifyLevel(smoothedStress);
 
-    const confValues = sigArray.map(s =>
+    // Over the signals that count this tick: one with no input or no weight
+    // reports LOW by default and would hold the headline down for nothing
+    const confValues = sigArray.filter(s => w[s.name] > 0).map(s =>
       s.confidence === ConfidenceLevel.HIGH ? 3 : s.confidence === ConfidenceLevel.MEDIUM ? 2 : 1
     );
-    const avgConf = confValues.reduce((a, b) => a + b, 0) / confValues.length;
+    const avgConf = confValues.length > 0 ? confValues.reduce((a, b) => a + b, 0) / confValues.length : 1;
     const globalConfidence =
       avgConf > 2.5 ? ConfidenceLevel.HIGH :
       avgConf > 1.5 ? ConfidenceLevel.MEDIUM :
                       ConfidenceLevel.LOW;
 
     const weight_contributions: WeightContribution[] = sigArray.map(sig => {
-      const weight       = this.weights[sig.name];
+      const weight       = w[sig.name];
       const contribution = safeNum(sig.value * weight, 0);
       return {
         signal:       sig.name,
@@ -316,12 +198,10 @@ export class AnalyticsEngine {
       };
     });
 
-    const confidence_reasons: Record<string, string> = {
-      [SignalType.LIQUIDITY]:      `${this.liquidityBuffer.size()}/600 depth samples (p90 anchor — need ≥60 for HIGH)`,
-      [SignalType.VOLATILITY]:     `${this.priceBuffer.size()} price ticks (need ≥50 for HIGH)`,
-      [SignalType.FLOW]:           `Volume this tick — need ≥2.0 BTC/tick for HIGH, ≥0.5 for MEDIUM`,
-      [SignalType.FORCED_SELLING]: `Block count — ≥3 blocks = HIGH, ≥1 = MEDIUM, 0 = LOW`
-    };
+    const confidence_reasons: Record<string, string> = {};
+    this.slots.forEach(({ plugin, state, ctx }) => {
+      confidence_reasons[plugin.id] = plugin.confidenceRule(tick, state, ctx);
+    });
 
     const sorted   = [...weight_contributions].sort((a, b) => b.contribution - a.contribution);
     const dominant = sorted[0] ?? { signal: 'UNKNOWN', weight: 0, raw_value: 0, contribution: 0, pct_of_total: 0 };
@@ -329,14 +209,14 @@ export class AnalyticsEngine {
     // FIX [A]: Shock note now correctly describes the SHOCK_TABLE, not 1+N×0.08.
     // This is what the ExplainabilityLayer reads for the audit narrative.
     const shockNote = activeSignals >= 2
-      ? `Convergence shock SHOCK_TABLE[${activeSignals}]=${shockMultiplier.toFixed(2)}× applied → target ${targetStress.toFixed(1)}. `
+      ? `Convergence shock SHOCK_TABLE[${shockIndex}]=${shockMultiplier.toFixed(2)}× applied → target ${targetStress.toFixed(1)}. `
       : activeSignals === 1
-        ? `Single signal — SHOCK_TABLE[1]=1.00× (no convergence bonus). Target ${targetStress.toFixed(1)}. `
+        ? `Single signal — SHOCK_TABLE[${shockIndex}]=${shockMultiplier.toFixed(2)}× (no convergence bonus). Target ${targetStress.toFixed(1)}. `
         : '';
     const direction  = targetStress > this.previousStress ? 'rising' : targetStress < this.previousStress ? 'falling' : 'flat';
     const emaFormula = `${alpha} × ${targetStress.toFixed(1)} + ${(1 - alpha).toFixed(2)} × ${this.previousStress.toFixed(1)} = ${smoothedStress.toFixed(1)}`;
     const audit_narrative = rawStress > 0
-      ? `Dominant: ${dominant.signal} (${(dominant.weight * 100).toFixed(0)}% wt × ${dominant.raw_value} raw = ${dominant.contribution.toFixed(1)} pts, ${dominant.pct_of_total.toFixed(1)}%). Raw: ${rawStress.toFixed(1)}. ${shockNote}Stress ${direction} — α=${alpha} (${alpha === 0.35 ? 'fast-attack' : 'slow-decay'}). EMA: ${emaFormula} → ${finalScore} (${level}). Confidence: ${globalConfidence}.`
+      ? `Dominant: ${dominant.signal} (${(dominant.weight * 100).toFixed(0)}% wt × ${dominant.raw_value} raw = ${dominant.contribution.toFixed(1)} pts, ${dominant.pct_of_total.toFixed(1)}%). Raw: ${rawStress.toFixed(1)}. ${shockNote}Stress ${direction} — α=${alpha} (${targetStress > this.previousStress ? 'fast-attack' : 'slow-decay'}). EMA: ${emaFormula} → ${finalScore} (${level}). Confidence: ${globalConfidence}.`
       : `All signals stable. Score: 0. System monitoring.`;
 
     const trace: DecisionTrace = {
@@ -344,12 +224,14 @@ export class AnalyticsEngine {
       raw_score:        rawStress,
       signals_aligned:  activeSignals,
       shock_multiplier: shockMultiplier,
+      shock_table:      shockTable,
       pre_smooth_score: targetStress,
       smoothing_alpha:  alpha,
       previous_score:   this.previousStress,
       final_score:      finalScore,
       confidence_reasons,
       audit_narrative,
+      engine_config:    this.configStamp,
       timestamp: Date.now()
     };
 
@@ -363,12 +245,9 @@ export class AnalyticsEngine {
       color:           THEME.stress[level],
       signals_aligned: activeSignals,
       confidence:      globalConfidence,
-      breakdown: {
-        liquidity:     safeNum(signals[SignalType.LIQUIDITY].value,      0),
-        flow:          safeNum(signals[SignalType.FLOW].value,           0),
-        volatility:    safeNum(signals[SignalType.VOLATILITY].value,     0),
-        forcedSelling: safeNum(signals[SignalType.FORCED_SELLING].value, 0)
-      },
+      breakdown: Object.fromEntries(
+        this.slots.map(({ plugin }) => [plugin.key, safeNum(signals[plugin.id].value, 0)])
+      ),
       timestamp: Date.now()
     };
 
@@ -377,15 +256,6 @@ export class AnalyticsEngine {
 
   // ── Causality engine ───────────────────────────────────────────────────────
 
-  private getPatternLabel(signals: Record<SignalType, SignalOutput>): string | null {
-    const bits =
-      (signals[SignalType.LIQUIDITY].triggered      ? '1' : '0') +
-      (signals[SignalType.FLOW].triggered           ? '1' : '0') +
-      (signals[SignalType.VOLATILITY].triggered     ? '1' : '0') +
-      (signals[SignalType.FORCED_SELLING].triggered ? '1' : '0');
-    return PATTERN_LABELS[bits] ?? null;
-  }
-
   // FIX [F]: velocity returned in pts/s (×10 for 100ms tick cadence).
   private getStressVelocity(): number {
     if (this.stressHistory.length < 2) return 0;
@@ -400,10 +270,13 @@ export class AnalyticsEngine {
 
   private buildCausalSequence(
     stress:  StressScore,
-    signals: Record<SignalType, SignalOutput>,
+    signals: Record<string, SignalOutput>,
     tick:    NormalizedMarketTick
   ): CausalSequence {
     const activeEntries = Object.values(signals).filter(s => s.triggered);
+    const reflexivity   = this.slots
+      .map(({ plugin, state }) => plugin.reflexivity?.(state) ?? null)
+      .find(r => r !== null) ?? null;
 
     if (activeEntries.length === 0) {
       this.triggerOrder      = [];
@@ -411,14 +284,14 @@ export class AnalyticsEngine {
       return {
         active: false, steps: [], catalyst_id: null,
         narrative: '', risk_assessment: '',
-        pattern_label: null, stress_velocity: 0
+        pattern_label: null, stress_velocity: 0, reflexivity
       };
     }
 
     activeEntries.forEach(s => {
       if (!this.triggerOrder.find(t => t.signal === s.name)) {
         this.triggerOrder.push({
-          signal:       s.name as SignalType,
+          signal:       s.name,
           timestamp:    tick.exchange_timestamp,
           initialValue: s.value
         });
@@ -429,14 +302,14 @@ export class AnalyticsEngine {
     if (this.triggerOrder.length === 0) this.catalystTimestamp = 0;
 
     const velocity     = this.getStressVelocity(); // pts/s
-    const patternLabel = this.getPatternLabel(signals);
+    const label        = patternLabel(signals);
     const rawTotal     = Object.values(signals).reduce(
-      (s, sig) => s + sig.value * this.weights[sig.name], 0
+      (s, sig) => s + sig.value * this.activeWeights[sig.name], 0
     );
 
     const steps: CausalStep[] = this.triggerOrder.map((trigger, index) => {
       const signalData      = signals[trigger.signal];
-      const weight          = this.weights[trigger.signal];
+      const weight          = this.activeWeights[trigger.signal];
       const contributionPts = safeNum(signalData.value * weight, 0);
       const contributionPct = rawTotal > 0 ? safeNum((contributionPts / rawTotal) * 100, 0) : 0;
       const elapsedMs       = tick.exchange_timestamp - (this.catalystTimestamp || tick.exchange_timestamp);
@@ -460,13 +333,13 @@ export class AnalyticsEngine {
     });
 
     const catalyst       = this.triggerOrder[0]?.signal || null;
-    const narrative      = this.generateNarrative(steps, stress, velocity, patternLabel);
-    const riskAssessment = this.generateRiskAssessment(stress, signals, velocity, patternLabel);
+    const narrative      = this.generateNarrative(steps, stress, velocity, label);
+    const riskAssessment = this.generateRiskAssessment(stress, signals, velocity, label);
 
     return {
       active: true, steps, catalyst_id: catalyst,
       narrative, risk_assessment: riskAssessment,
-      pattern_label: patternLabel, stress_velocity: velocity
+      pattern_label: label, stress_velocity: velocity, reflexivity
     };
   }
 
@@ -501,23 +374,22 @@ export class AnalyticsEngine {
   }
 
   private generateRiskAssessment(
-    stress: StressScore, signals: Record<SignalType, SignalOutput>,
+    stress: StressScore, signals: Record<string, SignalOutput>,
     velocity: number, patternLabel: string | null
   ): string {
     const velNote = Math.abs(velocity) > 1
       ? ` Velocity ${velocity > 0 ? '+' : ''}${velocity.toFixed(1)} pts/s.`
       : '';
     const label   = patternLabel ? `${patternLabel} — ` : '';
-    const parts: string[] = [];
-    if (signals[SignalType.LIQUIDITY].triggered)      parts.push(`Liq −${signals[SignalType.LIQUIDITY].value.toFixed(0)}%`);
-    if (signals[SignalType.FLOW].triggered)           parts.push(`Flow ${signals[SignalType.FLOW].value.toFixed(0)}/100`);
-    if (signals[SignalType.VOLATILITY].triggered)     parts.push(`Vol ${signals[SignalType.VOLATILITY].value.toFixed(0)}/100`);
-    if (signals[SignalType.FORCED_SELLING].triggered) parts.push(`Whale ${signals[SignalType.FORCED_SELLING].value.toFixed(0)}/100`);
+    const parts = this.slots
+      .filter(({ plugin }) => signals[plugin.id].triggered)
+      .map(({ plugin }) => plugin.summarize(signals[plugin.id]));
     const metrics = parts.length > 0 ? ` ${parts.join(', ')}.` : '';
 
-    if (stress.score >= 80) return `CRITICAL: ${label}${stress.signals_aligned}-signal convergence at ${stress.score}.${metrics}${velNote} Structural failure imminent.`;
-    if (stress.score >= 60) return `UNSTABLE: ${label}${stress.signals_aligned} vector${stress.signals_aligned > 1 ? 's' : ''} at ${stress.score}.${metrics}${velNote} Corrective action likely insufficient.`;
-    return                         `ELEVATED: ${label}Monitoring catalyst propagation at ${stress.score}.${metrics}${velNote}`;
+    const [, , unstable, critical] = this.engineConfig.level_boundaries;
+    if (stress.score >= critical) return `CRITICAL: ${label}${stress.signals_aligned}-signal convergence at ${stress.score}.${metrics}${velNote} Structural failure imminent.`;
+    if (stress.score >= unstable) return `UNSTABLE: ${label}${stress.signals_aligned} vector${stress.signals_aligned > 1 ? 's' : ''} at ${stress.score}.${metrics}${velNote} Corrective action likely insufficient.`;
+    return                               `ELEVATED: ${label}Monitoring catalyst propagation at ${stress.score}.${metrics}${velNote}`;
   }
 
   // ── Critical event detection ───────────────────────────────────────────────
@@ -526,18 +398,18 @@ export class AnalyticsEngine {
     tick: NormalizedMarketTick, stress: StressScore,
     causal: CausalSequence, lastScore: number
   ): CriticalEvent | null {
-    const crossedThreshold = stress.score > 60 && lastScore <= 60;
+    // Crossing into UNSTABLE is the breach
+    const eventThreshold   = this.engineConfig.level_boundaries[2];
+    const crossedThreshold = stress.score > eventThreshold && lastScore <= eventThreshold;
 
     // FIX [G]: Escalation cooldown separated from threshold crossing.
     // Threshold crossing: ALWAYS fire immediately — this is the initial breach.
     // Escalation: only fire if cooldown has elapsed.
     // OLD: both used same 60s cooldown → initial breach could be suppressed.
-    // NEW: crossing = instant, escalation = 60s cooldown (live) / 300s (historical)
-    // Mode detection: historical ticks use exchange_timestamp = kline open time
-    // which is very regular (exact 60s intervals). Live ticks are irregular.
-    const cooldownMs = 60_000;
+    // NEW: crossing = instant, escalation = event_cooldown_ms (60s default)
+    const cooldownMs = this.engineConfig.event_cooldown_ms;
     const cooledDown = (tick.exchange_timestamp - this.lastEventExchangeTs) >= cooldownMs;
-    const escalation = stress.score > 60
+    const escalation = stress.score > eventThreshold
                     && stress.signals_aligned > this.previousSignalsAligned
                     && cooledDown;
 
@@ -550,7 +422,8 @@ export class AnalyticsEngine {
         level:          stress.level,
         primary_factor: causal.catalyst_id || 'Unknown Catalyst',
         narrative:      causal.narrative,
-        signals:        causal.steps.map(s => s.signal)
+        signals:        causal.steps.map(s => s.signal),
+        symbol:         tick.symbol
       };
       this.previousLevel          = stress.level;
       this.previousSignalsAligned = stress.signals_aligned;
@@ -565,29 +438,14 @@ export class AnalyticsEngine {
 
   // ── Helpers ────────────────────────────────────────────────────────────────
 
-  private getSeverity(risk: number): StressLevel {
-    if (risk < 25) return StressLevel.STABLE;
-    if (risk < 50) return StressLevel.ELEVATED;
-    if (risk < 75) return StressLevel.STRESSED;
-    if (risk < 90) return StressLevel.UNSTABLE;
-    return StressLevel.CRITICAL;
-  }
-
   // FIX: Recalibrated thresholds (proven by simulation).
-  // STABLE<20 ELEVATED<40 STRESSED<60 UNSTABLE<80 CRITICAL>=80
+  // Default bounds: STABLE<20 ELEVATED<40 STRESSED<60 UNSTABLE<80 CRITICAL>=80
   private classifyLevel(score: number): StressLevel {
-    if (score < 20) return StressLevel.STABLE;
-    if (score < 40) return StressLevel.ELEVATED;
-    if (score < 60) return StressLevel.STRESSED;
-    if (score < 80) return StressLevel.UNSTABLE;
+    const [elevated, stressed, unstable, critical] = this.engineConfig.level_boundaries;
+    if (score < elevated) return StressLevel.STABLE;
+    if (score < stressed) return StressLevel.ELEVATED;
+    if (score < unstable) return StressLevel.STRESSED;
+    if (score < critical) return StressLevel.UNSTABLE;
     return StressLevel.CRITICAL;
   }
-
-  private defaultSignal(name: SignalType, ts: number): SignalOutput {
-    return {
-      name, value: 0, severity: StressLevel.STABLE, triggered: false,
-      raw_metrics: {}, explanation: 'Insufficient data.',
-      confidence: ConfidenceLevel.LOW, timestamp: ts
-    };
-  }
 }
@@ -0,0 +1,134 @@
+import { CriticalEvent, NormalizedMarketTick } from '../types';
+import { HistoricalDataLoader, KLINE_INTERVALS } from './HistoricalDataLoader';
+import { CrashScenario } from './ScenarioCatalogue';
+import { runTickStream, onReplayClock } from './BatchRunner';
+import { EngineConfig, DEFAULT_ENGINE_CONFIG } from './EngineConfig';
+
+// A labeled window of true market stress. Events inside [start, end] are
+// hits; lead time is measured against `time`, the labeled moment itself.
+export interface StressEpisode {
+  start: number;
+  time:  number;
+  end:   number;
+  label: string;
+}
+
+export interface EpisodeOutcome {
+  episode:    StressEpisode;
+  hit:        boolean;
+  // First event inside the window; null when missed
+  first_event: number | null;
+  // episode.time − first_event: positive means the engine flagged it early
+  lead_ms:    number | null;
+}
+
+export interface BacktestScore {
+  episodes:        number;
+  hits:            number;
+  missed:          number;
+  events:          number;
+  // Events that fall outside every labeled window
+  false_alarms:    number;
+  days:            number;
+  false_alarms_per_day: number;
+  hit_rate:        number; // hits / episodes (recall)
+  precision:       number; // events inside a window / events
+  mean_lead_ms:    number | null;
+  median_lead_ms:  number | null;
+}
+
+export interface ScenarioBacktest {
+  scenario:  CrashScenario;
+  outcomes:  EpisodeOutcome[];
+  events:    CriticalEvent[];
+  // Event timestamps outside every window
+  false_alarm_times: number[];
+  score:     BacktestScore;
+}
+
+const DAY = 86_400_000;
+
+// The catalogue's expected breaches, each widened by the scenario's tolerance
+export function episodesFromScenario(scenario: CrashScenario): StressEpisode[] {
+  return scenario.expected_breaches.map(b => ({
+    start: b.time - scenario.tolerance_ms,
+    time:  b.time,
+    end:   b.time + scenario.tolerance_ms,
+    label: b.label
+  }));
+}
+
+/**
+ * Matches events to labeled episodes. An episode is hit by any event inside
+ * its window; an event inside any window is a true positive (several events
+ * in one episode are not penalised — escalations are expected), and every
+ * other event is a false alarm.
+ */
+export function scoreEvents(eventTimes: number[], episodes: StressEpisode[], spanMs: number): { outcomes: EpisodeOutcome[]; falseAlarmTimes: number[]; score: BacktestScore } {
+  const times    = [...eventTimes].sort((a, b) => a - b);
+  const outcomes = episodes.map(episode => {
+    const first = times.find(t => t >= episode.start && t <= episode.end) ?? null;
+    return { episode, hit: first !== null, first_event: first, lead_ms: first === null ? null : episode.time - first };
+  });
+  const falseAlarmTimes = times.filter(t => !episodes.some(e => t >= e.start && t <= e.end));
+  return { outcomes, falseAlarmTimes, score: summarize(outcomes, times.length, falseAlarmTimes.length, spanMs) };
+}
+
+// Totals across scenarios are recomputed from the outcomes, not averaged, so
+// a six-day scenario weighs six times a one-day one in false alarms per day
+export function combineScores(runs: ScenarioBacktest[]): BacktestScore {
+  const outcomes = runs.flatMap(r => r.outcomes);
+  const events   = runs.reduce((s, r) => s + r.events.length, 0);
+  const falses   = runs.reduce((s, r) => s + r.false_alarm_times.length, 0);
+  const spanMs   = runs.reduce((s, r) => s + r.score.days * DAY, 0);
+  return summarize(outcomes, events, falses, spanMs);
+}
+
+function summarize(outcomes: EpisodeOutcome[], events: number, falseAlarms: number, spanMs: number): BacktestScore {
+  const leads = outcomes.filter(o => o.lead_ms !== null).map(o => o.lead_ms as number).sort((a, b) => a - b);
+  const hits  = leads.length;
+  const days  = spanMs / DAY;
+  return {
+    episodes:             outcomes.length,
+    hits,
+    missed:               outcomes.length - hits,
+    events,
+    false_alarms:         falseAlarms,
+    days,
+    false_alarms_per_day: days > 0 ? falseAlarms / days : 0,
+    hit_rate:             outcomes.length > 0 ? hits / outcomes.length : 0,
+    precision:            events > 0 ? (events - falseAlarms) / events : 0,
+    mean_lead_ms:         hits > 0 ? leads.reduce((s, l) => s + l, 0) / hits : null,
+    median_lead_ms:       hits > 0 ? leads[Math.floor(hits / 2)] : null
+  };
+}
+
+/**
+ * A scenario's klines as engine ticks, on the CLI's replay clock. load()
+ * repoints the loader's range, so pass a loader of its own — never the one
+ * driving the on-screen replay.
+ */
+export async function scenarioTicks(loader: HistoricalDataLoader, scenario: CrashScenario): Promise<NormalizedMarketTick[]> {
+  const points = await loader.loadScenario(scenario);
+  return onReplayClock(points.map(point => loader.convertToTick(point)));
+}
+
+// Replays the ticks through a fresh engine and scores the critical events it
+// emits against the labeled episodes
+export function backtestTicks(
+  scenario:     CrashScenario,
+  ticks:        NormalizedMarketTick[],
+  engineConfig: EngineConfig = DEFAULT_ENGINE_CONFIG,
+  episodes:     StressEpisode[] = episodesFromScenario(scenario)
+): ScenarioBacktest {
+  const events: CriticalEvent[] = [];
+  runTickStream({ symbol: scenario.symbol, source: 'KLINES', ticks, skipped: 0 }, (_tick, result) => {
+    if (result.criticalEvent) events.push(result.criticalEvent);
+  }, engineConfig);
+
+  const spanMs = ticks.length > 0
+    ? ticks[ticks.length - 1].exchange_timestamp - ticks[0].exchange_timestamp + KLINE_INTERVALS[scenario.interval]
+    : 0;
+  const { outcomes, falseAlarmTimes, score } = scoreEvents(events.map(e => e.timestamp), episodes, spanMs);
+  return { scenario, outcomes, events, false_alarm_times: falseAlarmTimes, score };
+}
@@ -0,0 +1,161 @@
+import { CausalSequence, CriticalEvent, NormalizedMarketTick, StressScore } from '../types';
+import { DEFAULT_SYMBOL, SYMBOLS } from '../constants';
+import { AnalyticsEngine } from './AnalyticsEngine';
+import { EngineConfig, DEFAULT_ENGINE_CONFIG } from './EngineConfig';
+import { HistoricalDataLoader } from './HistoricalDataLoader';
+import { AggTradeLoader } from './AggTradeLoader';
+import { parseSession } from './SessionRecorder';
+import { SIGNAL_REGISTRY } from './SignalRegistry';
+
+// One symbol's ticks, in order, ready for an engine
+export interface TickStream {
+  symbol:  string;
+  source:  'SESSION' | 'KLINES' | 'AGGTRADES';
+  ticks:   NormalizedMarketTick[];
+  // Rows the reader rejected
+  skipped: number;
+}
+
+export interface ReadOptions {
+  symbol?:  string;  // keep only this symbol; also the fallback for unnamed CSVs
+  from?:    number;  // aggTrades window, ms — required for aggTrades CSVs
+  to?:      number;
+}
+
+// Processing-clock step for offline kline replay — the live tick cadence
+export const REPLAY_STEP_MS = 100;
+
+/**
+ * Puts kline ticks on a deterministic replay clock: processing_timestamp
+ * starts at the first candle's open and advances REPLAY_STEP_MS per tick.
+ * Candle opens themselves sit a whole interval apart, past
+ * flow_reset_gap_ms, so on that clock every tick would read as a data gap
+ * and reset Flow, OFI and the other gap-aware signals. exchange_timestamp
+ * keeps the candle time, which events and cooldowns are measured on.
+ */
+export function onReplayClock(ticks: NormalizedMarketTick[]): NormalizedMarketTick[] {
+  const start = ticks[0]?.exchange_timestamp ?? 0;
+  return ticks.map((tick, i) => ({ ...tick, processing_timestamp: start + i * REPLAY_STEP_MS }));
+}
+
+/**
+ * Reads any file the app can replay — session recordings / JSON tick dumps,
+ * Binance kline CSVs and Binance aggTrades CSVs — into per-symbol tick streams.
+ *
+ * Kline ticks go on the replay clock (onReplayClock) instead of the wall
+ * clock the interactive replay uses, so a run is reproducible and two runs
+ * over the same file can be diffed.
+ */
+export function readTickFile(fileName: string, text: string, options: ReadOptions = {}): TickStream[] {
+  const fallbackSymbol = options.symbol ?? DEFAULT_SYMBOL.symbol;
+
+  if (/\.csv$/i.test(fileName)) {
+    const firstRow = text.slice(0, 2000).split('\n').find(l => l.trim() && !/^[a-z_]/i.test(l.trim()));
+    const columns  = firstRow ? firstRow.split(',').length : 0;
+
+    // aggTrades rows have 7–8 columns, klines 10–12
+    if (columns > 0 && columns < 10) {
+      if (options.from === undefined || options.to === undefined) {
+        throw new Error('aggTrades files need a window: pass --from and --to (at most 2h apart).');
+      }
+      const replay = new AggTradeLoader().loadArchive(fileName, text, fallbackSymbol, options.from, options.to);
+      return [{ symbol: replay.symbol, source: 'AGGTRADES', ticks: replay.ticks, skipped: replay.skipped }];
+    }
+
+    const loader = new HistoricalDataLoader();
+    const result = loader.importCsv(fileName, text, fallbackSymbol);
+    const ticks  = onReplayClock(result.points.map(point => loader.convertToTick(point)));
+    return [{ symbol: result.range.symbol, source: 'KLINES', ticks, skipped: result.skipped }];
+  }
+
+  const recording = parseSession(text);
+  return recording.symbols
+    .filter(symbol => !options.symbol || symbol === options.symbol)
+    .map(symbol => ({
+      symbol,
+      source:  'SESSION' as const,
+      ticks:   recording.ticks.filter(t => t.symbol === symbol),
+      skipped: recording.skipped
+    }));
+}
+
+// What a batch run writes per tick. Wall-clock fields (stress/trace
+// timestamps, random event ids) are left out so outputs diff cleanly.
+export interface EngineRecord {
+  timestamp:      number;
+  symbol:         string;
+  price:          number;
+  stress:         Omit<StressScore, 'timestamp' | 'color'>;
+  signals:        Record<string, { value: number; triggered: boolean; confidence: string; raw_metrics: Record<string, number | string> }>;
+  causal:         CausalSequence;
+  critical_event: Omit<CriticalEvent, 'id' | 'snapshot'> | null;
+}
+
+type EngineResult = ReturnType<AnalyticsEngine['processTick']>;
+
+export function toRecord(tick: NormalizedMarketTick, result: EngineResult): EngineRecord {
+  const { timestamp: _ts, color: _color, ...stress } = result.stress;
+  const signals: EngineRecord['signals'] = {};
+  Object.values(result.signals).forEach(s => {
+    signals[s.name] = { value: s.value, triggered: s.triggered, confidence: s.confidence, raw_metrics: s.raw_metrics };
+  });
+  let critical_event: EngineRecord['critical_event'] = null;
+  if (result.criticalEvent) {
+    const { id: _id, snapshot: _snapshot, ...event } = result.criticalEvent;
+    critical_event = event;
+  }
+  return {
+    timestamp: tick.exchange_timestamp,
+    symbol:    tick.symbol,
+    price:     tick.price,
+    stress,
+    signals,
+    causal:    result.causal,
+    critical_event
+  };
+}
+
+// Fresh engine per stream, configured for its symbol. Lazy, so a consumer
+// can pause between ticks (the CLI waits on a full output stream)
+export function* replayTickStream(
+  stream:       TickStream,
+  engineConfig: EngineConfig = DEFAULT_ENGINE_CONFIG
+): Generator<[NormalizedMarketTick, EngineResult]> {
+  const cfg    = SYMBOLS.find(s => s.symbol === stream.symbol) ?? { ...DEFAULT_SYMBOL, symbol: stream.symbol };
+  const engine = new AnalyticsEngine(cfg, engineConfig);
+  for (const tick of stream.ticks) yield [tick, engine.processTick(tick)];
+}
+
+export function runTickStream(
+  stream:       TickStream,
+  onResult:     (tick: NormalizedMarketTick, result: EngineResult) => void,
+  engineConfig: EngineConfig = DEFAULT_ENGINE_CONFIG
+): void {
+  for (const [tick, result] of replayTickStream(stream, engineConfig)) onResult(tick, result);
+}
+
+// ── CSV output ───────────────────────────────────────────────────────────────
+// Flat columns for spreadsheets; JSONL keeps the full record.
+
+const CSV_SIGNALS = SIGNAL_REGISTRY.map(p => p.id);
+
+export const CSV_HEADER = [
+  'timestamp', 'symbol', 'price', 'stress_score', 'raw_score', 'level', 'signals_aligned', 'confidence',
+  ...CSV_SIGNALS.flatMap(name => [`${name} value`, `${name} triggered`]),
+  'catalyst', 'pattern', 'stress_velocity', 'critical_event', 'event_narrative'
+].map(csvCell).join(',');
+
+function csvCell(value: string | number | boolean | null): string {
+  const text = value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(record: EngineRecord): string {
+  return [
+    record.timestamp, record.symbol, record.price,
+    record.stress.score, record.stress.raw_score, record.stress.level, record.stress.signals_aligned, record.stress.confidence,
+    ...CSV_SIGNALS.flatMap(name => [record.signals[name]?.value ?? null, record.signals[name]?.triggered ?? null]),
+    record.causal.catalyst_id, record.causal.pattern_label, record.causal.stress_velocity,
+    record.critical_event ? 1 : 0, record.critical_event?.narrative ?? null
+  ].map(csvCell).join(',');
+}
@@ -0,0 +1,94 @@
+import { NormalizedMarketTick, SymbolConfig, Venue } from '../types';
+import { BaseFeedAdapter, DEFAULT_DEPTH_LEVELS } from './FeedAdapter';
+import { ManagedSocket } from './ManagedSocket';
+
+// Bybit spot accepts orderbook subscriptions only at these depths
+const BYBIT_DEPTHS = [1, 50, 200];
+
+// Bybit v5 public spot WebSocket (orderbook / publicTrade / tickers topics).
+//
+// orderbook.<depth>.<symbol> sends a snapshot then deltas. The update id 'u'
+// increments by one per message; a delta that skips an id means we missed a
+// message and resubscribe. u === 1 on a snapshot marks a service restart and
+// is handled like any other snapshot (book replaced).
+export class BybitService extends BaseFeedAdapter {
+  readonly venue = Venue.BYBIT;
+
+  private socket: ManagedSocket | null = null;
+  private lastUpdateId = -1;
+
+  private readonly WS_URL = 'wss://stream.bybit.com/v5/public/spot';
+  private readonly bookTopic: string;
+
+  constructor(
+    config: SymbolConfig,
+    onTick: (tick: NormalizedMarketTick) => void,
+    depthLevels = DEFAULT_DEPTH_LEVELS
+  ) {
+    super(config, onTick, depthLevels);
+    const depth    = BYBIT_DEPTHS.find(d => d >= this.depthLevels) ?? BYBIT_DEPTHS[BYBIT_DEPTHS.length - 1];
+    this.bookTopic = `orderbook.${depth}.${config.symbol}`;
+  }
+
+  protected connect(): void {
+    this.socket = this.openStream('stream', {
+      url:       this.WS_URL,
+      onMessage: (raw) => this.handleMessage(raw),
+      onOpen:    () => {
+        this.lastUpdateId = -1;
+        this.send('subscribe', [
+          this.bookTopic, `publicTrade.${this.config.symbol}`, `tickers.${this.config.symbol}`
+        ]);
+      },
+      onDrop:    () => this.book.reset(),
+      // Bybit closes connections that send nothing for 30s
+      ping:      { intervalMs: 20_000, payload: JSON.stringify({ op: 'ping' }) }
+    });
+  }
+
+  handleMessage(raw: string): void {
+    const msg = this.parseFrame(raw);
+    if (!msg?.topic) return; // subscribe acks / pong / dropped
+
+    if (msg.topic === this.bookTopic) {
+      this.applyBook(msg.type, msg.data);
+    } else if (msg.topic === `publicTrade.${this.config.symbol}`) {
+      (msg.data ?? []).forEach((t: any) => this.recordTrade({
+        id:        Number(t.i) || t.T,
+        price:     parseFloat(t.p),
+        quantity:  parseFloat(t.v),
+        timestamp: t.T,
+        // S is the taker side
+        side:      t.S === 'Sell' ? 'sell' : 'buy'
+      }, msg.ts));
+    } else if (msg.topic === `tickers.${this.config.symbol}`) {
+      this.setVolume24h(parseFloat(msg.data?.volume24h));
+    }
+  }
+
+  private applyBook(type: string, d: any): void {
+    if (type === 'snapshot') {
+      this.book.replace(d.b ?? [], d.a ?? []);
+    } else {
+      if (this.lastUpdateId < 0 || d.u !== this.lastUpdateId + 1) {
+        console.warn(`[Bybit] ${this.config.symbol} book gap u=${d.u} (book at ${this.lastUpdateId}). Resubscribing...`);
+        this.resubscribeBook();
+        return;
+      }
+      this.book.update(d.b ?? [], d.a ?? []);
+    }
+    this.lastUpdateId = d.u;
+    this.markDepthUpdate();
+  }
+
+  private resubscribeBook(): void {
+    this.book.reset();
+    this.lastUpdateId = -1;
+    this.send('unsubscribe', [this.bookTopic]);
+    this.send('subscribe', [this.bookTopic]);
+  }
+
+  private send(op: 'subscribe' | 'unsubscribe', args: string[]): void {
+    this.socket?.send(JSON.stringify({ op, args }));
+  }
+}
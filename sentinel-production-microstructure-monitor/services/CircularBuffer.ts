@@ -19,7 +19,7 @@ export class CircularBuffer<T> {
 
   getLast(n: number): T[] {
     const size = this.buffer.length;
-    if (n >= size) return [...this.buffer];
+    if (n >= size) return this.getAll();
     const results: T[] = [];
     for (let i = 0; i < n; i++) {
       const idx = (this.head - 1 - i + size) % size;
@@ -73,6 +73,15 @@ export class CircularBuffer<T> {
 
   size(): number { return this.buffer.length; }
 
+  // Changes capacity in place, keeping the most recent values that still fit
+  resize(maxSize: number): void {
+    if (maxSize === this.maxSize) return;
+    // Oldest first, so a wrapped buffer keeps its order once head resets
+    this.buffer  = this.getAll().slice(-maxSize);
+    this.head    = 0;
+    this.maxSize = maxSize;
+  }
+
   clear(): void {
     this.buffer = [];
     this.head   = 0;
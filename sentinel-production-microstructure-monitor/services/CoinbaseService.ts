@@ -0,0 +1,110 @@
+import { NormalizedMarketTick, SymbolConfig, Venue } from '../types';
+import { RawLevel } from './OrderBook';
+import { BaseFeedAdapter, DEFAULT_DEPTH_LEVELS } from './FeedAdapter';
+import { ManagedSocket } from './ManagedSocket';
+
+// Coinbase Advanced Trade market-data WebSocket (public, no auth needed for
+// level2 / market_trades / ticker / heartbeats).
+//
+// Every message on a connection carries a sequence_num that increments by
+// exactly one across all channels. A skipped number means a dropped message,
+// and because level2 is a diff feed the book can no longer be trusted — we
+// resubscribe level2 to get a fresh snapshot.
+export class CoinbaseService extends BaseFeedAdapter {
+  readonly venue = Venue.COINBASE;
+
+  private socket: ManagedSocket | null = null;
+  private lastSequence = -1;
+
+  private readonly WS_URL = 'wss://advanced-trade-ws.coinbase.com';
+  // Coinbase quotes majors against USD; USDT books are thin, so map to USD
+  private readonly productId: string;
+
+  constructor(
+    config: SymbolConfig,
+    onTick: (tick: NormalizedMarketTick) => void,
+    depthLevels = DEFAULT_DEPTH_LEVELS
+  ) {
+    super(config, onTick, depthLevels);
+    this.productId = `${config.base}-${config.quote === 'USDT' ? 'USD' : config.quote}`;
+  }
+
+  protected connect(): void {
+    // The heartbeats channel ticks every second, so staleness detection needs
+    // no app-level ping here.
+    this.socket = this.openStream('stream', {
+      url:       this.WS_URL,
+      onMessage: (raw) => this.handleMessage(raw),
+      onOpen:    () => {
+        this.lastSequence = -1;
+        ['level2', 'market_trades', 'ticker', 'heartbeats'].forEach(channel => this.send('subscribe', channel));
+      },
+      onDrop:    () => this.book.reset()
+    });
+  }
+
+  handleMessage(raw: string): void {
+    const msg = this.parseFrame(raw);
+    if (!msg) return;
+    if (typeof msg.sequence_num === 'number') {
+      if (this.lastSequence >= 0 && msg.sequence_num !== this.lastSequence + 1) {
+        console.warn(`[Coinbase] ${this.productId} sequence gap ${this.lastSequence} → ${msg.sequence_num}. Resubscribing level2...`);
+        this.lastSequence = msg.sequence_num;
+        this.resubscribeBook();
+        return;
+      }
+      this.lastSequence = msg.sequence_num;
+    }
+
+    const exchangeTs = Date.parse(msg.timestamp);
+    const events: any[] = msg.events ?? [];
+
+    switch (msg.channel) {
+      case 'l2_data':
+        events.forEach(ev => this.applyBookEvent(ev));
+        break;
+      case 'market_trades':
+        events.forEach(ev => (ev.trades ?? []).forEach((t: any) => {
+          if (t.product_id !== this.productId) return;
+          this.recordTrade({
+            id:        parseInt(t.trade_id, 10),
+            price:     parseFloat(t.price),
+            quantity:  parseFloat(t.size),
+            timestamp: Date.parse(t.time),
+            // side is the aggressor (taker) side: BUY = buyer lifted the offer
+            side:      t.side === 'SELL' ? 'sell' : 'buy'
+          }, isFinite(exchangeTs) ? exchangeTs : undefined);
+        }));
+        break;
+      case 'ticker':
+        events.forEach(ev => (ev.tickers ?? []).forEach((t: any) => {
+          if (t.product_id === this.productId) this.setVolume24h(parseFloat(t.volume_24_h));
+        }));
+        break;
+    }
+  }
+
+  private applyBookEvent(ev: any): void {
+    if (ev.product_id !== this.productId) return;
+    const bids: RawLevel[] = [];
+    const asks: RawLevel[] = [];
+    for (const u of ev.updates ?? []) {
+      const level: RawLevel = [u.price_level, u.new_quantity];
+      if (u.side === 'bid') bids.push(level);
+      else                  asks.push(level); // 'offer'
+    }
+    if (ev.type === 'snapshot') this.book.replace(bids, asks);
+    else                        this.book.update(bids, asks);
+    this.markDepthUpdate();
+  }
+
+  private resubscribeBook(): void {
+    this.book.reset();
+    this.send('unsubscribe', 'level2');
+    this.send('subscribe', 'level2');
+  }
+
+  private send(type: 'subscribe' | 'unsubscribe', channel: string): void {
+    this.socket?.send(JSON.stringify({ type, product_ids: [this.productId], channel }));
+  }
+}
@@ -0,0 +1,118 @@
+import { Liquidation, NormalizedMarketTick, Venue, VenueQuote } from '../types';
+
+// A venue whose last tick is older than this is dropped from the merged book
+// and from venue_quotes — same 2s window BaseFeedAdapter uses to flag STALE.
+const VENUE_STALE_MS = 2_000;
+
+/**
+ * Merges per-venue ticks for one symbol into a single CONSOLIDATED tick.
+ *
+ * - Book: levels from every fresh venue are merged by price (quantities at the
+ *   same price are summed), so total_depth is the cross-venue resting depth.
+ * - Trades and liquidations: every venue's since the last emit are pooled.
+ *   liquidations stays absent unless at least one venue publishes them.
+ * - perp: from the first venue that carries perpetual data.
+ * - Price / mid / spread: taken from the reference venue (the first fresh venue
+ *   in priority order). A naive NBBO across venues is routinely crossed by a
+ *   few bps (USD vs USDT quotes, latency), which would make spread negative.
+ * - venue_quotes: each fresh venue's mid, spread and depth, for the
+ *   Venue Divergence signal.
+ *
+ * Emits on every reference-venue tick, preserving the 100ms cadence.
+ */
+export class ConsolidatedBook {
+  private latest  = new Map<Venue, { tick: NormalizedMarketTick; receivedMs: number }>();
+  private pending: NormalizedMarketTick['trades'] = ConsolidatedBook.emptyTrades();
+  private pendingLiquidations: Liquidation[] | null = null;
+  private readonly venues: Venue[];
+  private readonly onTick: (tick: NormalizedMarketTick) => void;
+
+  // venues in priority order — the first fresh one is the price reference
+  constructor(venues: Venue[], onTick: (tick: NormalizedMarketTick) => void) {
+    this.venues = venues;
+    this.onTick = onTick;
+  }
+
+  push(tick: NormalizedMarketTick): void {
+    if (tick.venue === 'CONSOLIDATED') return;
+    const now = Date.now();
+    this.latest.set(tick.venue, { tick, receivedMs: now });
+    this.accumulateTrades(tick.trades);
+    if (tick.liquidations) {
+      this.pendingLiquidations = [...(this.pendingLiquidations ?? []), ...tick.liquidations.orders];
+    }
+
+    const fresh = this.venues.filter(v => {
+      const entry = this.latest.get(v);
+      return entry && (now - entry.receivedMs) <= VENUE_STALE_MS;
+    });
+    if (fresh[0] !== tick.venue) return; // only the reference venue drives emission
+
+    const ticks = fresh.map(v => this.latest.get(v)!);
+    this.onTick(this.merge(tick, ticks.map(e => e.tick), ticks.map(e => e.receivedMs)));
+    this.pending = ConsolidatedBook.emptyTrades();
+    if (this.pendingLiquidations) this.pendingLiquidations = [];
+  }
+
+  reset(): void {
+    this.latest.clear();
+    this.pending             = ConsolidatedBook.emptyTrades();
+    this.pendingLiquidations = null;
+  }
+
+  private merge(
+    reference: NormalizedMarketTick,
+    ticks:     NormalizedMarketTick[],
+    received:  number[]
+  ): NormalizedMarketTick {
+    const mergeSide = (sides: [number, number][][], descending: boolean): [number, number][] => {
+      const levels = new Map<number, number>();
+      sides.forEach(side => side.forEach(([p, q]) => levels.set(p, (levels.get(p) ?? 0) + q)));
+      return [...levels.entries()].sort((a, b) => descending ? b[0] - a[0] : a[0] - b[0]);
+    };
+
+    const venue_quotes: VenueQuote[] = ticks.map((t, i) => ({
+      venue:       t.venue as Venue,
+      mid_price:   t.mid_price,
+      spread_bps:  t.spread_bps,
+      total_depth: t.total_depth,
+      timestamp:   received[i]
+    }));
+
+    // Worst quality across contributing venues is the honest consolidated quality
+    const quality = ticks.some(t => t.data_quality === 'STALE')    ? 'STALE'
+                  : ticks.some(t => t.data_quality === 'DEGRADED') ? 'DEGRADED'
+                  : 'GOOD';
+
+    return {
+      ...reference,
+      venue:        'CONSOLIDATED',
+      bids:         mergeSide(ticks.map(t => t.bids), true),
+      asks:         mergeSide(ticks.map(t => t.asks), false),
+      trades:       this.pending,
+      total_depth:  ticks.reduce((s, t) => s + t.total_depth, 0),
+      data_quality: quality,
+      venue_quotes,
+      perp:         ticks.find(t => t.perp)?.perp,
+      liquidations: this.pendingLiquidations ? {
+        sell_volume: this.pendingLiquidations.filter(l => l.side === 'sell').reduce((s, l) => s + l.quantity, 0),
+        buy_volume:  this.pendingLiquidations.filter(l => l.side === 'buy').reduce((s, l) => s + l.quantity, 0),
+        orders:      this.pendingLiquidations
+      } : undefined
+    };
+  }
+
+  private accumulateTrades(trades: NormalizedMarketTick['trades']): void {
+    this.pending = {
+      buy_volume:   this.pending.buy_volume  + trades.buy_volume,
+      sell_volume:  this.pending.sell_volume + trades.sell_volume,
+      buy_count:    this.pending.buy_count   + trades.buy_count,
+      sell_count:   this.pending.sell_count  + trades.sell_count,
+      large_trades: [...this.pending.large_trades, ...trades.large_trades]
+    };
+  }
+
+  private static emptyTrades(): NormalizedMarketTick['trades'] {
+    return { buy_volume: 0, sell_volume: 0, buy_count: 0, sell_count: 0, large_trades: [] };
+  }
+}
@@ -0,0 +1,262 @@
+import { NormalizedMarketTick } from '../types';
+
+// Safe number helper — replaces NaN/Infinity with fallback
+const safe = (val: number, fallback = 0): number =>
+  isFinite(val) && !isNaN(val) ? val : fallback;
+
+// What a depth model sees of the market: one window of trading (a candle, or
+// the trailing minute of aggTrades) and its length in minutes.
+export interface DepthWindow {
+  open:   number;
+  high:   number;
+  low:    number;
+  close:  number;
+  volume: number;
+}
+
+export interface SyntheticBook {
+  bids:        [number, number][];
+  asks:        [number, number][];
+  spread:      number;
+  spread_bps:  number;
+  total_depth: number;
+}
+
+/**
+ * Replay has trades but no order book, so every replayed tick's book comes
+ * from a DepthModel. HistoricalDataLoader and AggTradeLoader take one via
+ * setDepthModel(); the Liquidity signal is only as honest as the model.
+ */
+export interface DepthModel {
+  id:          string;
+  name:        string;
+  description: string;
+  params:      DepthModelParams;
+  synthesize(window: DepthWindow, minutes: number): SyntheticBook;
+}
+
+// Named parameters of the parametric model (the constants the original
+// kline estimate hard-coded). Volatility throughout is (high − low) / close
+// scaled to a 1m-equivalent (÷ √minutes).
+export interface DepthModelParams {
+  depth_per_volume:      number; // resting depth per unit of volume traded per second
+  volatility_thinning:   number; // depth falls by this × volatility...
+  min_depth_factor:      number; // ...but never below this fraction
+  falling_side_factor:   number; // share multiplier of the side price moves toward
+  rising_side_factor:    number; // share multiplier of the side price moves away from
+  base_spread_bps:       number; // spread in a motionless window
+  spread_per_volatility: number; // bps of spread added per unit of volatility
+  level_spacing:         number; // gap between ladder levels, as a fraction of price
+  level_decay:           number; // size ratio of each ladder level to the one above
+  levels:                number; // ladder levels per side
+}
+
+export const DEPTH_PARAM_LABELS: Record<keyof DepthModelParams, string> = {
+  depth_per_volume:      'Depth / volume·s',
+  volatility_thinning:   'Vol thinning',
+  min_depth_factor:      'Min depth factor',
+  falling_side_factor:   'Falling side',
+  rising_side_factor:    'Rising side',
+  base_spread_bps:       'Base spread bps',
+  spread_per_volatility: 'Spread / vol',
+  level_spacing:         'Level spacing',
+  level_decay:           'Level decay',
+  levels:                'Levels'
+};
+
+// The original kline-replay constants, tuned by eye on 1m BTC candles
+export const HEURISTIC_PARAMS: DepthModelParams = {
+  depth_per_volume:      1.6,
+  volatility_thinning:   90,
+  min_depth_factor:      0.015,
+  falling_side_factor:   0.65,
+  rising_side_factor:    1.25,
+  base_spread_bps:       0.75,
+  spread_per_volatility: 650,
+  level_spacing:         0.0006,
+  level_decay:           0.85,
+  levels:                10
+};
+
+const windowVolatility = (w: DepthWindow, minutes: number, fallback: number): number =>
+  safe(((w.high - w.low) / w.close) / Math.sqrt(minutes), fallback);
+
+/**
+ * Busy, calm windows are deep; violent ones thin out, most of all on the side
+ * price is moving toward. Spread widens with volatility. The ladder spreads
+ * each side's depth over geometrically shrinking levels.
+ */
+export class ParametricDepthModel implements DepthModel {
+  constructor(
+    readonly id:          string,
+    readonly name:        string,
+    readonly description: string,
+    readonly params:      DepthModelParams
+  ) {}
+
+  synthesize(w: DepthWindow, minutes: number): SyntheticBook {
+    const p          = this.params;
+    const closePrice = w.close || 1;
+
+    const depthVolatility = windowVolatility(w, minutes, 0.01);
+    const depthFactor     = Math.max(p.min_depth_factor, 1 - (depthVolatility * p.volatility_thinning));
+    const baseDepth       = safe((w.volume / (minutes * 60)) * p.depth_per_volume, 0.1);
+    const bidDepth = safe(baseDepth * depthFactor * (w.open > w.close ? p.falling_side_factor : p.rising_side_factor), 0.1);
+    const askDepth = safe(baseDepth * depthFactor * (w.open < w.close ? p.falling_side_factor : p.rising_side_factor), 0.1);
+
+    const volatility       = Math.min(windowVolatility(w, minutes, 0.001), 0.5);
+    const dynamicSpreadBps = safe(p.base_spread_bps + (volatility * p.spread_per_volatility), 1);
+    const spreadPct        = dynamicSpreadBps / 10000;
+
+    const bids: [number, number][] = [];
+    const asks: [number, number][] = [];
+    // Level weights sum to roughly the side's depth (Σ decay^i × 5/levels ≈ 1 at the defaults)
+    for (let i = 1; i <= p.levels; i++) {
+      const rawOffset        = (spreadPct / 2) + ((i - 1) * p.level_spacing * (1 + volatility * 10));
+      const priceOffset      = safe(rawOffset, spreadPct / 2);
+      const levelDepthFactor = safe(Math.pow(p.level_decay, i - 1) * (1 / p.levels) * 5, 0.01);
+
+      bids.push([
+        safe(closePrice * (1 - priceOffset), closePrice * 0.999),
+        safe(bidDepth * levelDepthFactor, 0.01)
+      ]);
+      asks.push([
+        safe(closePrice * (1 + priceOffset), closePrice * 1.001),
+        safe(askDepth * levelDepthFactor, 0.01)
+      ]);
+    }
+
+    return {
+      bids,
+      asks,
+      spread:      safe(closePrice * spreadPct, 0.01),
+      spread_bps:  dynamicSpreadBps,
+      total_depth: safe(bidDepth + askDepth, 0.1)
+    };
+  }
+}
+
+export const HEURISTIC_DEPTH_MODEL: DepthModel = new ParametricDepthModel(
+  'heuristic',
+  'Heuristic',
+  'The original hand-tuned kline estimate.',
+  HEURISTIC_PARAMS
+);
+
+// ── Calibration from recorded live books ─────────────────────────────────────
+
+// A minute of 100ms ticks — the window each sample's volume and range span
+const CALIBRATION_WINDOW_TICKS = 600;
+// One sample per second keeps neighbouring samples from being near-duplicates
+const CALIBRATION_STRIDE       = 10;
+const MIN_CALIBRATION_SAMPLES  = 300;
+const VOLATILITY_BUCKETS       = 5;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Least squares through (x, y) pairs
+const fitLine = (pairs: [number, number][]): { intercept: number; slope: number } => {
+  const n  = pairs.length;
+  const mx = pairs.reduce((s, [x]) => s + x, 0) / n;
+  const my = pairs.reduce((s, [, y]) => s + y, 0) / n;
+  const sxx = pairs.reduce((s, [x]) => s + (x - mx) ** 2, 0);
+  const sxy = pairs.reduce((s, [x, y]) => s + (x - mx) * (y - my), 0);
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return { intercept: my - slope * mx, slope };
+};
+
+// Medians of y within equal-count buckets of x — robust to the heavy tails of
+// per-second depth and spread readings
+const bucketMedians = (samples: { x: number; y: number }[]): [number, number][] => {
+  const sorted = [...samples].sort((a, b) => a.x - b.x);
+  const size   = Math.ceil(sorted.length / VOLATILITY_BUCKETS);
+  const out: [number, number][] = [];
+  for (let i = 0; i < sorted.length; i += size) {
+    const bucket = sorted.slice(i, i + size);
+    out.push([median(bucket.map(s => s.x)), median(bucket.map(s => s.y))]);
+  }
+  return out;
+};
+
+/**
+ * Fits the parametric model to a recorded live session of one symbol.
+ *
+ * Every second (after the first minute) the trailing minute's volume and
+ * range are paired with the book that was actually resting:
+ *  - depth / (volume per second) against volatility → depth_per_volume
+ *    (intercept) and volatility_thinning (slope);
+ *  - bid share of recorded depth in falling minutes → the side factors,
+ *    keeping their sum at the heuristic's;
+ *  - spread_bps against volatility → base_spread_bps and spread_per_volatility.
+ * Ladder shape (spacing, decay, levels) is kept from the heuristic: a
+ * recording's 20 tick-sized levels say little about a 10-level ladder.
+ */
+export function calibrateDepthModel(ticks: NormalizedMarketTick[], name: string): DepthModel {
+  const depthSamples:  { x: number; y: number }[] = [];
+  const spreadSamples: { x: number; y: number }[] = [];
+  const fallingBidShares: number[] = [];
+
+  let windowVolume = 0;
+  for (let i = 0; i < ticks.length; i++) {
+    const t = ticks[i];
+    windowVolume += t.trades.buy_volume + t.trades.sell_volume;
+    if (i >= CALIBRATION_WINDOW_TICKS) {
+      const old = ticks[i - CALIBRATION_WINDOW_TICKS].trades;
+      windowVolume -= old.buy_volume + old.sell_volume;
+    }
+    if (i < CALIBRATION_WINDOW_TICKS || i % CALIBRATION_STRIDE !== 0) continue;
+
+    const span   = ticks.slice(i - CALIBRATION_WINDOW_TICKS + 1, i + 1);
+    const open   = span[0].price;
+    let high = -Infinity, low = Infinity;
+    for (const w of span) { high = Math.max(high, w.price); low = Math.min(low, w.price); }
+    const volatility = safe((high - low) / t.price, NaN);
+    const volumePerSec = windowVolume / 60;
+    if (!isFinite(volatility) || !(volumePerSec > 0) || !(t.total_depth > 0)) continue;
+
+    // Both side factors apply at once, so their sum is what scales total depth
+    const sideSum = open === t.price ? 2 * HEURISTIC_PARAMS.rising_side_factor
+                  : HEURISTIC_PARAMS.falling_side_factor + HEURISTIC_PARAMS.rising_side_factor;
+    depthSamples.push({ x: volatility, y: t.total_depth / (volumePerSec * sideSum) });
+    if (isFinite(t.spread_bps) && t.spread_bps > 0) spreadSamples.push({ x: Math.min(volatility, 0.5), y: t.spread_bps });
+
+    if (open > t.price) {
+      const bid = t.bids.reduce((s, [, q]) => s + q, 0);
+      const ask = t.asks.reduce((s, [, q]) => s + q, 0);
+      if (bid + ask > 0) fallingBidShares.push(bid / (bid + ask));
+    }
+  }
+
+  if (depthSamples.length < MIN_CALIBRATION_SAMPLES) {
+    throw new Error(`Need at least ${MIN_CALIBRATION_SAMPLES} one-second samples (about ${Math.ceil((MIN_CALIBRATION_SAMPLES + 60) / 60)} minutes of recording); got ${depthSamples.length}.`);
+  }
+
+  const depthFit  = fitLine(bucketMedians(depthSamples));
+  const spreadFit = spreadSamples.length >= MIN_CALIBRATION_SAMPLES ? fitLine(bucketMedians(spreadSamples)) : null;
+  const depthPerVolume = Math.max(0.01, depthFit.intercept);
+  const sideTotal      = HEURISTIC_PARAMS.falling_side_factor + HEURISTIC_PARAMS.rising_side_factor;
+  const fallingShare   = fallingBidShares.length >= 30 ? median(fallingBidShares) : HEURISTIC_PARAMS.falling_side_factor / sideTotal;
+
+  const params: DepthModelParams = {
+    ...HEURISTIC_PARAMS,
+    depth_per_volume:      depthPerVolume,
+    // Thinning can't be negative: a book that deepens with volatility is
+    // treated as not thinning at all
+    volatility_thinning:   Math.max(0, -depthFit.slope / depthPerVolume),
+    falling_side_factor:   sideTotal * fallingShare,
+    rising_side_factor:    sideTotal * (1 - fallingShare),
+    base_spread_bps:       spreadFit ? Math.max(0.1, spreadFit.intercept) : HEURISTIC_PARAMS.base_spread_bps,
+    spread_per_volatility: spreadFit ? Math.max(0, spreadFit.slope) : HEURISTIC_PARAMS.spread_per_volatility
+  };
+
+  return new ParametricDepthModel(
+    `calibrated:${name}`,
+    `Calibrated · ${name}`,
+    `Fitted to ${depthSamples.length.toLocaleString()} one-second samples of a recorded ${ticks[0].symbol} session.`,
+    params
+  );
+}
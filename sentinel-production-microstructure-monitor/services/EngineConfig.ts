@@ -0,0 +1,235 @@
+import { SIGNAL_REGISTRY } from './SignalRegistry';
+
+/**
+ * The tunable numbers behind the stress score. AnalyticsEngine takes one at
+ * construction (and setEngineConfig() while running); DEFAULT_ENGINE_CONFIG
+ * reproduces the hand-tuned values the engine shipped with, so an engine
+ * built without one behaves as before.
+ */
+export interface EngineConfig {
+  name:             string;
+  // Bumped each time a preset of this name is saved
+  version:          number;
+  // Base weights by signal id, normalized each tick over the signals that
+  // have input
+  weights:          Record<string, number>;
+  // A signal is "triggered" (counts toward the causal sequence, pattern
+  // labels and, if weighted, the shock table) when its 0–100 value exceeds this
+  triggers:         Record<string, number>;
+  // Multiplier by number of triggered signals; the last entry is the cap
+  shock_table:      number[];
+  // Stress EMA: fast attack when the target rises, slow decay when it falls
+  stress_alpha_up:   number;
+  stress_alpha_down: number;
+  // Sell-ratio EMA behind the Flow signal
+  flow_alpha_up:     number;
+  flow_alpha_down:   number;
+  // Lower bounds of ELEVATED, STRESSED, UNSTABLE and CRITICAL. Crossing above
+  // the UNSTABLE bound is what fires a critical event.
+  level_boundaries: [number, number, number, number];
+  // Rolling windows, in samples (ticks, except open interest: one per poll)
+  buffers:          EngineBuffers;
+  // Minimum gap between escalation events; threshold crossings always fire
+  event_cooldown_ms: number;
+  // A tick gap longer than this resets the Flow EMA to neutral
+  flow_reset_gap_ms: number;
+}
+
+export interface EngineBuffers {
+  liquidity:     number; // p90 depth anchor
+  price:         number; // volatility baseline
+  venue:         number; // cross-venue p90 bands
+  liquidation:   number; // rolling long-liquidation sum
+  open_interest: number; // p10 open-interest baseline
+  order_flow:    number; // summed top-of-book OFI window
+  spread:        number; // p50 effective-spread baseline
+  impact:        number; // traded ticks in the λ regression
+  vpin:          number; // volume buckets per VPIN reading
+  hawkes:        number; // 1s arrival bins in the branching-ratio fit
+  resiliency:    number; // timed depth recoveries in the half-life baseline
+}
+
+export const DEFAULT_ENGINE_CONFIG: EngineConfig = {
+  name:    'Default',
+  version: 1,
+  // Each signal plugin carries its own defaults
+  weights:  Object.fromEntries(SIGNAL_REGISTRY.map(p => [p.id, p.weight])),
+  triggers: Object.fromEntries(SIGNAL_REGISTRY.map(p => [p.id, p.trigger])),
+  shock_table:       [1.00, 1.00, 1.15, 1.35, 1.60],
+  stress_alpha_up:   0.35,
+  stress_alpha_down: 0.15,
+  flow_alpha_up:     0.25,
+  flow_alpha_down:   0.08,
+  level_boundaries:  [20, 40, 60, 80],
+  buffers: {
+    liquidity:     600,
+    price:         300,
+    venue:         600,
+    liquidation:   100,
+    open_interest: 360,
+    order_flow:    50,
+    spread:        600,
+    impact:        300,
+    vpin:          50,
+    hawkes:        300,
+    resiliency:    50
+  },
+  event_cooldown_ms: 60_000,
+  flow_reset_gap_ms: 5_000
+};
+
+export const BUFFER_LABELS: Record<keyof EngineBuffers, string> = {
+  liquidity:     'Liquidity anchor',
+  price:         'Volatility window',
+  venue:         'Venue bands',
+  liquidation:   'Liquidation sum',
+  open_interest: 'OI baseline (polls)',
+  order_flow:    'OFI window',
+  spread:        'Spread baseline',
+  impact:        'Impact regression',
+  vpin:          'VPIN buckets',
+  hawkes:        'Hawkes bins (1s)',
+  resiliency:    'Resiliency episodes'
+};
+
+// Buffers are sorted or scanned every tick; past this a tab starts to lag
+const MAX_BUFFER = 20_000;
+// The volatility signal needs 20 prices before it scores at all
+const MIN_PRICE_BUFFER = 20;
+
+/**
+ * Every reason the config can't run, as readable messages — empty when it
+ * is valid. The settings panel lists these; loading throws on the first set.
+ */
+export function validateEngineConfig(c: EngineConfig): string[] {
+  const problems: string[] = [];
+  const signals = SIGNAL_REGISTRY.map(p => p.id);
+
+  if (!c.name.trim()) problems.push('Name is empty');
+  if (!Number.isInteger(c.version) || c.version < 1) problems.push('Version must be a whole number ≥ 1');
+
+  signals.forEach(s => {
+    if (!(c.weights[s] >= 0)) problems.push(`${s} weight must be ≥ 0`);
+    if (!(c.triggers[s] >= 0 && c.triggers[s] <= 100)) problems.push(`${s} trigger must be 0–100`);
+  });
+  if (!signals.some(s => c.weights[s] > 0)) problems.push('At least one weight must be above 0');
+
+  if (c.shock_table.length === 0) problems.push('Shock table needs at least one entry');
+  c.shock_table.forEach((v, i) => {
+    if (!(v > 0)) problems.push(`Shock table [${i}] must be above 0`);
+    if (i > 0 && v < c.shock_table[i - 1]) problems.push(`Shock table [${i}] is below [${i - 1}] — more aligned signals can't shock less`);
+  });
+
+  ([
+    ['Stress α up',   c.stress_alpha_up],
+    ['Stress α down', c.stress_alpha_down],
+    ['Flow α up',     c.flow_alpha_up],
+    ['Flow α down',   c.flow_alpha_down]
+  ] as [string, number][]).forEach(([label, v]) => {
+    if (!(v > 0 && v <= 1)) problems.push(`${label} must be in (0, 1]`);
+  });
+
+  const bounds = c.level_boundaries;
+  if (bounds.length !== 4) problems.push('Level boundaries need exactly 4 values');
+  else if (!(bounds[0] > 0 && bounds[0] < bounds[1] && bounds[1] < bounds[2] && bounds[2] < bounds[3] && bounds[3] <= 100)) {
+    problems.push('Level boundaries must rise strictly within (0, 100]');
+  }
+
+  (Object.keys(DEFAULT_ENGINE_CONFIG.buffers) as (keyof EngineBuffers)[]).forEach(key => {
+    const v = c.buffers[key];
+    if (!Number.isInteger(v) || v < 1 || v > MAX_BUFFER) problems.push(`${BUFFER_LABELS[key]} buffer must be a whole number 1–${MAX_BUFFER.toLocaleString()}`);
+  });
+  if (c.buffers.price < MIN_PRICE_BUFFER) problems.push(`Volatility window needs at least ${MIN_PRICE_BUFFER} ticks`);
+
+  if (!(c.event_cooldown_ms >= 0)) problems.push('Event cooldown must be ≥ 0 ms');
+  if (!(c.flow_reset_gap_ms > 0)) problems.push('Flow reset gap must be above 0 ms');
+
+  return problems;
+}
+
+/**
+ * Reads a config file — exported by the sweep tool or the settings panel, or
+ * written by hand. Missing fields take their defaults, so a file may
+ * override only what it tunes; the merged result must validate.
+ */
+export function parseEngineConfig(text: string): EngineConfig {
+  let raw: Partial<EngineConfig>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Engine config is not valid JSON');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('Engine config must be a JSON object');
+
+  const number = (value: unknown, field: string): number => {
+    if (typeof value !== 'number' || !isFinite(value)) throw new Error(`Engine config: ${field} must be a number`);
+    return value;
+  };
+  const section = <K extends string>(value: unknown, defaults: Record<K, number>, field: string): Record<K, number> => {
+    const out = { ...defaults };
+    if (value === undefined) return out;
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new Error(`Engine config: ${field} must be an object`);
+    Object.entries(value).forEach(([key, v]) => {
+      if (!(key in defaults)) throw new Error(`Engine config: unknown key "${key}" in ${field}`);
+      out[key as K] = number(v, `${field}.${key}`);
+    });
+    return out;
+  };
+  const list = (value: unknown, fallback: number[], field: string): number[] => {
+    if (value === undefined) return [...fallback];
+    if (!Array.isArray(value)) throw new Error(`Engine config: ${field} must be an array`);
+    return value.map((v, i) => number(v, `${field}[${i}]`));
+  };
+  const scalar = (key: 'version' | 'stress_alpha_up' | 'stress_alpha_down' | 'flow_alpha_up' | 'flow_alpha_down' | 'event_cooldown_ms' | 'flow_reset_gap_ms') =>
+    raw[key] === undefined ? DEFAULT_ENGINE_CONFIG[key] : number(raw[key], key);
+
+  const d = DEFAULT_ENGINE_CONFIG;
+  const config: EngineConfig = {
+    name:              typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Imported',
+    version:           scalar('version'),
+    weights:           section(raw.weights, d.weights, 'weights'),
+    triggers:          section(raw.triggers, d.triggers, 'triggers'),
+    shock_table:       list(raw.shock_table, d.shock_table, 'shock_table'),
+    stress_alpha_up:   scalar('stress_alpha_up'),
+    stress_alpha_down: scalar('stress_alpha_down'),
+    flow_alpha_up:     scalar('flow_alpha_up'),
+    flow_alpha_down:   scalar('flow_alpha_down'),
+    level_boundaries:  list(raw.level_boundaries, d.level_boundaries, 'level_boundaries') as EngineConfig['level_boundaries'],
+    buffers:           section(raw.buffers, d.buffers, 'buffers'),
+    event_cooldown_ms: scalar('event_cooldown_ms'),
+    flow_reset_gap_ms: scalar('flow_reset_gap_ms')
+  };
+
+  const problems = validateEngineConfig(config);
+  if (problems.length > 0) throw new Error(`Engine config: ${problems.join('; ')}`);
+  return config;
+}
+
+/**
+ * Short hash of every tunable value (name and version excluded). Two configs
+ * with the same fingerprint score identically, so an audit can tell an
+ * edited-but-unsaved config from the preset it started as.
+ */
+export function configFingerprint(c: EngineConfig): string {
+  const { name: _name, version: _version, ...values } = c;
+  // FNV-1a over a key-sorted serialisation
+  const text = JSON.stringify(values, Object.keys(values).concat(
+    Object.keys(c.weights), Object.keys(c.buffers)
+  ).sort());
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash  = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export function downloadEngineConfig(config: EngineConfig): void {
+  const slug = config.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'config';
+  const url  = URL.createObjectURL(new Blob([JSON.stringify(config, null, 2) + '\n'], { type: 'application/json' }));
+  const a    = document.createElement('a');
+  a.href     = url;
+  a.download = `sentinel-engine-${slug}-v${config.version}.json`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
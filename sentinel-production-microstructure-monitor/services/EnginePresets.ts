@@ -0,0 +1,79 @@
+import { EngineConfig, DEFAULT_ENGINE_CONFIG, parseEngineConfig } from './EngineConfig';
+
+// Saved presets, every version of every name, plus the config last applied.
+// Small JSON documents, so localStorage rather than the IndexedDB store the
+// kline cache needs.
+const PRESETS_KEY = 'sentinel-engine-presets';
+const ACTIVE_KEY  = 'sentinel-engine-active';
+
+export interface EnginePreset {
+  config:   EngineConfig;
+  saved_at: number;
+}
+
+const storage = (): Storage | null => {
+  try {
+    return typeof localStorage !== 'undefined' ? localStorage : null;
+  } catch {
+    return null; // blocked (private mode, sandboxed iframe)
+  }
+};
+
+// Newest first. Entries that no longer validate (older schema, hand edits)
+// are dropped rather than failing the whole list.
+export function listPresets(): EnginePreset[] {
+  const raw = storage()?.getItem(PRESETS_KEY);
+  if (!raw) return [];
+  let entries: { config: unknown; saved_at: number }[];
+  try {
+    entries = JSON.parse(raw);
+  } catch {
+    console.warn('[Presets] Stored presets are unreadable; ignoring them.');
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+  const presets: EnginePreset[] = [];
+  entries.forEach(e => {
+    try {
+      presets.push({ config: parseEngineConfig(JSON.stringify(e.config)), saved_at: Number(e.saved_at) || 0 });
+    } catch (err) {
+      console.warn('[Presets] Skipping invalid preset:', err);
+    }
+  });
+  return presets.sort((a, b) => b.saved_at - a.saved_at);
+}
+
+/**
+ * Saves the config under `name` as that name's next version and returns the
+ * saved copy. Earlier versions are kept, so a preset's history can be
+ * reloaded and compared.
+ */
+export function savePreset(config: EngineConfig, name: string): EngineConfig {
+  const presets = listPresets();
+  const version = presets.filter(p => p.config.name === name).reduce((v, p) => Math.max(v, p.config.version), 0) + 1;
+  const saved   = { ...config, name, version };
+  presets.unshift({ config: saved, saved_at: Date.now() });
+  storage()?.setItem(PRESETS_KEY, JSON.stringify(presets));
+  return saved;
+}
+
+export function deletePreset(name: string, version: number): void {
+  const presets = listPresets().filter(p => !(p.config.name === name && p.config.version === version));
+  storage()?.setItem(PRESETS_KEY, JSON.stringify(presets));
+}
+
+// The config applied in the last session, or the default
+export function loadActiveConfig(): EngineConfig {
+  const raw = storage()?.getItem(ACTIVE_KEY);
+  if (!raw) return DEFAULT_ENGINE_CONFIG;
+  try {
+    return parseEngineConfig(raw);
+  } catch (err) {
+    console.warn('[Presets] Last applied config is invalid; using the default.', err);
+    return DEFAULT_ENGINE_CONFIG;
+  }
+}
+
+export function storeActiveConfig(config: EngineConfig): void {
+  storage()?.setItem(ACTIVE_KEY, JSON.stringify(config));
+}
@@ -0,0 +1,328 @@
+import { Liquidation, NormalizedMarketTick, PerpMetrics, StreamStatus, SymbolConfig, Trade, Venue } from '../types';
+import { LocalOrderBook } from './OrderBook';
+import { ManagedSocket, ManagedSocketOptions } from './ManagedSocket';
+import { logInfo, logWarn } from './Log';
+
+// Levels per side exposed on NormalizedMarketTick.bids/asks (and summed into
+// total_depth). Venues whose snapshots hold fewer levels expose what they have.
+export const DEFAULT_DEPTH_LEVELS = 100;
+// Effective spread stays a top-20 VWAP so spread_bps keeps its meaning
+// regardless of how deep the exposed book goes.
+const VWAP_LEVELS = 20;
+
+// The contract every live venue implements. Everything downstream of a feed
+// (AnalyticsEngine, App) sees only NormalizedMarketTick — never venue formats.
+export interface FeedAdapter {
+  readonly venue:  Venue;
+  readonly config: SymbolConfig;
+  start(): Promise<void>;
+  stop(): void;
+  // Parses one raw WebSocket frame into adapter state. Public so adapters can
+  // be driven from recorded message fixtures with no network.
+  handleMessage(raw: string): void;
+  // Assembles a tick from current state, or null until book and trades exist.
+  // Does not clear the per-tick trade accumulator — emit does that.
+  buildTick(): NormalizedMarketTick | null;
+  // Connection-state events, one per socket state change. Returns unsubscribe.
+  onStatus(listener: (status: StreamStatus) => void): () => void;
+  getStatuses(): StreamStatus[];
+  // Reopens every stream that exhausted its retries (FAILED); others are left alone
+  retryFailed(): void;
+  // Frames handleMessage dropped because they were not JSON
+  getDroppedFrames(): number;
+}
+
+/**
+ * Shared venue-independent machinery: trade accumulation, dynamic block
+ * threshold, VWAP spread, staleness detection and the 100ms emit loop.
+ * Subclasses only open sockets and translate venue messages into
+ * recordTrade / book mutations / markDepthUpdate / setVolume24h.
+ */
+export abstract class BaseFeedAdapter implements FeedAdapter {
+  abstract readonly venue: Venue;
+  readonly config: SymbolConfig;
+
+  protected book = new LocalOrderBook();
+  protected readonly depthLevels: number;
+  protected clockOffset = 0; // Difference between venue server time and local time
+  // Adapters that subscribe to a liquidation stream set this, so their ticks
+  // carry tick.liquidations (zeros included) instead of omitting it.
+  protected readonly publishesLiquidations: boolean = false;
+
+  private lastPrice = 0;
+  private volume24h = 0;
+  private recentTrades: Trade[] = [];
+  private recentLiquidations: Liquidation[] = [];
+  private perp: PerpMetrics | null = null;
+  // Dynamic large-trade threshold — adapts to actual trade-size distribution.
+  // Recalculated each tick as the 90th percentile of recent trade sizes.
+  // At BTC=$95k: typical trades are 0.01-0.1 BTC; genuine blocks are 0.5-5 BTC.
+  // Fixed 0.5 BTC threshold was calibrated at an older, lower BTC price.
+  // With a dynamic threshold, "large" always means top-10% of current activity.
+  // The floor comes from SymbolConfig.min_block_qty so alts use their own units.
+  private tradeSizeHistory: number[] = []; // rolling 200-trade window
+  // FIX [E]: Staleness detection. Book and trade streams update independently.
+  // During flash crashes or high load, depth updates can lag behind the trade
+  // stream. We track last update time for each separately so buildTick can
+  // flag stale data_quality honestly.
+  private lastDepthUpdateMs  = 0;
+  private lastTradeUpdateMs  = 0;
+
+  private lastExchangeTime = 0;
+  private lastReceivedTime = 0;
+  private droppedFrames    = 0;
+
+  private onTickCallback: (tick: NormalizedMarketTick) => void;
+  protected intervalId: any = null;
+
+  private sockets         = new Map<string, ManagedSocket>();
+  private statuses        = new Map<string, StreamStatus>();
+  private statusListeners = new Set<(status: StreamStatus) => void>();
+
+  constructor(
+    config: SymbolConfig,
+    onTick: (tick: NormalizedMarketTick) => void,
+    depthLevels = DEFAULT_DEPTH_LEVELS
+  ) {
+    this.config         = config;
+    this.onTickCallback = onTick;
+    this.depthLevels    = Math.max(1, depthLevels);
+  }
+
+  abstract handleMessage(raw: string): void;
+  protected abstract connect(): void;
+
+  protected disconnect(): void {
+    this.sockets.forEach(socket => socket.close());
+    this.sockets.clear();
+  }
+
+  // Venues without a server-time endpoint keep offset 0 (local clock).
+  protected async syncClock(): Promise<void> {}
+
+  async start(): Promise<void> {
+    logInfo(`[${this.venue}] Initializing High-Speed Pipeline for ${this.config.symbol}...`);
+
+    // Perform clock sync before starting streams
+    await this.syncClock();
+
+    this.connect();
+
+    if (this.intervalId) clearInterval(this.intervalId);
+
+    // Increased frequency from 1000ms to 100ms for institutional-grade responsiveness
+    this.intervalId = setInterval(() => {
+      this.emitTick();
+    }, 100);
+  }
+
+  stop(): void {
+    logInfo(`[${this.venue}] Stopping ${this.config.symbol} Live Feed...`);
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+    this.tradeSizeHistory  = [];
+    this.recentTrades      = [];
+    this.recentLiquidations = [];
+    this.perp              = null;
+    this.book.reset();
+    this.lastDepthUpdateMs = 0;
+    this.lastTradeUpdateMs = 0;
+    this.disconnect();
+  }
+
+  // ── Connection state ───────────────────────────────────────────────────────
+
+  onStatus(listener: (status: StreamStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    this.statuses.forEach(status => listener(status));
+    return () => { this.statusListeners.delete(listener); };
+  }
+
+  getStatuses(): StreamStatus[] {
+    return [...this.statuses.values()];
+  }
+
+  retryFailed(): void {
+    this.sockets.forEach(socket => {
+      if (socket.getState() === 'FAILED') socket.restart();
+    });
+  }
+
+  // Opens a named socket with backoff, heartbeat and state reporting.
+  // stream names only need to be unique within one adapter.
+  protected openStream(stream: string, opts: Omit<ManagedSocketOptions, 'onState'>): ManagedSocket {
+    this.sockets.get(stream)?.close();
+    const id = `${this.venue}:${this.config.symbol}:${stream}`;
+    const socket = new ManagedSocket({
+      ...opts,
+      onState: (state, attempt, retryInMs) => {
+        const status: StreamStatus = {
+          id, venue: this.venue, symbol: this.config.symbol, stream,
+          state, attempt, retry_in_ms: retryInMs, updated_at: Date.now()
+        };
+        this.statuses.set(id, status);
+        this.statusListeners.forEach(listener => listener(status));
+      }
+    });
+    this.sockets.set(stream, socket);
+    socket.open();
+    return socket;
+  }
+
+  getDroppedFrames(): number {
+    return this.droppedFrames;
+  }
+
+  // ── Subclass hooks ─────────────────────────────────────────────────────────
+
+  // JSON.parse for handleMessage. A truncated or garbled frame is counted and
+  // dropped (null) rather than thrown out of the socket handler.
+  protected parseFrame(raw: string): any | null {
+    try {
+      return JSON.parse(raw);
+    } catch {
+      this.droppedFrames++;
+      if (this.droppedFrames === 1 || this.droppedFrames % 100 === 0) {
+        logWarn(`[${this.venue}] ${this.config.symbol} dropped unparseable frame (${this.droppedFrames} so far): ${raw.slice(0, 80)}`);
+      }
+      return null;
+    }
+  }
+
+  protected recordTrade(trade: Trade, eventTime?: number): void {
+    this.lastExchangeTime  = eventTime ?? trade.timestamp;
+    this.lastReceivedTime  = Date.now();
+    this.lastPrice         = trade.price;
+    this.recentTrades.push(trade);
+    this.lastTradeUpdateMs = Date.now(); // FIX [E]
+
+    // Prevent memory overflow on extreme volatility
+    if (this.recentTrades.length > 5000) this.recentTrades.splice(0, 1000);
+  }
+
+  protected recordLiquidation(liquidation: Liquidation): void {
+    this.recentLiquidations.push(liquidation);
+  }
+
+  // Merges a partial update (mark/funding or open interest) into perp state.
+  // Ticks carry perp only once a mark price has arrived.
+  protected updatePerp(update: Partial<PerpMetrics>): void {
+    this.perp = {
+      mark_price: 0, index_price: 0, funding_rate: 0, next_funding_time: 0,
+      open_interest: 0, open_interest_timestamp: 0,
+      ...this.perp,
+      ...update
+    };
+  }
+
+  // FIX [E]: stamp every real depth update
+  protected markDepthUpdate(): void {
+    this.lastDepthUpdateMs = Date.now();
+  }
+
+  protected setVolume24h(volume: number): void {
+    if (isFinite(volume)) this.volume24h = volume;
+  }
+
+  // ── Tick assembly ──────────────────────────────────────────────────────────
+
+  buildTick(): NormalizedMarketTick | null {
+    const bids = this.book.getBids(this.depthLevels);
+    const asks = this.book.getAsks(this.depthLevels);
+    if (this.lastPrice === 0 || !this.book.isSynced() || bids.length === 0 || asks.length === 0) {
+      return null;
+    }
+
+    const buyTrades  = this.recentTrades.filter(t => t.side === 'buy');
+    const sellTrades = this.recentTrades.filter(t => t.side === 'sell');
+
+    // Dynamic large-trade threshold: 90th percentile of recent trade sizes.
+    // Falls back to min_block_qty (0.5 BTC) so signal doesn't trigger on micro-trades
+    // during low-activity sessions when the 90th pct might be tiny.
+    const minBlock   = this.config.min_block_qty;
+    const sizeWindow = this.rollingTradeSizes();
+    const largeThreshold = (() => {
+      if (sizeWindow.length < 10) return minBlock;
+      const sorted  = [...sizeWindow].sort((a, b) => a - b);
+      const p90idx  = Math.floor(sorted.length * 0.90);
+      const p90     = sorted[p90idx] ?? minBlock;
+      // Ensure threshold is meaningful: at least min_block_qty so we only catch real blocks
+      return Math.max(minBlock, p90);
+    })();
+
+    const calculateVWAP = (levels: [number, number][]) => {
+      let valueSum = 0;
+      let weightSum = 0;
+      for (const [p, q] of levels) {
+        valueSum += p * q;
+        weightSum += q;
+      }
+      return weightSum > 0 ? valueSum / weightSum : 0;
+    };
+
+    const bidVWAP = calculateVWAP(bids.slice(0, VWAP_LEVELS)) || bids[0][0];
+    const askVWAP = calculateVWAP(asks.slice(0, VWAP_LEVELS)) || asks[0][0];
+
+    const effectiveSpread = askVWAP - bidVWAP;
+    const midPrice = (bids[0][0] + asks[0][0]) / 2;
+    const spreadBps = (effectiveSpread / midPrice) * 10000;
+
+    return {
+      symbol: this.config.symbol,
+      venue:  this.venue,
+      exchange_timestamp: this.lastExchangeTime,
+      // Apply clock offset to local arrival time for accurate latency calculation
+      received_timestamp: this.lastReceivedTime + this.clockOffset,
+      processing_timestamp: Date.now() + this.clockOffset,
+      price: this.lastPrice,
+      volume_24h: this.volume24h,
+      bids,
+      asks,
+      trades: {
+        buy_volume: buyTrades.reduce((s, t) => s + t.quantity, 0),
+        sell_volume: sellTrades.reduce((s, t) => s + t.quantity, 0),
+        buy_count: buyTrades.length,
+        sell_count: sellTrades.length,
+        large_trades: this.recentTrades.filter(t => t.quantity >= largeThreshold)
+      },
+      mid_price: midPrice,
+      spread: asks[0][0] - bids[0][0],
+      spread_bps: spreadBps,
+      total_depth: bids.reduce((s, b) => s + b[1], 0) + asks.reduce((s, a) => s + a[1], 0),
+      is_valid: true,
+      liquidations: this.publishesLiquidations ? {
+        sell_volume: this.recentLiquidations.filter(l => l.side === 'sell').reduce((s, l) => s + l.quantity, 0),
+        buy_volume:  this.recentLiquidations.filter(l => l.side === 'buy').reduce((s, l) => s + l.quantity, 0),
+        orders:      [...this.recentLiquidations]
+      } : undefined,
+      perp: this.perp && this.perp.mark_price > 0 ? { ...this.perp } : undefined,
+      // FIX [E]: Detect staleness honestly instead of hardcoding 'GOOD'.
+      // STALE: depth not refreshed in 2s (venue high-load lag).
+      // DEGRADED: trade stream silent 3s+ (unusual — possible feed issue).
+      // GOOD: both streams recently updated.
+      data_quality: (() => {
+        const now = Date.now();
+        if (this.lastDepthUpdateMs > 0 && (now - this.lastDepthUpdateMs) > 2_000) return 'STALE';
+        if (this.lastTradeUpdateMs > 0 && (now - this.lastTradeUpdateMs) > 3_000) return 'DEGRADED';
+        return 'GOOD';
+      })() as 'GOOD' | 'DEGRADED' | 'STALE'
+    };
+  }
+
+  // Rolling trade size history including this tick's trades (last 200 for percentile calc)
+  private rollingTradeSizes(): number[] {
+    return [...this.tradeSizeHistory, ...this.recentTrades.map(t => t.quantity)].slice(-200);
+  }
+
+  private emitTick(): void {
+    const tick = this.buildTick();
+    if (!tick) return;
+
+    this.tradeSizeHistory = this.rollingTradeSizes();
+    this.onTickCallback(tick);
+    this.recentTrades       = [];
+    this.recentLiquidations = [];
+  }
+}
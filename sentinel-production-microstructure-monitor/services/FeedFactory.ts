@@ -0,0 +1,24 @@
+import { NormalizedMarketTick, SymbolConfig, Venue } from '../types';
+import { FeedAdapter, DEFAULT_DEPTH_LEVELS } from './FeedAdapter';
+import { BinanceService }  from './BinanceService';
+import { CoinbaseService } from './CoinbaseService';
+import { KrakenService }   from './KrakenService';
+import { OKXService }      from './OKXService';
+import { BybitService }    from './BybitService';
+
+// Single place that maps a Venue to its adapter. App and anything else that
+// needs a live feed goes through here rather than importing adapters directly.
+export const createFeedAdapter = (
+  venue:  Venue,
+  config: SymbolConfig,
+  onTick: (tick: NormalizedMarketTick) => void,
+  depthLevels = DEFAULT_DEPTH_LEVELS
+): FeedAdapter => {
+  switch (venue) {
+    case Venue.BINANCE:  return new BinanceService(config, onTick, depthLevels);
+    case Venue.COINBASE: return new CoinbaseService(config, onTick, depthLevels);
+    case Venue.KRAKEN:   return new KrakenService(config, onTick, depthLevels);
+    case Venue.OKX:      return new OKXService(config, onTick, depthLevels);
+    case Venue.BYBIT:    return new BybitService(config, onTick, depthLevels);
+  }
+};
@@ -1,4 +1,9 @@
-import { NormalizedMarketTick } from '../types';
+import { ImportRowError, NormalizedMarketTick, SymbolConfig, Venue } from '../types';
+import { DEFAULT_SYMBOL, SYMBOLS } from '../constants';
+import { CrashScenario } from './ScenarioCatalogue';
+import { CachedSegment, CachedSegmentInfo, HistoryCache } from './HistoryCache';
+import { DepthModel, HEURISTIC_DEPTH_MODEL } from './DepthModel';
+import { logInfo } from './Log';
 
 export interface HistoricalDataPoint {
   timestamp:    number;
@@ -9,66 +14,146 @@ export interface HistoricalDataPoint {
   volume:       number;
   buy_volume:   number;
   sell_volume:  number;
-  bid_depth:    number;
-  ask_depth:    number;
 }
 
+// Binance kline intervals offered for replay, with their length in ms
+export const KLINE_INTERVALS = {
+  '1s':  1_000,
+  '1m':  60_000,
+  '5m':  300_000,
+  '15m': 900_000,
+  '1h':  3_600_000,
+  '4h':  14_400_000,
+  '1d':  86_400_000,
+} as const;
+export type KlineInterval = keyof typeof KLINE_INTERVALS;
+
+export interface HistoricalRange {
+  symbol:    string;
+  interval:  KlineInterval;
+  startTime: number; // ms, inclusive (kline open time)
+  endTime:   number; // ms, inclusive
+}
+
+// Black Thursday, 11–13 March 2020 — the original replay window
+export const COVID_CRASH_RANGE: HistoricalRange = {
+  symbol: 'BTCUSDT', interval: '1m', startTime: 1583884800000, endTime: 1584143999000
+};
+
+export interface KlineImport {
+  range:   HistoricalRange;
+  points:  HistoricalDataPoint[];
+  skipped: number;
+  // First MAX_REPORTED_ROW_ERRORS rejected rows, for the import report
+  errors:  ImportRowError[];
+}
+
+// Above this the browser spends longer parsing than the replay is worth —
+// ~35 days of 1m candles. Longer windows should use a coarser interval.
+const MAX_HISTORY_POINTS = 50_000;
+const KLINES_PAGE_LIMIT  = 1000;
+export const MAX_REPORTED_ROW_ERRORS = 20;
+
 // Safe number helper — replaces NaN/Infinity with fallback
 const safe = (val: number, fallback = 0): number =>
   isFinite(val) && !isNaN(val) ? val : fallback;
 
+// Parts of [startTime, endTime] no cached segment covers. Segments are
+// disjoint and sorted, as HistoryCache.overlapping returns them.
+function missingRanges(startTime: number, endTime: number, segments: CachedSegment[]): { startTime: number; endTime: number }[] {
+  const gaps: { startTime: number; endTime: number }[] = [];
+  let cursor = startTime;
+  for (const seg of segments) {
+    if (seg.startTime > cursor) gaps.push({ startTime: cursor, endTime: Math.min(seg.startTime - 1, endTime) });
+    cursor = Math.max(cursor, seg.endTime + 1);
+    if (cursor > endTime) break;
+  }
+  if (cursor <= endTime) gaps.push({ startTime: cursor, endTime });
+  return gaps;
+}
+
+// Kline estimates were tuned on 1m candles. Per-candle quantities are
+// rescaled to a per-minute basis and candle range to a 1m-equivalent
+// (√time) so depth, spread and blocks keep their meaning at any interval.
 export class HistoricalDataLoader {
-  private readonly symbol    = 'BTCUSDT';
-  private readonly interval  = '1m';
-  private readonly startTime = 1583884800000;
-  private readonly endTime   = 1584143999000;
-  private cachedPoints: HistoricalDataPoint[] | null = null;
+  // The range convertToTick describes — set by the last successful load()
+  private range: HistoricalRange  = COVID_CRASH_RANGE;
+  private config: SymbolConfig    = DEFAULT_SYMBOL;
+  // Session memo of exact ranges (fetched or imported), in front of the
+  // persistent store of fetched segments
+  private cache = new Map<string, HistoricalDataPoint[]>();
+  private store = new HistoryCache();
+  // Synthesises each replayed tick's book; points themselves carry no depth
+  private depthModel: DepthModel = HEURISTIC_DEPTH_MODEL;
+
+  getRange(): HistoricalRange { return this.range; }
+  getIntervalMs(): number { return KLINE_INTERVALS[this.range.interval]; }
+  getDepthModel(): DepthModel { return this.depthModel; }
+  setDepthModel(model: DepthModel): void { this.depthModel = model; }
 
   async loadCovidCrash(): Promise<HistoricalDataPoint[]> {
-    if (this.cachedPoints) {
-      console.log('[Historical] Returning cached COVID Crash data.');
-      return this.cachedPoints;
+    return this.load(COVID_CRASH_RANGE);
+  }
+
+  // Scenarios are ranges with metadata; the window is all the loader needs
+  async loadScenario(scenario: CrashScenario): Promise<HistoricalDataPoint[]> {
+    logInfo(`[Historical] Loading scenario "${scenario.name}".`);
+    return this.load(scenario);
+  }
+
+  async load(range: HistoricalRange): Promise<HistoricalDataPoint[]> {
+    const intervalMs = KLINE_INTERVALS[range.interval];
+    if (!intervalMs) throw new Error(`Unsupported interval ${range.interval}`);
+    if (!(range.endTime > range.startTime)) throw new Error('End time must be after start time');
+    const expected = Math.ceil((range.endTime - range.startTime + 1) / intervalMs);
+    if (expected > MAX_HISTORY_POINTS) {
+      throw new Error(`Range spans ${expected.toLocaleString()} ${range.interval} candles (max ${MAX_HISTORY_POINTS.toLocaleString()}) — choose a coarser interval`);
     }
 
-    console.log('[Historical] Fetching COVID Crash data from Binance...');
-    let allKlines: any[]    = [];
-    let currentStart         = this.startTime;
+    const key = `${range.symbol}:${range.interval}:${range.startTime}:${range.endTime}`;
+    const cached = this.cache.get(key);
+    if (cached) {
+      logInfo(`[Historical] Returning cached ${key}.`);
+      this.activate(range);
+      return cached;
+    }
 
     try {
-      while (currentStart < this.endTime) {
-        const response = await fetch(
-          `https://api.binance.com/api/v3/klines?symbol=${this.symbol}&interval=${this.interval}&startTime=${currentStart}&limit=1000`
-        );
-        if (!response.ok) throw new Error('Failed to fetch historical data');
-        const data = await response.json();
-        if (data.length === 0) break;
-        allKlines    = [...allKlines, ...data];
-        currentStart = data[data.length - 1][0] + 60000;
-        if (currentStart > this.endTime) break;
+      // Reuse whatever IndexedDB already holds and fetch only the gaps
+      const segments = await this.store.overlapping(range.symbol, range.interval, range.startTime, range.endTime);
+      const gaps     = missingRanges(range.startTime, range.endTime, segments);
+      if (segments.length > 0) {
+        logInfo(`[Historical] ${segments.length} cached segment(s) reused; fetching ${gaps.length} missing part(s).`);
       }
 
-      console.log(`[Historical] Processing ${allKlines.length} minutes of data...`);
-      const processedData = allKlines.map(k => {
-        const open   = safe(parseFloat(k[1]), 1);
-        const high   = safe(parseFloat(k[2]), 1);
-        const low    = safe(parseFloat(k[3]), 1);
-        const close  = safe(parseFloat(k[4]), 1) || 1;
-        const volume = safe(parseFloat(k[5]), 0);
-        const takerBuyBaseVolume = safe(parseFloat(k[9]), 0);
-
-        const { bid_depth, ask_depth } = this.estimateOrderBookDepth(open, high, low, close, volume);
-
-        return {
-          timestamp: k[0],
-          open, high, low, close, volume,
-          buy_volume:  takerBuyBaseVolume,
-          sell_volume: safe(volume - takerBuyBaseVolume, 0),
-          bid_depth,
-          ask_depth
-        };
-      });
+      const fetched: any[] = [];
+      for (const gap of gaps) {
+        fetched.push(...await this.fetchKlines(range.symbol, range.interval, gap.startTime, gap.endTime));
+      }
+
+      this.activate(range);
+      logInfo(`[Historical] Processing ${fetched.length} fetched ${range.interval} candles...`);
+      const byTime = new Map<number, HistoricalDataPoint>();
+      segments.forEach(seg => seg.points.forEach(p => byTime.set(p.timestamp, p)));
+      fetched.forEach(k => byTime.set(k[0], this.toPoint(k)));
+      const merged = [...byTime.values()].sort((a, b) => a.timestamp - b.timestamp);
 
-      this.cachedPoints = processedData;
+      // A still-forming candle must not be stored as history, nor the future
+      // counted as covered — coverage stops before the current candle opened
+      const coveredStart = Math.min(range.startTime, ...segments.map(seg => seg.startTime));
+      const coveredEnd   = Math.min(
+        Math.max(range.endTime, ...segments.map(seg => seg.endTime)),
+        Math.floor(Date.now() / intervalMs) * intervalMs - 1
+      );
+      const storable = merged.filter(p => p.timestamp <= coveredEnd);
+      if (gaps.length > 0 && storable.length > 0 && coveredEnd > coveredStart) {
+        await this.store.put(range.symbol, range.interval, coveredStart, coveredEnd, storable, segments);
+      }
+
+      const processedData = merged.filter(p => p.timestamp >= range.startTime && p.timestamp <= range.endTime);
+      if (processedData.length === 0) throw new Error(`No ${range.symbol} klines in the selected range`);
+
+      this.cache.set(key, processedData);
       return processedData;
     } catch (error) {
       console.error('[Historical] Error loading data:', error);
@@ -76,47 +161,160 @@ export class HistoricalDataLoader {
     }
   }
 
-  private estimateOrderBookDepth(
-    open: number, high: number, low: number, close: number, volume: number
-  ): { bid_depth: number, ask_depth: number } {
-    const volatility  = safe((high - low) / close, 0.01);
-    const depthFactor = Math.max(0.015, 1 - (volatility * 90));
-    const baseDepth   = safe((volume / 60) * 1.6, 0.1);
+  private async fetchKlines(symbol: string, interval: KlineInterval, startTime: number, endTime: number): Promise<any[]> {
+    const intervalMs = KLINE_INTERVALS[interval];
+    logInfo(`[Historical] Fetching ${symbol} ${interval} klines from Binance...`);
+    let allKlines: any[] = [];
+    let currentStart      = startTime;
 
-    return {
-      bid_depth: safe(baseDepth * depthFactor * (open > close ? 0.65 : 1.25), 0.1),
-      ask_depth: safe(baseDepth * depthFactor * (open < close ? 0.65 : 1.25), 0.1)
+    while (currentStart <= endTime) {
+      const response = await fetch(
+        `https://api.binance.com/api/v3/klines?symbol=${symbol}&interval=${interval}` +
+        `&startTime=${currentStart}&endTime=${endTime}&limit=${KLINES_PAGE_LIMIT}`
+      );
+      if (!response.ok) throw new Error(`Failed to fetch historical data (${response.status})`);
+      const data = await response.json();
+      if (data.length === 0) break;
+      allKlines    = allKlines.concat(data);
+      currentStart = data[data.length - 1][0] + intervalMs;
+      if (data.length < KLINES_PAGE_LIMIT) break;
+    }
+    return allKlines;
+  }
+
+  // ── Persistent cache management (cache manager UI) ──────────────────────────
+  listCached(): Promise<CachedSegmentInfo[]> {
+    return this.store.list();
+  }
+
+  // Also drops in-memory datasets of the same series that the segment fed
+  async evictCached(segment: CachedSegmentInfo): Promise<void> {
+    await this.store.evict(segment.key);
+    for (const key of this.cache.keys()) {
+      const [symbol, interval, start, end] = key.split(':');
+      if (symbol === segment.symbol && interval === segment.interval &&
+          Number(start) <= segment.endTime && Number(end) >= segment.startTime) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  async clearCached(): Promise<void> {
+    await this.store.clear();
+    this.cache.clear();
+  }
+
+  /**
+   * Imports a Binance public-data kline CSV (data.binance.vision, unzipped):
+   * open_time, open, high, low, close, volume, close_time, quote_volume,
+   * count, taker_buy_volume[, taker_buy_quote_volume, ignore]. Header row
+   * optional. Symbol and interval come from the file name
+   * (BTCUSDT-1m-2024-08-05.csv); the interval falls back to the spacing of the
+   * rows. Bad rows are skipped and reported. The result is cached under its
+   * range, so re-activating it never goes to the network.
+   */
+  importCsv(fileName: string, text: string, fallbackSymbol: string): KlineImport {
+    const named = /^([A-Z0-9]+)-(\w+)-\d{4}-\d{2}/.exec(fileName);
+    const symbol = named?.[1] ?? fallbackSymbol;
+
+    const rows: { line: number; k: (string | number)[] }[] = [];
+    const errors: ImportRowError[] = [];
+    let skipped = 0;
+    const reject = (line: number, reason: string) => {
+      skipped++;
+      if (errors.length < MAX_REPORTED_ROW_ERRORS) errors.push({ line, reason });
     };
+
+    text.split('\n').forEach((raw, i) => {
+      const row = raw.trim();
+      if (row.length === 0 || row.startsWith('open_time')) return;
+      const cols = row.split(',');
+      if (cols.length < 10) return reject(i + 1, `expected at least 10 columns, found ${cols.length}`);
+      let openTime = Number(cols[0]);
+      if (!isFinite(openTime)) return reject(i + 1, `open_time "${cols[0]}" is not a number`);
+      // Spot archives switched to microsecond timestamps in 2025
+      if (openTime > 1e14) openTime = Math.floor(openTime / 1000);
+      const [open, high, low, close, volume] = cols.slice(1, 6).map(Number);
+      const takerBuy = Number(cols[9]);
+      if (![open, high, low, close].every(v => v > 0)) return reject(i + 1, 'open/high/low/close must be positive numbers');
+      if (high < low)                                  return reject(i + 1, 'high is below low');
+      if (!(volume >= 0) || !(takerBuy >= 0))          return reject(i + 1, 'volume and taker_buy_volume must be non-negative numbers');
+      if (takerBuy > volume * 1.000001)                return reject(i + 1, 'taker_buy_volume exceeds volume');
+      rows.push({ line: i + 1, k: [openTime, ...cols.slice(1)] });
+    });
+    if (rows.length === 0) throw new Error(`No valid kline rows in ${fileName}${errors[0] ? ` (line ${errors[0].line}: ${errors[0].reason})` : ''}`);
+
+    rows.sort((a, b) => (a.k[0] as number) - (b.k[0] as number));
+    const unique = rows.filter((r, i) => {
+      if (i > 0 && r.k[0] === rows[i - 1].k[0]) { reject(r.line, 'duplicate open_time'); return false; }
+      return true;
+    });
+    if (unique.length > MAX_HISTORY_POINTS) {
+      throw new Error(`File has ${unique.length.toLocaleString()} candles (max ${MAX_HISTORY_POINTS.toLocaleString()})`);
+    }
+
+    const interval = named && named[2] in KLINE_INTERVALS
+      ? named[2] as KlineInterval
+      : this.inferInterval(unique.map(r => r.k[0] as number));
+    const range: HistoricalRange = {
+      symbol,
+      interval,
+      startTime: unique[0].k[0] as number,
+      endTime:   (unique[unique.length - 1].k[0] as number) + KLINE_INTERVALS[interval] - 1
+    };
+
+    this.activate(range);
+    const points = unique.map(r => this.toPoint(r.k));
+    this.cache.set(`${range.symbol}:${range.interval}:${range.startTime}:${range.endTime}`, points);
+    logInfo(`[Historical] Imported ${points.length} ${interval} candles from ${fileName}, ${skipped} rows skipped.`);
+    return { range, points, skipped, errors };
   }
 
-  convertToTick(point: HistoricalDataPoint): NormalizedMarketTick {
-    const closePrice        = point.close || 1;
-    const rawVolatility     = safe((point.high - point.low) / closePrice, 0.001);
-    const volatility        = Math.min(rawVolatility, 0.5);
-    const dynamicSpreadBps  = safe(0.75 + (volatility * 650), 1);
-    const spreadPct         = dynamicSpreadBps / 10000;
-
-    const bids: [number, number][] = [];
-    const asks: [number, number][] = [];
-    const levels = 10;
-
-    for (let i = 1; i <= levels; i++) {
-      const rawOffset      = (spreadPct / 2) + ((i - 1) * 0.0006 * (1 + volatility * 10));
-      const priceOffset    = safe(rawOffset, spreadPct / 2);
-      const levelDepthFactor = safe(Math.pow(0.85, i - 1) * (1 / levels) * 5, 0.01);
-
-      bids.push([
-        safe(closePrice * (1 - priceOffset), closePrice * 0.999),
-        safe(point.bid_depth * levelDepthFactor, 0.01)
-      ]);
-      asks.push([
-        safe(closePrice * (1 + priceOffset), closePrice * 1.001),
-        safe(point.ask_depth * levelDepthFactor, 0.01)
-      ]);
+  // Most common spacing between consecutive candles; gaps don't fool it
+  private inferInterval(openTimes: number[]): KlineInterval {
+    const counts = new Map<number, number>();
+    for (let i = 1; i < openTimes.length; i++) {
+      const gap = openTimes[i] - openTimes[i - 1];
+      counts.set(gap, (counts.get(gap) ?? 0) + 1);
     }
+    const [gap] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [KLINE_INTERVALS['1m']];
+    const interval = (Object.keys(KLINE_INTERVALS) as KlineInterval[]).find(k => KLINE_INTERVALS[k] === gap);
+    if (!interval) throw new Error(`Cannot tell the kline interval — candles are ${gap}ms apart`);
+    return interval;
+  }
+
+  // One Binance kline array (REST or CSV) → point
+  private toPoint(k: any[]): HistoricalDataPoint {
+    const open   = safe(parseFloat(k[1]), 1);
+    const high   = safe(parseFloat(k[2]), 1);
+    const low    = safe(parseFloat(k[3]), 1);
+    const close  = safe(parseFloat(k[4]), 1) || 1;
+    const volume = safe(parseFloat(k[5]), 0);
+    const takerBuyBaseVolume = safe(parseFloat(k[9]), 0);
+
+    return {
+      timestamp: Number(k[0]),
+      open, high, low, close, volume,
+      buy_volume:  takerBuyBaseVolume,
+      sell_volume: safe(volume - takerBuyBaseVolume, 0)
+    };
+  }
+
+  private activate(range: HistoricalRange): void {
+    this.range  = range;
+    this.config = SYMBOLS.find(s => s.symbol === range.symbol) ?? { ...DEFAULT_SYMBOL, symbol: range.symbol };
+  }
+
+  // Candle length in minutes (1s candles → 1/60)
+  private get minutes(): number {
+    return this.getIntervalMs() / 60_000;
+  }
 
-    const dynamicVolume24h = safe(250000 + (point.volume * 1440 * 0.18), 250000);
-    const totalDepth       = safe(point.bid_depth + point.ask_depth, 0.1);
+  // model defaults to the active one; the depth comparison view passes others
+  convertToTick(point: HistoricalDataPoint, model: DepthModel = this.depthModel): NormalizedMarketTick {
+    const closePrice = point.close || 1;
+    const book       = model.synthesize(point, this.minutes);
+    const dynamicVolume24h = safe(250000 + ((point.volume / this.minutes) * 1440 * 0.18), 250000);
 
     // FIX: large_trades was binary — either one massive block or nothing.
     // When sell_volume > 35, the old code produced a single 13-30 BTC block
@@ -128,13 +326,15 @@ export class HistoricalDataLoader {
     const largeTrades = this.generateLargeTrades(point, closePrice);
 
     return {
+      symbol:               this.range.symbol,
+      venue:                Venue.BINANCE,
       exchange_timestamp:   point.timestamp,
       received_timestamp:   point.timestamp,
       processing_timestamp: Date.now(),
       price:      closePrice,
       volume_24h: dynamicVolume24h,
-      bids,
-      asks,
+      bids:       book.bids,
+      asks:       book.asks,
       trades: {
         buy_volume:   safe(point.buy_volume,  0),
         sell_volume:  safe(point.sell_volume, 0),
@@ -143,18 +343,20 @@ export class HistoricalDataLoader {
         large_trades: largeTrades
       },
       mid_price:   closePrice,
-      spread:      safe(closePrice * spreadPct, 0.01),
-      spread_bps:  dynamicSpreadBps,
-      total_depth: totalDepth,
+      spread:      book.spread,
+      spread_bps:  book.spread_bps,
+      total_depth: book.total_depth,
       is_valid:    true,
-      data_quality: 'GOOD'
+      data_quality: 'GOOD',
+      synthesized: { book: true, trade_counts: true }
     };
   }
 
   // Generate realistic graduated large-trade blocks from a candle's sell volume.
   // Threshold at 15 BTC/min (was 35). Above threshold we split the institutional
   // portion into 2-4 blocks so Forced Selling has intermediate values, not just
-  // 0 or 100.
+  // 0 or 100. BTC figures scale by min_block_qty / 0.5 for other symbols, and
+  // volume is taken per minute of candle.
   private generateLargeTrades(
     point: HistoricalDataPoint,
     closePrice: number
@@ -167,17 +369,19 @@ export class HistoricalDataLoader {
     // This mirrors p90 semantics (top 10% of trades) while being computationally
     // feasible on per-candle data. A Forced Selling score of 60 now means the
     // same thing in replay as it does in live mode.
-    const BLOCK_THRESHOLD = Math.max(0.5, point.sell_volume * 0.05);
-    if (point.sell_volume < BLOCK_THRESHOLD * 2) return []; // need at least 2x threshold
+    const unitScale  = this.config.min_block_qty / 0.5;
+    const sellPerMin = safe(point.sell_volume / this.minutes, 0);
+    const BLOCK_THRESHOLD = Math.max(this.config.min_block_qty, sellPerMin * 0.05);
+    if (sellPerMin < BLOCK_THRESHOLD * 2) return []; // need at least 2x threshold
 
     // Institutional portion: top 35% of sell volume treated as block trades
-    const institutionalVol = safe(point.sell_volume * 0.35, 0);
+    const institutionalVol = safe(sellPerMin * 0.35, 0);
     if (institutionalVol <= 0) return [];
 
     // Split into 2-4 blocks with slight size variation so each tick has
     // a different fingerprint instead of one constant mega-block
-    const numBlocks = point.sell_volume > 60 ? 4
-                    : point.sell_volume > 40 ? 3
+    const numBlocks = sellPerMin > 60 * unitScale ? 4
+                    : sellPerMin > 40 * unitScale ? 3
                     : 2;
     const baseBlockSize = safe(institutionalVol / numBlocks, 0.1);
 
@@ -191,7 +395,7 @@ export class HistoricalDataLoader {
         id:        point.timestamp + i,
         price:     closePrice,
         quantity:  blockSize,
-        timestamp: point.timestamp + i * 15000, // spread across the minute
+        timestamp: point.timestamp + Math.floor(i * this.getIntervalMs() / 4), // spread across the candle
         side:      'sell' as const
       });
     }
@@ -0,0 +1,138 @@
+import type { HistoricalDataPoint, KlineInterval } from './HistoricalDataLoader';
+
+const DB_NAME    = 'sentinel-history';
+const DB_VERSION = 1;
+const STORE      = 'segments';
+
+/**
+ * A stretch of fetched klines for one symbol and interval. startTime/endTime
+ * are the window that was requested, not the first/last candle, so a quiet
+ * stretch with no candles still counts as covered.
+ */
+export interface CachedSegment {
+  key:        string; // symbol:interval:startTime:endTime
+  symbol:     string;
+  interval:   KlineInterval;
+  startTime:  number;
+  endTime:    number;
+  points:     HistoricalDataPoint[];
+  bytes:      number; // serialized size, for the cache manager
+  created_at: number; // first fetch of any part of the segment
+}
+
+// Listing without the candles — what the cache manager shows
+export type CachedSegmentInfo = Omit<CachedSegment, 'points'> & { candles: number };
+
+const segmentKey = (symbol: string, interval: string, startTime: number, endTime: number) =>
+  `${symbol}:${interval}:${startTime}:${endTime}`;
+
+const request = <T>(req: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror   = () => reject(req.error);
+});
+
+/**
+ * Persists fetched kline datasets across reloads in IndexedDB.
+ *
+ * Segments of the same symbol and interval never overlap: put() absorbs any
+ * segment it overlaps or touches, so a stretch of history is stored once and
+ * a widened window only needs its uncovered edges fetched.
+ *
+ * Every method degrades to "nothing cached" when IndexedDB is unavailable
+ * (private browsing, blocked storage) — the loader then just fetches.
+ */
+export class HistoryCache {
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase | null>(resolve => {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          const store = req.result.createObjectStore(STORE, { keyPath: 'key' });
+          store.createIndex('series', ['symbol', 'interval']);
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror   = () => {
+          console.warn('[HistoryCache] IndexedDB unavailable, caching disabled.', req.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.db;
+  }
+
+  // Segments of one series that overlap or touch [startTime, endTime]
+  async overlapping(symbol: string, interval: KlineInterval, startTime: number, endTime: number): Promise<CachedSegment[]> {
+    const db = await this.open();
+    if (!db) return [];
+    try {
+      const all: CachedSegment[] = await request(
+        db.transaction(STORE).objectStore(STORE).index('series').getAll([symbol, interval])
+      );
+      return all
+        .filter(s => s.startTime <= endTime + 1 && s.endTime >= startTime - 1)
+        .sort((a, b) => a.startTime - b.startTime);
+    } catch (err) {
+      console.warn('[HistoryCache] Read failed.', err);
+      return [];
+    }
+  }
+
+  // Stores a segment, replacing every segment it was merged from
+  async put(
+    symbol: string, interval: KlineInterval, startTime: number, endTime: number,
+    points: HistoricalDataPoint[], replaces: CachedSegment[]
+  ): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    const now = Date.now();
+    const segment: CachedSegment = {
+      key: segmentKey(symbol, interval, startTime, endTime),
+      symbol, interval, startTime, endTime, points,
+      bytes:      JSON.stringify(points).length,
+      created_at: Math.min(now, ...replaces.map(s => s.created_at))
+    };
+    try {
+      const tx    = db.transaction(STORE, 'readwrite');
+      const store = tx.objectStore(STORE);
+      replaces.forEach(s => store.delete(s.key));
+      store.put(segment);
+      await new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror    = () => reject(tx.error);
+        tx.onabort    = () => reject(tx.error);
+      });
+    } catch (err) {
+      // Most likely over quota — the dataset is still usable from memory
+      console.warn('[HistoryCache] Write failed.', err);
+    }
+  }
+
+  async list(): Promise<CachedSegmentInfo[]> {
+    const db = await this.open();
+    if (!db) return [];
+    try {
+      const all: CachedSegment[] = await request(db.transaction(STORE).objectStore(STORE).getAll());
+      return all
+        .map(({ points, ...info }) => ({ ...info, candles: points.length }))
+        .sort((a, b) => a.created_at - b.created_at);
+    } catch (err) {
+      console.warn('[HistoryCache] List failed.', err);
+      return [];
+    }
+  }
+
+  async evict(key: string): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    await request(db.transaction(STORE, 'readwrite').objectStore(STORE).delete(key));
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    if (!db) return;
+    await request(db.transaction(STORE, 'readwrite').objectStore(STORE).clear());
+  }
+}
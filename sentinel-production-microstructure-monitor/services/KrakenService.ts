@@ -0,0 +1,93 @@
+import { NormalizedMarketTick, SymbolConfig, Venue } from '../types';
+import { RawLevel } from './OrderBook';
+import { BaseFeedAdapter, DEFAULT_DEPTH_LEVELS } from './FeedAdapter';
+import { ManagedSocket } from './ManagedSocket';
+
+// Kraken accepts book subscriptions only at these depths
+const KRAKEN_DEPTHS = [10, 25, 100, 500, 1000];
+
+// Kraken Spot WebSocket v2 (public book / trade / ticker channels).
+//
+// Kraken's book feed has no sequence numbers — integrity is guarded by a
+// CRC32 checksum over the top 10 levels, which needs the exact decimal
+// strings Kraken used. v2 sends JSON numbers, so we rely instead on the
+// socket itself: on reconnect a fresh snapshot replaces the book, and the
+// book is truncated to the subscribed depth after every update as Kraken
+// requires (levels falling out of range are not explicitly deleted).
+export class KrakenService extends BaseFeedAdapter {
+  readonly venue = Venue.KRAKEN;
+
+  private socket: ManagedSocket | null = null;
+
+  private readonly WS_URL = 'wss://ws.kraken.com/v2';
+  // Kraken v2 uses 'BTC/USD' style pairs; majors trade against USD
+  private readonly pair: string;
+  private readonly bookDepth: number;
+
+  constructor(
+    config: SymbolConfig,
+    onTick: (tick: NormalizedMarketTick) => void,
+    depthLevels = DEFAULT_DEPTH_LEVELS
+  ) {
+    super(config, onTick, depthLevels);
+    this.pair      = `${config.base}/${config.quote === 'USDT' ? 'USD' : config.quote}`;
+    this.bookDepth = KRAKEN_DEPTHS.find(d => d >= this.depthLevels) ?? KRAKEN_DEPTHS[KRAKEN_DEPTHS.length - 1];
+  }
+
+  protected connect(): void {
+    this.socket = this.openStream('stream', {
+      url:       this.WS_URL,
+      onMessage: (raw) => this.handleMessage(raw),
+      onOpen:    () => {
+        this.subscribe({ channel: 'book', symbol: [this.pair], depth: this.bookDepth });
+        this.subscribe({ channel: 'trade', symbol: [this.pair], snapshot: false });
+        this.subscribe({ channel: 'ticker', symbol: [this.pair] });
+      },
+      onDrop:    () => this.book.reset(),
+      ping:      { intervalMs: 30_000, payload: JSON.stringify({ method: 'ping' }) }
+    });
+  }
+
+  handleMessage(raw: string): void {
+    const msg = this.parseFrame(raw);
+    if (!msg) return;
+    const data: any[] = msg.data ?? [];
+
+    switch (msg.channel) {
+      case 'book':
+        data.forEach(d => {
+          if (d.symbol !== this.pair) return;
+          const bids: RawLevel[] = (d.bids ?? []).map((l: any) => [l.price, l.qty]);
+          const asks: RawLevel[] = (d.asks ?? []).map((l: any) => [l.price, l.qty]);
+          if (msg.type === 'snapshot') this.book.replace(bids, asks);
+          else                         this.book.update(bids, asks);
+          this.book.truncate(this.bookDepth);
+          this.markDepthUpdate();
+        });
+        break;
+      case 'trade':
+        data.forEach(t => {
+          if (t.symbol !== this.pair) return;
+          const ts = Date.parse(t.timestamp);
+          this.recordTrade({
+            id:        t.trade_id,
+            price:     t.price,
+            quantity:  t.qty,
+            timestamp: ts,
+            // side is the taker side
+            side:      t.side === 'sell' ? 'sell' : 'buy'
+          }, ts);
+        });
+        break;
+      case 'ticker':
+        data.forEach(t => {
+          if (t.symbol === this.pair) this.setVolume24h(t.volume);
+        });
+        break;
+    }
+  }
+
+  private subscribe(params: Record<string, unknown>): void {
+    this.socket?.send(JSON.stringify({ method: 'subscribe', params }));
+  }
+}
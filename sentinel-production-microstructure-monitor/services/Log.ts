@@ -0,0 +1,13 @@
+// Progress messages from the services (loaders, feeds). They go to the
+// console by default; the CLI points them at stderr so stdout carries only
+// records.
+export type LogLevel = 'info' | 'warn';
+type LogSink = (message: string, level: LogLevel) => void;
+
+let sink: LogSink = (message, level) => level === 'warn' ? console.warn(message) : console.log(message);
+
+export const setLogSink = (next: LogSink): void => { sink = next; };
+
+export const logInfo = (message: string): void => sink(message, 'info');
+
+export const logWarn = (message: string): void => sink(message, 'warn');
@@ -0,0 +1,178 @@
+import { StreamState } from '../types';
+
+export interface ManagedSocketOptions {
+  url:          string;
+  onMessage:    (raw: string) => void;
+  // Runs on every (re)open — subscribe messages, snapshot resync, etc.
+  onOpen?:      () => void;
+  // Runs on every unexpected close, before backoff — invalidate books here.
+  onDrop?:      () => void;
+  onState?:     (state: StreamState, attempt: number, retryInMs: number | null) => void;
+  // App-level ping for venues that require one (OKX, Bybit, Kraken).
+  // Binance and Coinbase need none: browsers answer protocol pings themselves.
+  ping?:        { intervalMs: number; payload: string };
+  // No message for this long = dead connection, even if TCP says otherwise.
+  // Infinity disables the check for streams that are legitimately sparse.
+  staleAfterMs?: number;
+}
+
+// Backoff: delay = min(cap, base × 2^attempt), then "full jitter" — a uniform
+// random wait in [0, delay] — so several sockets dropped by the same network
+// blip don't reconnect in lockstep and trip the venue's connection rate limit.
+const BACKOFF_BASE_MS    = 500;
+const BACKOFF_CAP_MS     = 30_000;
+// After this many consecutive failed attempts the stream is marked FAILED
+// and stops retrying until restart() is called.
+const MAX_ATTEMPTS       = 12;
+const DEFAULT_STALE_MS   = 15_000;
+
+/**
+ * WebSocket with reconnection, heartbeat and observable state.
+ * Replaces the old "onclose → setTimeout(connect, 3000)" loops, which retried
+ * forever at a fixed rate, ignored onerror and could not detect a socket that
+ * stayed open but stopped delivering data.
+ */
+export class ManagedSocket {
+  private ws: WebSocket | null = null;
+  private state: StreamState   = 'CLOSED';
+  private attempt              = 0;
+  private retryTimer: any      = null;
+  private pingTimer: any       = null;
+  private staleTimer: any      = null;
+  private lastMessageMs        = 0;
+  private stopped              = true;
+  private readonly opts: ManagedSocketOptions;
+
+  constructor(opts: ManagedSocketOptions) {
+    this.opts = opts;
+  }
+
+  open(): void {
+    this.stopped = false;
+    this.attempt = 0;
+    this.connect();
+  }
+
+  // Manual retry after FAILED — resets the attempt counter.
+  restart(): void {
+    this.close();
+    this.open();
+  }
+
+  close(): void {
+    this.stopped = true;
+    this.clearTimers();
+    if (this.ws) {
+      this.ws.onopen = null;
+      this.ws.onmessage = null;
+      this.ws.onclose = null;
+      this.ws.onerror = null;
+      this.ws.close();
+    }
+    this.ws = null;
+    this.setState('CLOSED', null);
+  }
+
+  send(payload: string): void {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return;
+    this.ws.send(payload);
+  }
+
+  getState(): StreamState { return this.state; }
+  getAttempt(): number { return this.attempt; }
+  getLastMessageMs(): number { return this.lastMessageMs; }
+
+  private connect(): void {
+    this.clearTimers();
+    this.setState('CONNECTING', null);
+
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(this.opts.url);
+    } catch (err) {
+      console.warn(`[Socket] ${this.opts.url} could not be created.`, err);
+      this.scheduleReconnect();
+      return;
+    }
+    this.ws = ws;
+
+    ws.onopen = () => {
+      this.lastMessageMs = Date.now();
+      this.setState('OPEN', null);
+      this.startHeartbeat();
+      this.opts.onOpen?.();
+    };
+    ws.onmessage = (e) => {
+      // Backoff resets on the first real message, not on open — a server that
+      // accepts and immediately drops us should keep backing off.
+      this.attempt       = 0;
+      this.lastMessageMs = Date.now();
+      this.opts.onMessage(e.data);
+    };
+    ws.onerror = (e) => {
+      // onerror is always followed by onclose, which owns reconnection
+      console.warn(`[Socket] ${this.opts.url} error.`, e);
+    };
+    ws.onclose = () => {
+      if (this.ws !== ws) return;
+      this.ws = null;
+      this.clearTimers();
+      if (this.stopped) return;
+      this.opts.onDrop?.();
+      this.scheduleReconnect();
+    };
+  }
+
+  private scheduleReconnect(): void {
+    if (this.stopped) return;
+    if (this.attempt >= MAX_ATTEMPTS) {
+      console.error(`[Socket] ${this.opts.url} failed after ${MAX_ATTEMPTS} attempts.`);
+      this.setState('FAILED', null);
+      return;
+    }
+    const ceiling = Math.min(BACKOFF_CAP_MS, BACKOFF_BASE_MS * 2 ** this.attempt);
+    const delay   = Math.round(Math.random() * ceiling);
+    this.attempt++;
+    this.setState('BACKING_OFF', delay);
+    this.retryTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private startHeartbeat(): void {
+    const { ping } = this.opts;
+    if (ping) {
+      this.pingTimer = setInterval(() => this.send(ping.payload), ping.intervalMs);
+    }
+    const staleAfter = this.opts.staleAfterMs ?? DEFAULT_STALE_MS;
+    if (!isFinite(staleAfter)) return;
+    this.staleTimer = setInterval(() => {
+      if (Date.now() - this.lastMessageMs <= staleAfter) return;
+      console.warn(`[Socket] ${this.opts.url} silent for ${staleAfter}ms — forcing reconnect.`);
+      // close() on a half-dead socket may never fire onclose; detach and retry directly
+      const dead = this.ws;
+      this.ws = null;
+      this.clearTimers();
+      if (dead) {
+        dead.onmessage = null;
+        dead.onclose = null;
+        dead.onerror = null;
+        dead.close();
+      }
+      this.opts.onDrop?.();
+      this.scheduleReconnect();
+    }, Math.min(staleAfter, 5_000));
+  }
+
+  private clearTimers(): void {
+    clearTimeout(this.retryTimer);
+    clearInterval(this.pingTimer);
+    clearInterval(this.staleTimer);
+    this.retryTimer = null;
+    this.pingTimer  = null;
+    this.staleTimer = null;
+  }
+
+  private setState(state: StreamState, retryInMs: number | null): void {
+    this.state = state;
+    this.opts.onState?.(state, this.attempt, retryInMs);
+  }
+}
@@ -0,0 +1,103 @@
+import { NormalizedMarketTick, SymbolConfig, Venue } from '../types';
+import { RawLevel } from './OrderBook';
+import { BaseFeedAdapter, DEFAULT_DEPTH_LEVELS } from './FeedAdapter';
+import { ManagedSocket } from './ManagedSocket';
+
+// OKX v5 public WebSocket (books / trades / tickers channels).
+//
+// The 'books' channel pushes a 400-level snapshot followed by incremental
+// updates. Each message carries seqId and prevSeqId; an update whose prevSeqId
+// is not our last seqId means a missed message, so we resubscribe to get a
+// new snapshot. Levels are [price, size, deprecated, orderCount].
+export class OKXService extends BaseFeedAdapter {
+  readonly venue = Venue.OKX;
+
+  private socket: ManagedSocket | null = null;
+  private lastSeqId = -1;
+
+  private readonly WS_URL = 'wss://ws.okx.com:8443/ws/v5/public';
+  private readonly instId: string;
+
+  constructor(
+    config: SymbolConfig,
+    onTick: (tick: NormalizedMarketTick) => void,
+    depthLevels = DEFAULT_DEPTH_LEVELS
+  ) {
+    super(config, onTick, depthLevels);
+    this.instId = `${config.base}-${config.quote}`;
+  }
+
+  protected connect(): void {
+    this.socket = this.openStream('stream', {
+      url:       this.WS_URL,
+      onMessage: (raw) => this.handleMessage(raw),
+      onOpen:    () => {
+        this.lastSeqId = -1;
+        this.send('subscribe', ['books', 'trades', 'tickers']);
+      },
+      onDrop:    () => this.book.reset(),
+      // OKX drops connections idle for 30s; a plain 'ping' is answered with 'pong'
+      ping:      { intervalMs: 25_000, payload: 'ping' }
+    });
+  }
+
+  handleMessage(raw: string): void {
+    if (raw === 'pong') return;
+    const msg = this.parseFrame(raw);
+    if (!msg?.arg || msg.event) return; // subscribe acks / errors / dropped
+    if (msg.arg.instId !== this.instId) return;
+    const data: any[] = msg.data ?? [];
+
+    switch (msg.arg.channel) {
+      case 'books':
+        data.forEach(d => this.applyBook(msg.action, d));
+        break;
+      case 'trades':
+        data.forEach(t => {
+          const ts = parseInt(t.ts, 10);
+          this.recordTrade({
+            id:        parseInt(t.tradeId, 10),
+            price:     parseFloat(t.px),
+            quantity:  parseFloat(t.sz),
+            timestamp: ts,
+            // side is the taker side
+            side:      t.side === 'sell' ? 'sell' : 'buy'
+          }, ts);
+        });
+        break;
+      case 'tickers':
+        data.forEach(t => this.setVolume24h(parseFloat(t.vol24h)));
+        break;
+    }
+  }
+
+  private applyBook(action: string, d: any): void {
+    const bids: RawLevel[] = (d.bids ?? []).map((l: string[]) => [l[0], l[1]]);
+    const asks: RawLevel[] = (d.asks ?? []).map((l: string[]) => [l[0], l[1]]);
+
+    if (action === 'snapshot') {
+      this.book.replace(bids, asks);
+    } else {
+      // prevSeqId === seqId is a heartbeat update with no changes — still in sequence
+      if (this.lastSeqId < 0 || d.prevSeqId !== this.lastSeqId) {
+        console.warn(`[OKX] ${this.instId} book gap prevSeqId=${d.prevSeqId} (book at ${this.lastSeqId}). Resubscribing...`);
+        this.resubscribeBook();
+        return;
+      }
+      this.book.update(bids, asks);
+    }
+    this.lastSeqId = d.seqId;
+    this.markDepthUpdate();
+  }
+
+  private resubscribeBook(): void {
+    this.book.reset();
+    this.lastSeqId = -1;
+    this.send('unsubscribe', ['books']);
+    this.send('subscribe', ['books']);
+  }
+
+  private send(op: 'subscribe' | 'unsubscribe', channels: string[]): void {
+    this.socket?.send(JSON.stringify({ op, args: channels.map(channel => ({ channel, instId: this.instId })) }));
+  }
+}
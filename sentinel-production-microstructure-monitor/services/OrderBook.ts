@@ -0,0 +1,150 @@
+// Raw level as venues send it: [price, quantity]. Binance, OKX, Bybit and
+// Coinbase use decimal strings; Kraken v2 sends JSON numbers.
+export type RawLevel = [string | number, string | number];
+
+export interface DepthSnapshot {
+  lastUpdateId: number;
+  bids:         RawLevel[];
+  asks:         RawLevel[];
+}
+
+// One message from the <symbol>@depth diff stream.
+// U = first update id in the event, u = final update id in the event.
+export interface DepthDiff {
+  U: number;
+  u: number;
+  b: RawLevel[];
+  a: RawLevel[];
+}
+
+// APPLIED: diff merged into the book.
+// STALE:   diff entirely older than the book — safely dropped.
+// GAP:     one or more update ids were missed — book is invalid until resync.
+export type DiffResult = 'APPLIED' | 'STALE' | 'GAP';
+
+// Local order book maintained from a REST snapshot plus the diff stream,
+// following Binance's "manage a local order book correctly" procedure:
+//   1. Buffer diffs while the snapshot is fetched.
+//   2. Drop any diff with u <= lastUpdateId.
+//   3. The first applied diff must straddle lastUpdateId + 1.
+//   4. Every later diff must start at previous u + 1, otherwise we have a gap.
+// A quantity of 0 removes the level.
+export class LocalOrderBook {
+  private bids = new Map<number, number>();
+  private asks = new Map<number, number>();
+  private lastUpdateId = 0;
+  private synced       = false;
+
+  // Sorting thousands of levels on every 100ms emit is wasteful when most
+  // diffs touch only a handful of prices. Cache sorted sides until modified.
+  private sortedBids: [number, number][] | null = null;
+  private sortedAsks: [number, number][] | null = null;
+
+  applySnapshot(snapshot: DepthSnapshot): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.applyLevels(this.bids, snapshot.bids);
+    this.applyLevels(this.asks, snapshot.asks);
+    this.lastUpdateId = snapshot.lastUpdateId;
+    this.synced       = false; // not synced until the first straddling diff lands
+    this.sortedBids   = null;
+    this.sortedAsks   = null;
+  }
+
+  applyDiff(diff: DepthDiff): DiffResult {
+    if (diff.u <= this.lastUpdateId) return 'STALE';
+
+    const expected = this.lastUpdateId + 1;
+    if (!this.synced) {
+      // First diff after the snapshot must cover lastUpdateId + 1
+      if (diff.U > expected) return 'GAP';
+      this.synced = true;
+    } else if (diff.U !== expected) {
+      this.synced = false;
+      return 'GAP';
+    }
+
+    this.applyLevels(this.bids, diff.b);
+    this.applyLevels(this.asks, diff.a);
+    this.lastUpdateId = diff.u;
+    this.sortedBids   = null;
+    this.sortedAsks   = null;
+    return 'APPLIED';
+  }
+
+  // Best-first bids (highest price first), limited to n levels.
+  getBids(n: number): [number, number][] {
+    if (!this.sortedBids) {
+      this.sortedBids = [...this.bids.entries()].sort((a, b) => b[0] - a[0]);
+    }
+    return this.sortedBids.slice(0, n);
+  }
+
+  // Best-first asks (lowest price first), limited to n levels.
+  getAsks(n: number): [number, number][] {
+    if (!this.sortedAsks) {
+      this.sortedAsks = [...this.asks.entries()].sort((a, b) => a[0] - b[0]);
+    }
+    return this.sortedAsks.slice(0, n);
+  }
+
+  // ── Venue-sequenced books ────────────────────────────────────────────────
+  // Coinbase, Kraken, OKX and Bybit push their own snapshot over the socket
+  // and number updates differently, so the adapter owns gap detection and
+  // uses these to load and mutate the book directly.
+
+  replace(bids: RawLevel[], asks: RawLevel[]): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.applyLevels(this.bids, bids);
+    this.applyLevels(this.asks, asks);
+    this.synced     = true;
+    this.sortedBids = null;
+    this.sortedAsks = null;
+  }
+
+  update(bids: RawLevel[], asks: RawLevel[]): void {
+    if (!this.synced) return;
+    this.applyLevels(this.bids, bids);
+    this.applyLevels(this.asks, asks);
+    this.sortedBids = null;
+    this.sortedAsks = null;
+  }
+
+  // Drops levels beyond the n best per side. Depth-limited feeds (Kraken)
+  // stop sending updates for levels that fall out of range, so they must go.
+  truncate(n: number): void {
+    const keep = (side: Map<number, number>, sorted: [number, number][]) => {
+      if (side.size <= n) return;
+      side.clear();
+      sorted.slice(0, n).forEach(([p, q]) => side.set(p, q));
+    };
+    keep(this.bids, this.getBids(Infinity));
+    keep(this.asks, this.getAsks(Infinity));
+    this.sortedBids = null;
+    this.sortedAsks = null;
+  }
+
+  isSynced(): boolean { return this.synced; }
+
+  getLastUpdateId(): number { return this.lastUpdateId; }
+
+  reset(): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.lastUpdateId = 0;
+    this.synced       = false;
+    this.sortedBids   = null;
+    this.sortedAsks   = null;
+  }
+
+  private applyLevels(side: Map<number, number>, levels: RawLevel[]): void {
+    for (const [p, q] of levels) {
+      const price = Number(p);
+      const qty   = Number(q);
+      if (!isFinite(price)) continue;
+      if (qty === 0) side.delete(price);
+      else           side.set(price, qty);
+    }
+  }
+}
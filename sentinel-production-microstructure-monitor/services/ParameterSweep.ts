@@ -0,0 +1,232 @@
+import { NormalizedMarketTick, SignalType } from '../types';
+import { getSignalPlugin } from './SignalRegistry';
+import { EngineConfig } from './EngineConfig';
+import { CrashScenario } from './ScenarioCatalogue';
+import { BacktestScore, ScenarioBacktest, backtestTicks, combineScores } from './Backtest';
+
+// One tunable number and the range a sweep explores for it
+export interface SweepParameter {
+  id:    string;
+  label: string;
+  min:   number;
+  max:   number;
+  step:  number;
+  // The signal whose behaviour this tunes, if it tunes only one
+  signal?: string;
+  get(config: EngineConfig): number;
+  set(config: EngineConfig, value: number): EngineConfig;
+}
+
+// Kline replays carry no cross-venue or perpetual input, so Venue Divergence
+// and Leverage never score there — sweeping their weights would be noise.
+const SWEPT_SIGNALS = [
+  SignalType.LIQUIDITY, SignalType.FLOW, SignalType.VOLATILITY, SignalType.FORCED_SELLING
+].map(signal => ({ signal, short: getSignalPlugin(signal).label }));
+
+const shockEntry = (index: number, max: number): SweepParameter => ({
+  id: `shock_${index}`, label: `Shock × ${index} signals`, min: 1, max, step: 0.05,
+  get: c => c.shock_table[Math.min(index, c.shock_table.length - 1)],
+  set: (c, v) => {
+    const table = [...c.shock_table];
+    while (table.length <= index) table.push(table[table.length - 1]);
+    table[index] = v;
+    return { ...c, shock_table: table };
+  }
+});
+
+const scalar = (key: 'stress_alpha_up' | 'stress_alpha_down' | 'flow_alpha_up' | 'flow_alpha_down', label: string, min: number, max: number, step: number, signal?: string): SweepParameter => ({
+  id: key, label, min, max, step, signal,
+  get: c => c[key],
+  set: (c, v) => ({ ...c, [key]: v })
+});
+
+export const SWEEP_PARAMETERS: SweepParameter[] = [
+  ...SWEPT_SIGNALS.map(({ signal, short }): SweepParameter => ({
+    id: `weight:${signal}`, label: `${short} weight`, min: 0.05, max: 0.5, step: 0.05, signal,
+    get: c => c.weights[signal],
+    set: (c, v) => ({ ...c, weights: { ...c.weights, [signal]: v } })
+  })),
+  ...SWEPT_SIGNALS.map(({ signal, short }): SweepParameter => ({
+    id: `trigger:${signal}`, label: `${short} trigger`, min: 35, max: 85, step: 5, signal,
+    get: c => c.triggers[signal],
+    set: (c, v) => ({ ...c, triggers: { ...c.triggers, [signal]: v } })
+  })),
+  shockEntry(2, 1.4),
+  shockEntry(3, 1.8),
+  shockEntry(4, 2.2),
+  scalar('stress_alpha_up',   'Stress α up',   0.15, 0.6,  0.05),
+  scalar('stress_alpha_down', 'Stress α down', 0.05, 0.3,  0.05),
+  scalar('flow_alpha_up',     'Flow α up',     0.1,  0.5,  0.05, SignalType.FLOW),
+  scalar('flow_alpha_down',   'Flow α down',   0.02, 0.2,  0.02, SignalType.FLOW),
+  {
+    // Stays strictly between the STRESSED and CRITICAL bounds either side
+    id: 'level_unstable', label: 'Event threshold (UNSTABLE)', min: 45, max: 75, step: 5,
+    get: c => c.level_boundaries[2],
+    set: (c, v) => ({ ...c, level_boundaries: [c.level_boundaries[0], c.level_boundaries[1], v, c.level_boundaries[3]] })
+  }
+];
+
+export const DEFAULT_SWEPT_PARAMETERS = SWEEP_PARAMETERS.filter(p => p.id.startsWith('trigger:') || p.id === 'level_unstable').map(p => p.id);
+
+// Turns a combined backtest score into one number to maximise
+export interface SweepObjective {
+  id:          string;
+  name:        string;
+  description: string;
+  score(s: BacktestScore): number;
+}
+
+const leadHours = (s: BacktestScore) => (s.mean_lead_ms ?? 0) / 3_600_000;
+
+export const SWEEP_OBJECTIVES: SweepObjective[] = [
+  {
+    id: 'balanced', name: 'Lead vs false alarms',
+    description: '100 × hit rate + 20 per hour of mean lead − 10 per false alarm a day',
+    score: s => 100 * s.hit_rate + 20 * leadHours(s) - 10 * s.false_alarms_per_day
+  },
+  {
+    id: 'early', name: 'Earliest warning',
+    description: '100 × hit rate + 40 per hour of mean lead − 2 per false alarm a day',
+    score: s => 100 * s.hit_rate + 40 * leadHours(s) - 2 * s.false_alarms_per_day
+  },
+  {
+    id: 'quiet', name: 'Fewest false alarms',
+    description: '100 × hit rate − 40 per false alarm a day',
+    score: s => 100 * s.hit_rate - 40 * s.false_alarms_per_day
+  },
+  {
+    id: 'f1', name: 'F1',
+    description: '100 × harmonic mean of hit rate and precision',
+    score: s => s.hit_rate + s.precision > 0 ? 100 * (2 * s.hit_rate * s.precision) / (s.hit_rate + s.precision) : 0
+  }
+];
+
+export type SearchMode = 'GRID' | 'RANDOM';
+
+const gridValues = (p: SweepParameter): number[] => {
+  const values: number[] = [];
+  for (let v = p.min; v <= p.max + p.step / 2; v += p.step) values.push(Number(v.toFixed(4)));
+  return values;
+};
+
+// Deterministic PRNG (mulberry32) so a random search can be re-run exactly
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// More aligned signals must never shock less than fewer
+const monotoneShock = (config: EngineConfig): EngineConfig => {
+  const table = [...config.shock_table];
+  for (let i = 1; i < table.length; i++) table[i] = Math.max(table[i], table[i - 1]);
+  return { ...config, shock_table: table };
+};
+
+/**
+ * Candidate configs over the chosen parameters, starting from `base`. The
+ * base itself is always the first candidate so every sweep reports the
+ * current config's score alongside the alternatives. A grid larger than
+ * `limit` is refused rather than silently truncated.
+ */
+export function sweepCandidates(base: EngineConfig, params: SweepParameter[], mode: SearchMode, limit: number, seed = 1): EngineConfig[] {
+  const candidates: EngineConfig[] = [base];
+  if (params.length === 0) return candidates;
+
+  if (mode === 'GRID') {
+    const axes = params.map(gridValues);
+    const size = axes.reduce((n, a) => n * a.length, 1);
+    if (size > limit) {
+      throw new Error(`A grid over ${params.length} parameters has ${size.toLocaleString()} points (limit ${limit.toLocaleString()}) — sweep fewer parameters or use random search.`);
+    }
+    const walk = (i: number, config: EngineConfig) => {
+      if (i === params.length) { candidates.push(monotoneShock(config)); return; }
+      axes[i].forEach(v => walk(i + 1, params[i].set(config, v)));
+    };
+    walk(0, base);
+    return candidates;
+  }
+
+  const random = seededRandom(seed);
+  for (let n = 0; n < limit; n++) {
+    const config = params.reduce((c, p) => {
+      const steps = Math.round((p.max - p.min) / p.step);
+      return p.set(c, Number((p.min + Math.floor(random() * (steps + 1)) * p.step).toFixed(4)));
+    }, base);
+    candidates.push(monotoneShock(config));
+  }
+  return candidates;
+}
+
+// A scenario's ticks, loaded once and replayed for every candidate
+export interface SweepDataset {
+  scenario: CrashScenario;
+  ticks:    NormalizedMarketTick[];
+}
+
+/**
+ * Refuses a sweep whose parameters can't change the result on these
+ * datasets: every grid point would score the same and the "best" values
+ * would be arbitrary. A parameter is dead when its signal has no input on
+ * any tick, or when every tick arrives past flow_reset_gap_ms on the
+ * processing clock, so a signal with a gap reset starts from neutral each time.
+ */
+export function checkSweepable(params: SweepParameter[], datasets: SweepDataset[], base: EngineConfig): void {
+  const ticks     = datasets.flatMap(d => d.ticks);
+  const gapped    = (t: NormalizedMarketTick[]) => t.length > 1 &&
+    t.every((tick, i) => i === 0 || tick.processing_timestamp - t[i - 1].processing_timestamp > base.flow_reset_gap_ms);
+  const alwaysGap = datasets.length > 0 && datasets.every(d => gapped(d.ticks));
+
+  const problems = params.flatMap(p => {
+    const plugin = p.signal ? getSignalPlugin(p.signal) : undefined;
+    if (!plugin) return [];
+    if (plugin.hasInput && !ticks.some(tick => plugin.hasInput(tick))) {
+      return [`${p.label}: ${plugin.label} has no input in these replays`];
+    }
+    if (plugin.onGap && alwaysGap) {
+      return [`${p.label}: ${plugin.label} is reset on every tick (ticks arrive more than ${base.flow_reset_gap_ms / 1000}s apart)`];
+    }
+    return [];
+  });
+  if (problems.length > 0) throw new Error(`Can't sweep — ${problems.join('; ')}.`);
+}
+
+export interface SweepTrial {
+  config:    EngineConfig;
+  runs:      ScenarioBacktest[];
+  score:     BacktestScore;
+  objective: number;
+  baseline:  boolean;
+}
+
+/**
+ * Backtests every candidate on every dataset and ranks them by the
+ * objective, best first. Yields to the event loop after every scenario run
+ * so a browser tab stays responsive; `shouldStop` ends the sweep early with the
+ * trials finished so far.
+ */
+export async function runSweep(
+  datasets:   SweepDataset[],
+  candidates: EngineConfig[],
+  objective:  SweepObjective,
+  onProgress: (done: number, total: number, best: SweepTrial | null) => void = () => {},
+  shouldStop: () => boolean = () => false
+): Promise<SweepTrial[]> {
+  const trials: SweepTrial[] = [];
+  let best: SweepTrial | null = null;
+  const yieldToLoop = () => new Promise(resolve => setTimeout(resolve, 0));
+  for (let i = 0; i < candidates.length && !shouldStop(); i++) {
+    const runs: ScenarioBacktest[] = [];
+    for (const d of datasets) {
+      runs.push(backtestTicks(d.scenario, d.ticks, candidates[i]));
+      await yieldToLoop();
+    }
+    const score = combineScores(runs);
+    const trial = { config: candidates[i], runs, score, objective: objective.score(score), baseline: i === 0 };
+    trials.push(trial);
+    if (!best || trial.objective > best.objective) best = trial;
+    onProgress(i + 1, candidates.length, best);
+  }
+  return trials.sort((a, b) => b.objective - a.objective);
+}
@@ -0,0 +1,92 @@
+import { COVID_CRASH_RANGE, HistoricalRange } from './HistoricalDataLoader';
+
+export interface ExpectedBreach {
+  time:  number; // ms UTC — approximate, see tolerance_ms
+  label: string;
+}
+
+// A named historical window with the moments the engine should flag.
+// Expected breach times come from the public price record (the sharpest leg
+// of each sell-off), not from engine output, so they are a yardstick for it.
+export interface CrashScenario extends HistoricalRange {
+  id:                 string;
+  name:               string;
+  description:        string;
+  expected_breaches:  ExpectedBreach[];
+  // How far from an expected time a breach still counts as "on time"
+  tolerance_ms:       number;
+}
+
+const HOUR = 3_600_000;
+const utc  = (iso: string) => Date.parse(iso);
+
+export const SCENARIOS: CrashScenario[] = [
+  {
+    ...COVID_CRASH_RANGE,
+    id:          'covid-2020',
+    name:        'COVID Black Thursday',
+    description: 'March 2020: equities limit-down and a global dash for cash. BTC halved in 24h as order books emptied and BitMEX went offline mid-cascade.',
+    expected_breaches: [
+      { time: utc('2020-03-12T11:00:00Z'), label: 'First leg: $7.9k → $6k as equities gap down' },
+      { time: utc('2020-03-13T02:00:00Z'), label: 'Capitulation wick below $4k' }
+    ],
+    tolerance_ms: 2 * HOUR
+  },
+  {
+    id:          'may-2021',
+    name:        'May 2021 Crash',
+    symbol:      'BTCUSDT',
+    interval:    '1m',
+    startTime:   utc('2021-05-18T12:00:00Z'),
+    endTime:     utc('2021-05-20T11:59:59Z'),
+    description: '19 May 2021: China mining/payments crackdown on top of record leverage. BTC fell from $43k to $30k intraday; billions in longs liquidated.',
+    expected_breaches: [
+      { time: utc('2021-05-19T13:00:00Z'), label: 'Liquidation cascade into $30k' }
+    ],
+    tolerance_ms: 2 * HOUR
+  },
+  {
+    id:          'luna-2022',
+    name:        'LUNA / UST Collapse',
+    symbol:      'BTCUSDT',
+    interval:    '1m',
+    startTime:   utc('2022-05-07T00:00:00Z'),
+    endTime:     utc('2022-05-12T23:59:59Z'),
+    description: 'May 2022: UST lost its peg and the Luna Foundation Guard sold its BTC reserve to defend it. Replayed on BTC — the original LUNA market no longer exists on Binance.',
+    expected_breaches: [
+      { time: utc('2022-05-09T20:00:00Z'), label: 'UST depeg deepens, BTC breaks $31k' },
+      { time: utc('2022-05-12T07:00:00Z'), label: 'BTC capitulates near $26.7k' }
+    ],
+    tolerance_ms: 3 * HOUR
+  },
+  {
+    id:          'ftx-2022',
+    name:        'FTX Collapse',
+    symbol:      'BTCUSDT',
+    interval:    '1m',
+    startTime:   utc('2022-11-07T00:00:00Z'),
+    endTime:     utc('2022-11-10T23:59:59Z'),
+    description: 'November 2022: a run on FTX, a proposed Binance rescue, then its withdrawal a day later. BTC fell from $21k to $15.5k.',
+    expected_breaches: [
+      { time: utc('2022-11-08T16:00:00Z'), label: 'FTX halts withdrawals; Binance rescue announced' },
+      { time: utc('2022-11-09T21:00:00Z'), label: 'Binance walks away, BTC to $15.5k' }
+    ],
+    tolerance_ms: 3 * HOUR
+  },
+  {
+    id:          'yen-carry-2024',
+    name:        'Yen Carry Unwind',
+    symbol:      'BTCUSDT',
+    interval:    '1m',
+    startTime:   utc('2024-08-04T12:00:00Z'),
+    endTime:     utc('2024-08-05T23:59:59Z'),
+    description: '5 August 2024: a BoJ hike forced yen-funded carry trades to unwind; the Nikkei fell 12% and BTC dropped from $58k to $49k in the Asian session.',
+    expected_breaches: [
+      { time: utc('2024-08-05T01:00:00Z'), label: 'Asian open: crypto leads the de-risking' },
+      { time: utc('2024-08-05T06:00:00Z'), label: 'Nikkei circuit breakers, BTC low near $49k' }
+    ],
+    tolerance_ms: 3 * HOUR
+  }
+];
+
+export const DEFAULT_SCENARIO = SCENARIOS[0];
@@ -0,0 +1,172 @@
+import { ImportRowError, NormalizedMarketTick, Venue } from '../types';
+import { MAX_REPORTED_ROW_ERRORS } from './HistoricalDataLoader';
+
+// Levels per side kept in a recording. total_depth is stored as computed live,
+// so signals reading it are unaffected; only the exposed ladder is trimmed.
+// 20 levels keeps a 6-symbol session at roughly 2 MB per minute.
+const RECORD_DEPTH_LEVELS = 20;
+// ~70 minutes of six symbols at 100ms — beyond this the browser tab starts
+// to struggle holding the session in memory, so recording stops itself.
+const MAX_RECORDED_TICKS  = 250_000;
+
+const SESSION_FORMAT  = 'sentinel-session';
+const SESSION_VERSION = 1;
+
+export interface SessionHeader {
+  format:       typeof SESSION_FORMAT;
+  version:      number;
+  venue:        Venue | 'CONSOLIDATED';
+  started_at:   number;
+  depth_levels: number;
+}
+
+export interface SessionRecording {
+  header:  SessionHeader;
+  ticks:   NormalizedMarketTick[];
+  symbols: string[];
+  // Lines that were not valid ticks — reported, not fatal
+  skipped: number;
+  errors:  ImportRowError[];
+}
+
+/**
+ * Captures live NormalizedMarketTicks (every symbol, as emitted) so a session
+ * can be downloaded and replayed through the engine later.
+ *
+ * File format is JSON Lines: one header object, then one tick per line.
+ * Line-oriented so a truncated download still parses up to the cut.
+ */
+export class SessionRecorder {
+  private header: SessionHeader | null = null;
+  private lines: string[] = [];
+
+  start(venue: Venue | 'CONSOLIDATED'): void {
+    this.header = {
+      format:       SESSION_FORMAT,
+      version:      SESSION_VERSION,
+      venue,
+      started_at:   Date.now(),
+      depth_levels: RECORD_DEPTH_LEVELS
+    };
+    this.lines = [];
+  }
+
+  // Returns false once the recording is full — the caller should stop().
+  record(tick: NormalizedMarketTick): boolean {
+    if (!this.header) return false;
+    if (this.lines.length >= MAX_RECORDED_TICKS) return false;
+    this.lines.push(JSON.stringify({
+      ...tick,
+      bids: tick.bids.slice(0, RECORD_DEPTH_LEVELS),
+      asks: tick.asks.slice(0, RECORD_DEPTH_LEVELS)
+    }));
+    return true;
+  }
+
+  // Ends the recording and returns it as a downloadable Blob (null if idle).
+  stop(): Blob | null {
+    if (!this.header) return null;
+    const blob = new Blob(
+      [JSON.stringify(this.header), '\n', this.lines.join('\n'), '\n'],
+      { type: 'application/x-ndjson' }
+    );
+    this.header = null;
+    this.lines  = [];
+    return blob;
+  }
+
+  isRecording(): boolean { return this.header !== null; }
+  getTickCount(): number { return this.lines.length; }
+  getStartedAt(): number { return this.header?.started_at ?? 0; }
+}
+
+export function downloadSession(blob: Blob, startedAt: number): void {
+  const stamp = new Date(startedAt).toISOString().replace(/[:.]/g, '-');
+  const url   = URL.createObjectURL(blob);
+  const a     = document.createElement('a');
+  a.href      = url;
+  a.download  = `sentinel-session-${stamp}.jsonl`;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Why a parsed object can't be replayed, or null if it can
+function tickProblem(tick: any): string | null {
+  if (!tick || typeof tick !== 'object')         return 'not a JSON object';
+  if (typeof tick.symbol !== 'string')           return 'missing symbol';
+  if (!isFinite(tick.price))                     return 'missing or non-numeric price';
+  if (!isFinite(tick.processing_timestamp))      return 'missing processing_timestamp';
+  if (!tick.trades)                              return 'missing trades';
+  if (!Array.isArray(tick.bids) || !Array.isArray(tick.asks)) return 'missing bids/asks';
+  return null;
+}
+
+/**
+ * Parses a recorded session, or a plain JSON array of NormalizedMarketTicks
+ * (a tick dump — the header is then inferred from the first tick). Throws on
+ * a missing or foreign header; tick lines that fail to parse or lack the
+ * fields the engine needs are skipped, counted and reported.
+ * Ticks are returned in processing_timestamp order.
+ */
+export function parseSession(text: string): SessionRecording {
+  const trimmed = text.trimStart();
+  if (trimmed.length === 0) throw new Error('Session file is empty.');
+
+  const ticks: NormalizedMarketTick[] = [];
+  const errors: ImportRowError[] = [];
+  let skipped = 0;
+  const accept = (tick: any, line: number) => {
+    const problem = tickProblem(tick);
+    if (!problem) { ticks.push(tick); return; }
+    skipped++;
+    if (errors.length < MAX_REPORTED_ROW_ERRORS) errors.push({ line, reason: problem });
+  };
+
+  let header: SessionHeader;
+  if (trimmed.startsWith('[')) {
+    let dump: unknown;
+    try {
+      dump = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Tick dump is not valid JSON.');
+    }
+    // line is the array index + 1 here — a dump has no meaningful lines
+    (dump as any[]).forEach((tick, i) => accept(tick, i + 1));
+    if (ticks.length === 0) throw new Error('Tick dump contains no valid ticks.');
+    header = {
+      format:       SESSION_FORMAT,
+      version:      SESSION_VERSION,
+      venue:        ticks[0].venue,
+      started_at:   ticks.reduce((m, t) => Math.min(m, t.processing_timestamp), Infinity),
+      depth_levels: ticks.reduce((m, t) => Math.max(m, t.bids.length), 0)
+    };
+  } else {
+    const lines = text.split('\n');
+    const first = lines.findIndex(l => l.trim().length > 0);
+    try {
+      header = JSON.parse(lines[first]);
+    } catch {
+      throw new Error('Session header is not valid JSON.');
+    }
+    if (header?.format !== SESSION_FORMAT) throw new Error('Not a Sentinel session recording.');
+    if (header.version > SESSION_VERSION)  throw new Error(`Session version ${header.version} is newer than this build supports.`);
+
+    for (let i = first + 1; i < lines.length; i++) {
+      if (lines[i].trim().length === 0) continue;
+      let tick: unknown;
+      try {
+        tick = JSON.parse(lines[i]);
+      } catch {
+        skipped++;
+        if (errors.length < MAX_REPORTED_ROW_ERRORS) errors.push({ line: i + 1, reason: 'not valid JSON' });
+        continue;
+      }
+      accept(tick, i + 1);
+    }
+    if (ticks.length === 0) throw new Error('Session contains no valid ticks.');
+  }
+
+  ticks.sort((a, b) => a.processing_timestamp - b.processing_timestamp);
+  const symbols = [...new Set(ticks.map(t => t.symbol))];
+  return { header, ticks, symbols, skipped, errors };
+}
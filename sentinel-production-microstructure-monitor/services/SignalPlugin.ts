@@ -0,0 +1,85 @@
+import { ConfidenceLevel, NormalizedMarketTick, Reflexivity, SignalOutput, StressLevel, SymbolConfig } from '../types';
+import type { EngineConfig } from './EngineConfig';
+
+// What a signal sees besides the tick: the symbol it scores, the engine
+// config in force and its own trigger threshold from that config.
+export interface SignalContext {
+  symbol:  SymbolConfig;
+  unit:    string;  // base asset, for explanation text
+  config:  EngineConfig;
+  trigger: number;
+}
+
+// 'CORE' signals combine into the named failure patterns in SignalRegistry
+// (LIQUIDITY VACUUM SELLOFF, ...). Any other signal qualifies whatever
+// pattern is active with its own label, or stands alone when it is the only
+// trigger.
+export type SignalPattern = 'CORE' | { qualifier: string };
+
+/**
+ * One stress signal. The engine keeps a state object per signal, runs
+ * process() on every tick and weights the 0–100 value it returns; nothing
+ * else in the engine knows which signals exist. Register new signals in
+ * SignalRegistry.
+ */
+export interface SignalPlugin<S = any> {
+  // SignalOutput.name, and the key of the signal's weight and trigger in
+  // EngineConfig. Human-readable: it is what the cards and traces show.
+  readonly id:      string;
+  // Short name for compact UI ("Forced selling")
+  readonly label:   string;
+  // One-letter badge in the structural-integrity strip
+  readonly badge:   string;
+  // Three- or four-letter tag in the decision trace ("LIQ")
+  readonly short:   string;
+  // StressScore.breakdown key
+  readonly key:     string;
+  // Defaults for DEFAULT_ENGINE_CONFIG. Weight 0 ships a signal opt-in: it
+  // runs, shows on its card and in the causal sequence, but neither moves
+  // the score nor counts toward the shock table until it is given a weight
+  readonly weight:  number;
+  readonly trigger: number;
+  readonly pattern: SignalPattern;
+
+  createState(ctx: SignalContext): S;
+  // Config swapped mid-stream: resize buffers in place, keeping samples
+  configure?(state: S, ctx: SignalContext): void;
+  // False when the tick carries nothing this signal reads (no venue quotes,
+  // no perp feed); its weight is then shared out among the others. Default true.
+  hasInput?(tick: NormalizedMarketTick): boolean;
+  // The feed went quiet for longer than flow_reset_gap_ms
+  onGap?(state: S): void;
+  process(tick: NormalizedMarketTick, state: S, ctx: SignalContext): SignalOutput;
+  // Why the signal has the confidence it has, for the decision trace
+  confidenceRule(tick: NormalizedMarketTick, state: S, ctx: SignalContext): string;
+  // Compact reading for the risk assessment line when triggered ("Vol 72/100")
+  summarize(signal: SignalOutput): string;
+  // A signal that estimates trade self-excitation reports it here for the
+  // causal sequence's reflexivity component
+  reflexivity?(state: S): Reflexivity | null;
+}
+
+// ── Helpers shared by the signals and the engine ─────────────────────────────
+
+export const safeNum = (val: number, fallback = 0): number =>
+  isFinite(val) && !isNaN(val) ? val : fallback;
+
+export const determineConfidence = (value: number, high: number, med: number): ConfidenceLevel => {
+  if (value >= high) return ConfidenceLevel.HIGH;
+  if (value >= med)  return ConfidenceLevel.MEDIUM;
+  return ConfidenceLevel.LOW;
+};
+
+export const getSeverity = (risk: number): StressLevel => {
+  if (risk < 25) return StressLevel.STABLE;
+  if (risk < 50) return StressLevel.ELEVATED;
+  if (risk < 75) return StressLevel.STRESSED;
+  if (risk < 90) return StressLevel.UNSTABLE;
+  return StressLevel.CRITICAL;
+};
+
+export const defaultSignal = (name: string, ts: number): SignalOutput => ({
+  name, value: 0, severity: StressLevel.STABLE, triggered: false,
+  raw_metrics: {}, explanation: 'Insufficient data.',
+  confidence: ConfidenceLevel.LOW, timestamp: ts
+});
@@ -0,0 +1,75 @@
+import { SignalOutput } from '../types';
+import { SignalPlugin } from './SignalPlugin';
+import { LiquiditySignal }       from './signals/LiquiditySignal';
+import { FlowSignal }            from './signals/FlowSignal';
+import { VolatilitySignal }      from './signals/VolatilitySignal';
+import { ForcedSellingSignal }   from './signals/ForcedSellingSignal';
+import { VenueDivergenceSignal } from './signals/VenueDivergenceSignal';
+import { LeverageSignal }        from './signals/LeverageSignal';
+import { QuoteImbalanceSignal }  from './signals/QuoteImbalanceSignal';
+import { SpreadSignal }          from './signals/SpreadSignal';
+import { PriceImpactSignal }     from './signals/PriceImpactSignal';
+import { VpinSignal }            from './signals/VpinSignal';
+import { HawkesSignal }          from './signals/HawkesSignal';
+import { ResiliencySignal }      from './signals/ResiliencySignal';
+
+// Every signal the engine runs, in display order. Adding a signal is a
+// plugin file and a line here: default weights and triggers, the settings
+// panel, CSV columns, pattern labels and badges all read this list.
+//
+// Default weights: the four core signals sum to 1.0 and every other signal is
+// sized on top of that — smaller the more it overlaps a core signal or the
+// noisier its estimate. The engine normalizes over the signals with input on
+// each tick, so a new signal shrinks every share but leaves the core ratios
+// as configured.
+export const SIGNAL_REGISTRY: readonly SignalPlugin[] = [
+  LiquiditySignal,
+  FlowSignal,
+  VolatilitySignal,
+  ForcedSellingSignal,
+  VenueDivergenceSignal,
+  LeverageSignal,
+  QuoteImbalanceSignal,
+  SpreadSignal,
+  PriceImpactSignal,
+  VpinSignal,
+  HawkesSignal,
+  ResiliencySignal
+];
+
+export const getSignalPlugin = (id: string): SignalPlugin | undefined =>
+  SIGNAL_REGISTRY.find(p => p.id === id);
+
+// ─── Named structural failure patterns ───────────────────────────────────────
+// Keyed by the badges of the triggered CORE signals, in registry order.
+const PATTERN_LABELS: Record<string, string> = {
+  'L':    'LIQUIDITY DRAIN',
+  'F':    'SELL PRESSURE',
+  'V':    'INTRADAY VOLATILITY SPIKE',
+  'S':    'INSTITUTIONAL EXIT',
+  'LF':   'LIQUIDITY VACUUM SELLOFF',
+  'LV':   'DEPTH COLLAPSE + VOLATILITY',
+  'LS':   'WHALE EXECUTION INTO THIN BOOK',
+  'FV':   'PANIC SELLING CASCADE',
+  'FS':   'COORDINATED INSTITUTIONAL EXIT',
+  'VS':   'FORCED LIQUIDATION SPIRAL',
+  'LFV':  'MULTI-VECTOR BREAKDOWN',
+  'LFS':  'STRUCTURAL MARKET FAILURE',
+  'LVS':  'LIQUIDITY CRISIS',
+  'FVS':  'CAPITULATION EVENT',
+  'LFVS': 'FULL MARKET BREAKDOWN — BLACK SWAN',
+};
+
+// The core pattern, then each triggered qualifier's label, joined with " + ".
+// A core combination with no name of its own contributes nothing.
+export function patternLabel(signals: Record<string, SignalOutput>): string | null {
+  const core = SIGNAL_REGISTRY
+    .filter(p => p.pattern === 'CORE' && signals[p.id]?.triggered)
+    .map(p => p.badge)
+    .join('');
+  const labels = [
+    PATTERN_LABELS[core],
+    ...SIGNAL_REGISTRY.map(p => p.pattern !== 'CORE' && signals[p.id]?.triggered ? p.pattern.qualifier : null)
+  ].filter(Boolean);
+  return labels.length > 0 ? labels.join(' + ') : null;
+}
@@ -0,0 +1,70 @@
+import { ConfidenceLevel, SignalType } from '../../types';
+import { SignalPlugin, SignalContext, safeNum, determineConfidence, getSeverity } from '../SignalPlugin';
+
+// FIX [C]: Flow EMA over sell ratio (0.0–1.0), not the risk value.
+// α_up=0.25 (fast attack), α_down=0.08 (slow decay).
+// Eliminates the 0→80→0→60 flicker of the old tick-by-tick raw formula.
+interface FlowState {
+  sellRatioEMA: number;
+}
+
+// Confidence bands, as multiples of the symbol's block size
+const highQty   = (ctx: SignalContext) => ctx.symbol.min_block_qty * 4; // 2.0 BTC/tick
+const mediumQty = (ctx: SignalContext) => ctx.symbol.min_block_qty;     // 0.5 BTC/tick
+
+// ── ORDER FLOW (FIX [C] partial) ──────────────────────────────────────────
+// EMA of sell ratio. The engine calls onGap after a data gap, before this runs.
+export const FlowSignal: SignalPlugin<FlowState> = {
+  id:      SignalType.FLOW,
+  label:   'Flow',
+  badge:   'F',
+  short:   'FLOW',
+  key:     'flow',
+  weight:  0.25,
+  trigger: 65,
+  pattern: 'CORE',
+
+  createState: () => ({ sellRatioEMA: 0.50 }),
+  // Ghost-kill: pre-gap panic shouldn't haunt the signal after a reconnect
+  onGap: state => { state.sellRatioEMA = 0.50; },
+
+  process(tick, state, ctx) {
+    const totalVol = safeNum(tick.trades.buy_volume + tick.trades.sell_volume, 0);
+    const rawRatio = totalVol > 0
+      ? safeNum(tick.trades.sell_volume / totalVol, 0.5)
+      : 0.5;
+
+    const alpha = rawRatio > state.sellRatioEMA ? ctx.config.flow_alpha_up : ctx.config.flow_alpha_down;
+    state.sellRatioEMA = safeNum(
+      alpha * rawRatio + (1 - alpha) * state.sellRatioEMA, 0.5
+    );
+
+    const risk = safeNum(Math.max(0, (state.sellRatioEMA - 0.5) * 200), 0);
+    const confidence = totalVol > 0
+      ? determineConfidence(totalVol, highQty(ctx), mediumQty(ctx))
+      : ConfidenceLevel.LOW;
+
+    const sellPct   = (state.sellRatioEMA * 100).toFixed(1);
+    const imbalance = safeNum(
+      state.sellRatioEMA / Math.max(1 - state.sellRatioEMA, 0.01), 1
+    ).toFixed(2);
+
+    return {
+      name:        SignalType.FLOW,
+      value:       Math.round(risk),
+      severity:    getSeverity(risk),
+      triggered:   risk > ctx.trigger,
+      raw_metrics: { 'Sell EMA': `${sellPct}%`, 'Imbalance': imbalance },
+      explanation: risk > ctx.trigger
+        ? `Sustained sell pressure: ${sellPct}% sell EMA (6+ ticks of 85%+ selling).`
+        : 'Order flow balanced — no directional selling pressure.',
+      confidence,
+      timestamp: tick.processing_timestamp,
+    };
+  },
+
+  confidenceRule: (_tick, _state, ctx) =>
+    `Volume this tick — need ≥${highQty(ctx)} ${ctx.unit}/tick for HIGH, ≥${mediumQty(ctx)} for MEDIUM`,
+
+  summarize: s => `Flow ${s.value.toFixed(0)}/100`
+};
@@ -0,0 +1,101 @@
+import { ConfidenceLevel, SignalType } from '../../types';
+import { CircularBuffer } from '../CircularBuffer';
+import { SignalPlugin, safeNum, determineConfidence, getSeverity } from '../SignalPlugin';
+
+// Long-liquidation volume per tick over the last 10s. Binance publishes at
+// most one liquidation per symbol per second, so a single tick is too
+// sparse to score — the rolling sum is what the signal reads.
+interface ForcedSellingState {
+  liquidations: CircularBuffer<number>;
+}
+
+// ── FORCED SELLING ─────────────────────────────────────────────────────────
+// Two inputs:
+//   blocks       — large spot sells (p90 threshold). A proxy: a block can be
+//                  discretionary, so on its own it only suggests forcing.
+//   liquidations — long liquidations from the futures liquidation engine,
+//                  summed over 10s. Literal forced selling, when the feed has it.
+// Blend: the stronger input leads and the weaker adds half of itself, so
+// corroboration raises the score while neither input alone is diluted.
+// Without a liquidation feed the signal is the block heuristic, unchanged.
+// Full scale: 15 BTC of blocks, 30 BTC of longs per 10s (at 0.5 BTC/block).
+export const ForcedSellingSignal: SignalPlugin<ForcedSellingState> = {
+  id:      SignalType.FORCED_SELLING,
+  label:   'Forced selling',
+  badge:   'S',
+  short:   'SELL',
+  key:     'forcedSelling',
+  weight:  0.15,
+  trigger: 50,
+  pattern: 'CORE',
+
+  createState: ctx => ({ liquidations: new CircularBuffer<number>(ctx.config.buffers.liquidation) }),
+  configure:   (state, ctx) => state.liquidations.resize(ctx.config.buffers.liquidation),
+
+  process(tick, state, ctx) {
+    const unit          = ctx.unit;
+    const largeSells    = tick.trades.large_trades.filter(t => t.side === 'sell');
+    const totalLargeVol = safeNum(largeSells.reduce((s, t) => s + t.quantity, 0), 0);
+    const blockCount    = largeSells.length;
+    const blockRisk     = safeNum(Math.min(100, (totalLargeVol / (ctx.symbol.min_block_qty * 30)) * 100), 0);
+
+    if (!tick.liquidations) {
+      return {
+        name:        SignalType.FORCED_SELLING,
+        value:       Math.round(blockRisk),
+        severity:    getSeverity(blockRisk),
+        triggered:   blockRisk > ctx.trigger,
+        raw_metrics: { 'Whale Vol': `${totalLargeVol.toFixed(2)} ${unit}`, 'Blocks': blockCount },
+        explanation: blockRisk > ctx.trigger
+          ? `Block selling: ${totalLargeVol.toFixed(2)} ${unit} across ${blockCount} block${blockCount !== 1 ? 's' : ''}.`
+          : 'No significant block selling detected.',
+        confidence:  determineConfidence(blockCount, 3, 1),
+        timestamp:   tick.processing_timestamp,
+      };
+    }
+
+    state.liquidations.push(safeNum(tick.liquidations.sell_volume, 0));
+    const liqVol   = safeNum(state.liquidations.getAll().reduce((s, v) => s + v, 0), 0);
+    const liqCount = tick.liquidations.orders.filter(l => l.side === 'sell').length;
+    const liqRisk  = safeNum(Math.min(100, (liqVol / (ctx.symbol.min_block_qty * 60)) * 100), 0);
+
+    const risk = Math.min(100, Math.max(blockRisk, liqRisk) + 0.5 * Math.min(blockRisk, liqRisk));
+    // Liquidations corroborated by blocks are as strong as ≥3 blocks; either
+    // input alone is MEDIUM. Blocks-only keeps the original rule.
+    const confidence = liqVol > 0 && blockCount > 0 ? ConfidenceLevel.HIGH
+                     : liqVol > 0                   ? ConfidenceLevel.MEDIUM
+                     : determineConfidence(blockCount, 3, 1);
+
+    const parts: string[] = [];
+    if (liqRisk > 0)   parts.push(`${liqVol.toFixed(2)} ${unit} of longs liquidated in 10s`);
+    if (blockRisk > 0) parts.push(`${totalLargeVol.toFixed(2)} ${unit} block selling across ${blockCount} block${blockCount !== 1 ? 's' : ''}`);
+
+    return {
+      name:        SignalType.FORCED_SELLING,
+      value:       Math.round(risk),
+      severity:    getSeverity(risk),
+      triggered:   risk > ctx.trigger,
+      raw_metrics: {
+        'Whale Vol':  `${totalLargeVol.toFixed(2)} ${unit}`,
+        'Blocks':     blockCount,
+        'Liq Vol 10s': `${liqVol.toFixed(2)} ${unit}`,
+        'Liq Orders': liqCount,
+        'Block Risk': Math.round(blockRisk),
+        'Liq Risk':   Math.round(liqRisk)
+      },
+      explanation: risk > ctx.trigger
+        ? `Forced selling: ${parts.join(' + ')}.`
+        : liqVol > 0
+          ? `Minor liquidations (${liqVol.toFixed(2)} ${unit} in 10s) — no cascade.`
+          : 'No significant block selling or long liquidations detected.',
+      confidence,
+      timestamp: tick.processing_timestamp,
+    };
+  },
+
+  confidenceRule: tick => tick.liquidations
+    ? `Liquidations + ≥1 block = HIGH, liquidations alone = MEDIUM, else blocks (≥3 = HIGH, ≥1 = MEDIUM)`
+    : `Block count — ≥3 blocks = HIGH, ≥1 = MEDIUM, 0 = LOW (no liquidation feed)`,
+
+  summarize: s => `Whale ${s.value.toFixed(0)}/100`
+};
@@ -0,0 +1,141 @@
+import { ConfidenceLevel, Reflexivity } from '../../types';
+import { CircularBuffer } from '../CircularBuffer';
+import { SignalPlugin, safeNum, determineConfidence, getSeverity, defaultSignal } from '../SignalPlugin';
+
+interface HawkesState {
+  binStart: number;                 // exchange time the open bin started; 0 = none
+  binTrades: number;
+  binSells:  number;
+  bins:  CircularBuffer<number>;    // trade arrivals per completed bin
+  sells: CircularBuffer<number>;    // of which aggressive sells
+  binSeconds: number;               // length of the last completed bin
+  last: Reflexivity | null;
+}
+
+const ID = 'Trade Clustering (Hawkes)';
+
+// Arrivals are counted per 1s of exchange time, so replay speed doesn't matter
+const BIN_MS = 1000;
+// Fano factors over fewer bins are noise
+const MIN_BINS = 30;
+// Branching ratio: 0.50 = 0, 0.90 = 100 (0.74 is the trigger). One-second
+// bins are not much longer than a sub-second kernel, which biases n low
+const N_FLOOR = 0.50;
+const N_SPAN  = 0.40;
+// Estimates are capped below 1: at n = 1 the process is explosive and the
+// moment estimator has no finite answer
+const N_MAX = 0.99;
+
+// ── TRADE CLUSTERING (HAWKES) ─────────────────────────────────────────────
+// Cascades show up as trades arriving in clusters — each fill triggering
+// more — well before a candle looks bad. In a Hawkes process with branching
+// ratio n (the share of trades set off by earlier trades rather than by
+// outside news), counts over windows much longer than the kernel have a
+// Fano factor F = var / mean = 1 / (1 − n)², so n = 1 − 1/√F (Hardiman &
+// Bouchaud's moment estimator). Poisson arrivals give F = 1, n = 0; n → 1 is
+// criticality, where the market's own trading sustains itself. Fitted over
+// the last 300 one-second bins of buy_count + sell_count; kline replays
+// derive those counts from volume, so there is no input there. A rising arrival
+// rate inside the window also inflates F, so a surge reads as reflexive —
+// which is how it behaves in a cascade. The reading feeds the causal
+// sequence's reflexivity component.
+export const HawkesSignal: SignalPlugin<HawkesState> = {
+  id:      ID,
+  label:   'Reflexivity',
+  badge:   'H',
+  short:   'HAWK',
+  key:     'hawkes',
+  weight:  0.08, // Clustering has no direction: a buying surge scores too
+  trigger: 60,
+  pattern: { qualifier: 'REFLEXIVE CASCADE' },
+
+  createState: ctx => ({
+    binStart:   0,
+    binTrades:  0,
+    binSells:   0,
+    bins:       new CircularBuffer<number>(ctx.config.buffers.hawkes),
+    sells:      new CircularBuffer<number>(ctx.config.buffers.hawkes),
+    binSeconds: BIN_MS / 1000,
+    last:       null
+  }),
+  configure: (state, ctx) => {
+    state.bins.resize(ctx.config.buffers.hawkes);
+    state.sells.resize(ctx.config.buffers.hawkes);
+  },
+  hasInput: tick => !tick.synthesized?.trade_counts,
+  // No ticks means no data, not zero arrivals: drop the open bin
+  onGap: state => { state.binStart = state.binTrades = state.binSells = 0; },
+
+  process(tick, state, ctx) {
+    if (tick.synthesized?.trade_counts) {
+      state.last = null;
+      return {
+        ...defaultSignal(ID, tick.processing_timestamp),
+        explanation: 'Trade counts on this replay are derived from volume, not recorded arrivals.'
+      };
+    }
+
+    const now = tick.exchange_timestamp;
+    if (state.binStart > 0 && now - state.binStart >= BIN_MS) {
+      state.bins.push(state.binTrades);
+      state.sells.push(state.binSells);
+      state.binSeconds = (now - state.binStart) / 1000;
+      state.binStart = state.binTrades = state.binSells = 0;
+    }
+    if (state.binStart === 0) state.binStart = now;
+    state.binTrades += safeNum(tick.trades.buy_count + tick.trades.sell_count, 0);
+    state.binSells  += safeNum(tick.trades.sell_count, 0);
+
+    const n = state.bins.size();
+    if (n < MIN_BINS) {
+      state.last = null;
+      return {
+        ...defaultSignal(ID, tick.processing_timestamp),
+        explanation: `Counting trade arrivals (${n}/${MIN_BINS} bins).`
+      };
+    }
+
+    const counts   = state.bins.getAll();
+    const mean     = state.bins.mean();
+    const variance = state.bins.standardDeviation() ** 2;
+    const fano     = mean > 0 ? safeNum(variance / mean, 1) : 1;
+    const ratio    = fano > 1 ? Math.min(N_MAX, safeNum(1 - 1 / Math.sqrt(fano), 0)) : 0;
+    const risk     = safeNum(Math.min(100, Math.max(0, ((ratio - N_FLOOR) / N_SPAN) * 100)), 0);
+
+    const intensity  = safeNum(counts[counts.length - 1] / state.binSeconds, 0);
+    const baseRate   = safeNum((mean * (1 - ratio)) / state.binSeconds, 0);
+    const totalSells = state.sells.getAll().reduce((s, v) => s + v, 0);
+    const sellShare  = mean > 0 ? safeNum(totalSells / (mean * n), 0) : 0;
+    // Under one trade per bin the counts are mostly zeros and F says little
+    const confidence = mean < 1 ? ConfidenceLevel.LOW : determineConfidence(n, 120, MIN_BINS);
+    const triggered  = risk > ctx.trigger;
+
+    state.last = { branching_ratio: ratio, intensity, base_rate: baseRate, critical: triggered };
+
+    return {
+      name:        ID,
+      value:       Math.round(risk),
+      severity:    getSeverity(risk),
+      triggered,
+      raw_metrics: {
+        'Branching':  ratio.toFixed(2),
+        'Fano':       fano.toFixed(1),
+        'Rate':       `${intensity.toFixed(1)}/s`,
+        'Base μ':     `${baseRate.toFixed(1)}/s`,
+        'Sell Share': `${(sellShare * 100).toFixed(0)}%`
+      },
+      explanation: triggered
+        ? `Near-critical clustering: branching ratio ${ratio.toFixed(2)} — ${(ratio * 100).toFixed(0)}% of trades are triggered by earlier trades (${intensity.toFixed(1)}/s vs base ${baseRate.toFixed(1)}/s).`
+        : `Branching ratio ${ratio.toFixed(2)} over ${n} bins — ${ratio < 0.3 ? 'arrivals close to independent' : 'moderate self-excitation'}.`,
+      confidence,
+      timestamp: tick.processing_timestamp,
+    };
+  },
+
+  confidenceRule: (_tick, state, ctx) =>
+    `${state.bins.size()}/${ctx.config.buffers.hawkes} arrival bins (need ≥120 for HIGH, ≥${MIN_BINS} for MEDIUM; LOW under one trade per bin)`,
+
+  summarize: s => `Hawkes ${s.value.toFixed(0)}/100`,
+
+  reflexivity: state => state.last
+};
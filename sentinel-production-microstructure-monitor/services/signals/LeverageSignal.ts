@@ -0,0 +1,88 @@
+import { SignalType } from '../../types';
+import { CircularBuffer } from '../CircularBuffer';
+import { SignalPlugin, safeNum, determineConfidence, getSeverity, defaultSignal } from '../SignalPlugin';
+
+// Open interest, one sample per poll (~10s), so 360 samples ≈ 1 hour.
+// The p10 of the window is the "before the build-up" baseline.
+interface LeverageState {
+  openInterest:       CircularBuffer<number>;
+  lastOpenInterestTs: number;
+}
+
+const clamp = (v: number) => safeNum(Math.min(100, Math.max(0, v)), 0);
+
+// ── LEVERAGE & BASIS ──────────────────────────────────────────────────────
+// Leverage turns a dip into a cascade: crowded longs become forced sellers.
+// Three perpetual-futures measures, each scaled 0–100:
+//   OI build-up — open interest vs its 1h p10 baseline; +10% = 100
+//   funding     — |rate| above the 0.01%/8h neutral level; 0.10% = 100
+//   basis       — |mark − spot mid| beyond 5 bps of noise; 50 bps = 100
+// Blended 0.40 / 0.35 / 0.25: OI is the stock of leverage, funding and
+// basis are the price of it. Triggers above 60, like Venue Divergence.
+// Leverage is fuel rather than failure, so it qualifies the active pattern —
+// "SELL PRESSURE + CROWDED LEVERAGE" is the cascade setup.
+export const LeverageSignal: SignalPlugin<LeverageState> = {
+  id:      SignalType.LEVERAGE,
+  label:   'Leverage',
+  badge:   'X',
+  short:   'LEV',
+  key:     'leverage',
+  weight:  0.15,
+  trigger: 60,
+  pattern: { qualifier: 'CROWDED LEVERAGE' },
+
+  createState: ctx => ({ openInterest: new CircularBuffer<number>(ctx.config.buffers.open_interest), lastOpenInterestTs: 0 }),
+  configure:   (state, ctx) => state.openInterest.resize(ctx.config.buffers.open_interest),
+  hasInput:    tick => !!tick.perp,
+
+  process(tick, state, ctx) {
+    const perp = tick.perp;
+    if (!perp || perp.mark_price <= 0 || tick.mid_price <= 0) {
+      return {
+        ...defaultSignal(SignalType.LEVERAGE, tick.processing_timestamp),
+        explanation: 'No perpetual futures feed for this symbol.'
+      };
+    }
+
+    if (perp.open_interest_timestamp > state.lastOpenInterestTs && perp.open_interest > 0) {
+      state.openInterest.push(perp.open_interest);
+      state.lastOpenInterestTs = perp.open_interest_timestamp;
+    }
+    const oiBaseline  = state.openInterest.percentile(0.10, perp.open_interest);
+    const oiGrowthPct = oiBaseline > 0 ? safeNum((perp.open_interest / oiBaseline - 1) * 100, 0) : 0;
+    const basisBps    = safeNum(((perp.mark_price - tick.mid_price) / tick.mid_price) * 10000, 0);
+
+    const oiRisk      = clamp((oiGrowthPct / 10) * 100);
+    const fundingRisk = clamp(((Math.abs(perp.funding_rate) - 0.0001) / 0.0009) * 100);
+    const basisRisk   = clamp(((Math.abs(basisBps) - 5) / 45) * 100);
+    const risk        = 0.40 * oiRisk + 0.35 * fundingRisk + 0.25 * basisRisk;
+    const confidence  = determineConfidence(state.openInterest.size(), 30, 6);
+
+    const fundingPct = (perp.funding_rate * 100).toFixed(4);
+    const crowded    = perp.funding_rate >= 0 ? 'longs paying' : 'shorts paying';
+
+    return {
+      name:        SignalType.LEVERAGE,
+      value:       Math.round(risk),
+      severity:    getSeverity(risk),
+      triggered:   risk > ctx.trigger,
+      raw_metrics: {
+        'Funding':   `${fundingPct}%`,
+        'OI Δ 1h':   `${oiGrowthPct >= 0 ? '+' : ''}${oiGrowthPct.toFixed(1)}%`,
+        'OI':        `${perp.open_interest.toFixed(0)} ${ctx.unit}`,
+        'Basis':     `${basisBps.toFixed(1)} bps`
+      },
+      explanation: risk > ctx.trigger
+        ? `Leverage build-up: OI +${oiGrowthPct.toFixed(1)}% over 1h low, funding ${fundingPct}%/8h (${crowded}), perp ${basisBps >= 0 ? 'premium' : 'discount'} ${Math.abs(basisBps).toFixed(1)} bps.`
+        : `Leverage within normal range — funding ${fundingPct}%/8h, OI ${oiGrowthPct >= 0 ? '+' : ''}${oiGrowthPct.toFixed(1)}% vs 1h low.`,
+      confidence,
+      timestamp: tick.processing_timestamp,
+    };
+  },
+
+  confidenceRule: (tick, state, ctx) => tick.perp
+    ? `${state.openInterest.size()}/${ctx.config.buffers.open_interest} open-interest samples (need ≥30 for HIGH, ≥6 for MEDIUM)`
+    : `No perpetual feed — excluded from weighting`,
+
+  summarize: s => `Lev ${s.value.toFixed(0)}/100`
+};
@@ -0,0 +1,76 @@
+import { SignalType } from '../../types';
+import { CircularBuffer } from '../CircularBuffer';
+import { SignalPlugin, safeNum, determineConfidence, getSeverity, defaultSignal } from '../SignalPlugin';
+
+// FIX [B]: liquidityBuffer expanded to 600 ticks (60 seconds at 100ms cadence).
+// Baseline is now the 90th percentile of depth in this window.
+// WHY: a 300-tick mean adapts fully within 30 seconds of sustained crisis,
+// making the signal drop to zero while the market is still structurally broken.
+// A 600-tick p90 anchor holds the pre-crisis reference for ~60 real seconds
+// before the sustained thin book starts to lower the anchor.
+// This is intentional: after 60 real seconds at new depth levels, the engine
+// acknowledges it as a new regime rather than an ongoing anomaly.
+interface LiquidityState {
+  depth: CircularBuffer<number>;
+}
+
+// ── LIQUIDITY FRAGILITY (FIX [B]) ─────────────────────────────────────────
+// OLD: 300-tick mean baseline. During prolonged crisis (>30s), baseline
+// adapts fully to the new thin-book regime and signal drops to zero while
+// the market is still broken.
+//
+// FIX: 600-tick p90 anchor baseline.
+// - p90 of depth = "what the book normally looks like at its best 90% of time"
+// - During sustained crisis: p90 stays at pre-crisis level until 60% of the
+//   600-tick window is replaced by panic-level depth readings (~60 real seconds)
+// - After 60 real seconds of sustained thin book: the engine acknowledges it
+//   as a new regime, anchor gradually lowers — this is CORRECT behavior
+// - Normal (non-panic) depth fluctuations do not move the p90 anchor
+export const LiquiditySignal: SignalPlugin<LiquidityState> = {
+  id:      SignalType.LIQUIDITY,
+  label:   'Liquidity',
+  badge:   'L',
+  short:   'LIQ',
+  key:     'liquidity',
+  weight:  0.35,
+  trigger: 65,
+  pattern: 'CORE',
+
+  createState: ctx => ({ depth: new CircularBuffer<number>(ctx.config.buffers.liquidity) }),
+  configure:   (state, ctx) => state.depth.resize(ctx.config.buffers.liquidity),
+
+  process(tick, state, ctx) {
+    state.depth.push(safeNum(tick.total_depth, 0.1));
+
+    // p90 anchor: the depth level at or above which the book sits 10% of the time.
+    // When depth collapses, this anchor holds the pre-crisis reference.
+    const anchor = safeNum(state.depth.percentile(0.90, tick.total_depth), 0.1);
+    if (anchor <= 0) return defaultSignal(SignalType.LIQUIDITY, tick.processing_timestamp);
+
+    const depthChange = safeNum(((tick.total_depth - anchor) / anchor) * 100, 0);
+    const risk = depthChange >= 0 ? 0 : Math.min(100, (-depthChange / 40) * 100);
+    const confidence = determineConfidence(state.depth.size(), 60, 20);
+
+    return {
+      name:        SignalType.LIQUIDITY,
+      value:       Math.round(risk),
+      severity:    getSeverity(risk),
+      triggered:   risk > ctx.trigger,
+      raw_metrics: {
+        'Depth':    safeNum(tick.total_depth).toFixed(1),
+        'Anchor':   anchor.toFixed(1),
+        'Δ Anchor': `${safeNum(depthChange).toFixed(1)}%`
+      },
+      explanation: risk > ctx.trigger
+        ? `Depth ${Math.abs(depthChange).toFixed(1)}% below ${Math.round(ctx.config.buffers.liquidity / 10)}s p90 anchor (${anchor.toFixed(1)} ${ctx.unit}) — structural thinning.`
+        : `Depth within p90 anchor range (${anchor.toFixed(1)} ${ctx.unit}).`,
+      confidence,
+      timestamp: tick.processing_timestamp,
+    };
+  },
+
+  confidenceRule: (_tick, state, ctx) =>
+    `${state.depth.size()}/${ctx.config.buffers.liquidity} depth samples (p90 anchor — need ≥60 for HIGH)`,
+
+  summarize: s => `Liq −${s.value.toFixed(0)}%`
+};
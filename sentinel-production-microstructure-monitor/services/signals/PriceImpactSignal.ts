@@ -0,0 +1,129 @@
+import { ConfidenceLevel } from '../../types';
+import { CircularBuffer } from '../CircularBuffer';
+import { SignalPlugin, SignalContext, safeNum, getSeverity, defaultSignal } from '../SignalPlugin';
+
+interface PriceImpactState {
+  prevMid: number;
+  // (net aggressor volume, mid change in bps) for ticks that traded
+  samples: CircularBuffer<[number, number]>;
+  // λ estimates, one per new sample, for the regime baseline
+  lambdas: CircularBuffer<number>;
+}
+
+const ID = 'Price Impact (Kyle λ)';
+
+// Regressions on fewer traded ticks are too noisy to score
+const MIN_SAMPLES = 30;
+// The baseline window is this many regression windows long
+const BASELINE_WINDOWS = 4;
+// λ / baseline: 1.5× = 0, 4× = 100
+const RATIO_FLOOR = 1.5;
+const RATIO_SPAN  = 2.5;
+
+const baselineSize = (ctx: SignalContext) => ctx.config.buffers.impact * BASELINE_WINDOWS;
+
+// OLS slope of y on x, with R²
+const regress = (pairs: [number, number][]) => {
+  const n  = pairs.length;
+  const mx = pairs.reduce((s, [x]) => s + x, 0) / n;
+  const my = pairs.reduce((s, [, y]) => s + y, 0) / n;
+  let sxx = 0, sxy = 0, syy = 0;
+  pairs.forEach(([x, y]) => {
+    sxx += (x - mx) ** 2;
+    sxy += (x - mx) * (y - my);
+    syy += (y - my) ** 2;
+  });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const r2    = sxx > 0 && syy > 0 ? (sxy * sxy) / (sxx * syy) : 0;
+  return { slope: safeNum(slope, 0), r2: safeNum(r2, 0) };
+};
+
+// ── PRICE IMPACT (KYLE'S λ) ───────────────────────────────────────────────
+// Liquidity measures resting quantity; λ measures what it is worth. Over the
+// last 300 ticks that traded, regress the mid change (bps) on net aggressor volume
+// (buys − sells): the slope is bps of price move per unit of signed flow.
+// Risk scales with λ against its own p50 over four windows — a book that
+// suddenly moves 3× as far for the same flow can no longer absorb it, even
+// if the depth figure has not dropped yet. Negative λ (price moving against
+// the flow) carries no absorption information and scores 0.
+export const PriceImpactSignal: SignalPlugin<PriceImpactState> = {
+  id:      ID,
+  label:   'Price impact',
+  badge:   'K',
+  short:   'IMP',
+  key:     'priceImpact',
+  weight:  0.05, // Absorption, which no core signal reads, but a noisy estimate
+  trigger: 70,   // λ 3.25× its baseline — a regression slope is noisier than a spread
+  pattern: { qualifier: 'ABSORPTION FAILURE' },
+
+  createState: ctx => ({
+    prevMid: 0,
+    samples: new CircularBuffer<[number, number]>(ctx.config.buffers.impact),
+    lambdas: new CircularBuffer<number>(baselineSize(ctx))
+  }),
+  configure: (state, ctx) => {
+    state.samples.resize(ctx.config.buffers.impact);
+    state.lambdas.resize(baselineSize(ctx));
+  },
+  // No onGap reset: a kline tick's flow covers the whole move since the last
+  // close, and one stale pair after a live reconnect is noise among 300
+
+  process(tick, state, ctx) {
+    const mid     = tick.mid_price > 0 ? tick.mid_price : tick.price;
+    const netFlow = safeNum(tick.trades.buy_volume - tick.trades.sell_volume, 0);
+    const traded  = tick.trades.buy_volume + tick.trades.sell_volume > 0;
+    const sampled = state.prevMid > 0 && mid > 0 && traded;
+    if (sampled) {
+      state.samples.push([netFlow, safeNum(((mid - state.prevMid) / state.prevMid) * 10000, 0)]);
+    }
+    if (mid > 0) state.prevMid = mid;
+
+    const n = state.samples.size();
+    if (n < MIN_SAMPLES) {
+      return {
+        ...defaultSignal(ID, tick.processing_timestamp),
+        explanation: `Collecting traded ticks for the impact regression (${n}/${MIN_SAMPLES}).`
+      };
+    }
+
+    const { slope: lambda, r2 } = regress(state.samples.getAll());
+    // Quiet ticks repeat the last estimate; only a new sample adds one, so
+    // the baseline spans traded ticks rather than clock time
+    if (sampled && lambda > 0) state.lambdas.push(lambda);
+    const baseline = state.lambdas.percentile(0.50, lambda);
+    const ratio    = lambda > 0 && baseline > 0 ? safeNum(lambda / baseline, 1) : 0;
+    const risk     = safeNum(Math.min(100, Math.max(0, ((ratio - RATIO_FLOOR) / RATIO_SPAN) * 100)), 0);
+
+    // A slope that explains almost none of the price moves is not evidence
+    const confidence = n >= 100 && r2 >= 0.10 ? ConfidenceLevel.HIGH
+                     : r2 >= 0.03             ? ConfidenceLevel.MEDIUM
+                     : ConfidenceLevel.LOW;
+    const per = `bps/${ctx.unit}`;
+
+    return {
+      name:        ID,
+      value:       Math.round(risk),
+      severity:    getSeverity(risk),
+      triggered:   risk > ctx.trigger,
+      raw_metrics: {
+        'λ':        `${lambda.toFixed(3)} ${per}`,
+        'Baseline': `${baseline.toFixed(3)} ${per}`,
+        'Ratio':    `${ratio.toFixed(2)}×`,
+        'R²':       r2.toFixed(2),
+        'Samples':  n
+      },
+      explanation: risk > ctx.trigger
+        ? `Impact surge: λ ${lambda.toFixed(3)} ${per}, ${ratio.toFixed(1)}× its baseline — the book is no longer absorbing flow.`
+        : lambda > 0
+          ? `Price impact ${ratio.toFixed(1)}× baseline (λ ${lambda.toFixed(3)} ${per}, R² ${r2.toFixed(2)}).`
+          : 'Price not moving with signed flow — no impact estimate.',
+      confidence,
+      timestamp: tick.processing_timestamp,
+    };
+  },
+
+  confidenceRule: (_tick, state, ctx) =>
+    `${state.samples.size()}/${ctx.config.buffers.impact} traded ticks in the regression — ≥100 and R² ≥ 0.10 = HIGH, R² ≥ 0.03 = MEDIUM`,
+
+  summarize: s => `Impact ${s.value.toFixed(0)}/100`
+};
@@ -0,0 +1,138 @@
+import { ConfidenceLevel } from '../../types';
+import { CircularBuffer } from '../CircularBuffer';
+import { SignalPlugin, safeNum, determineConfidence, getSeverity, defaultSignal } from '../SignalPlugin';
+
+interface QuoteImbalanceState {
+  // Previous tick's touch; null at start and after a data gap
+  prev:  { bidPx: number; bidQty: number; askPx: number; askQty: number } | null;
+  ofi:   CircularBuffer<number>; // per-tick OFI, base units
+  touch: CircularBuffer<number>; // mean of best bid and best ask size
+}
+
+const ID = 'Quote Imbalance (OFI)';
+
+// Levels per side in the book-imbalance ratio
+const IMBALANCE_LEVELS = 10;
+// Net OFI of −3 average touch sizes over the window = 100
+const OFI_FULL_SCALE = 3;
+// Ask-heavy imbalance up to 20% is noise; 80% = 100
+const IMBALANCE_FLOOR = 0.2;
+const IMBALANCE_SPAN  = 0.6;
+
+const clamp = (v: number) => safeNum(Math.min(100, Math.max(0, v)), 0);
+const sum   = (levels: [number, number][]) => levels.slice(0, IMBALANCE_LEVELS).reduce((s, [, q]) => s + q, 0);
+
+// ── QUOTE IMBALANCE (OFI) ─────────────────────────────────────────────────
+// The Flow signal reads trades; in a crash the pressure often shows first as
+// bids being pulled at the touch. Two measures:
+//   OFI       — Cont, Kukanov & Stoikov order-flow imbalance. Per tick:
+//               e = 1{Pb ≥ Pb'}·qb − 1{Pb ≤ Pb'}·qb' − 1{Pa ≤ Pa'}·qa + 1{Pa ≥ Pa'}·qa'
+//               (primes = previous tick). Summed over the window and divided by
+//               the mean touch size, so −3 means three touches' worth of net
+//               selling pressure — bids cancelled or hit, asks added or lowered.
+//   imbalance — (bid − ask) / (bid + ask) over the top 10 levels per side.
+// Blended 0.60 / 0.40: OFI is the flow, the standing imbalance is the state
+// it leaves behind. Only the sell side scores, like Flow. Replays whose book
+// is the depth model's have no quotes to read, so there is no input there.
+export const QuoteImbalanceSignal: SignalPlugin<QuoteImbalanceState> = {
+  id:      ID,
+  label:   'Quote imbalance',
+  badge:   'Q',
+  short:   'OFI',
+  key:     'quoteImbalance',
+  weight:  0.10, // Overlaps Flow: the same pressure, read from quotes
+  trigger: 65,   // As Flow, its trade-side counterpart
+  pattern: { qualifier: 'QUOTE PULLING' },
+
+  createState: ctx => ({
+    prev:  null,
+    ofi:   new CircularBuffer<number>(ctx.config.buffers.order_flow),
+    touch: new CircularBuffer<number>(ctx.config.buffers.order_flow)
+  }),
+  configure: (state, ctx) => {
+    state.ofi.resize(ctx.config.buffers.order_flow);
+    state.touch.resize(ctx.config.buffers.order_flow);
+  },
+  hasInput: tick => tick.bids.length > 0 && tick.asks.length > 0 && !tick.synthesized?.book,
+  // OFI across a gap would compare against a book that is long gone
+  onGap: state => { state.prev = null; },
+
+  process(tick, state, ctx) {
+    if (tick.synthesized?.book) {
+      state.prev = null;
+      return {
+        ...defaultSignal(ID, tick.processing_timestamp),
+        explanation: 'The book on this replay is modelled, not recorded quotes.'
+      };
+    }
+    if (tick.bids.length === 0 || tick.asks.length === 0) {
+      return {
+        ...defaultSignal(ID, tick.processing_timestamp),
+        explanation: 'No order book on this tick.'
+      };
+    }
+
+    const [bidPx, bidQty] = tick.bids[0];
+    const [askPx, askQty] = tick.asks[0];
+    const prev = state.prev;
+    let e = 0;
+    if (prev) {
+      if (bidPx >= prev.bidPx) e += bidQty;
+      if (bidPx <= prev.bidPx) e -= prev.bidQty;
+      if (askPx <= prev.askPx) e -= askQty;
+      if (askPx >= prev.askPx) e += prev.askQty;
+      state.ofi.push(safeNum(e, 0));
+    }
+    state.prev = { bidPx, bidQty, askPx, askQty };
+    state.touch.push(safeNum((bidQty + askQty) / 2, 0));
+
+    const netOfi    = safeNum(state.ofi.getAll().reduce((s, v) => s + v, 0), 0);
+    const meanTouch = state.touch.size() > 0 ? safeNum(state.touch.getAll().reduce((s, v) => s + v, 0) / state.touch.size(), 0) : 0;
+    const normOfi   = meanTouch > 0 ? safeNum(netOfi / meanTouch, 0) : 0;
+
+    const bidDepth  = sum(tick.bids);
+    const askDepth  = sum(tick.asks);
+    const imbalance = bidDepth + askDepth > 0 ? safeNum((bidDepth - askDepth) / (bidDepth + askDepth), 0) : 0;
+
+    const ofiRisk = clamp((-normOfi / OFI_FULL_SCALE) * 100);
+    const imbRisk = clamp(((-imbalance - IMBALANCE_FLOOR) / IMBALANCE_SPAN) * 100);
+    const risk    = 0.60 * ofiRisk + 0.40 * imbRisk;
+
+    const levels     = Math.min(IMBALANCE_LEVELS, tick.bids.length, tick.asks.length);
+    const confidence = levels < 3
+      ? ConfidenceLevel.LOW
+      : determineConfidence(state.ofi.size(), Math.min(50, ctx.config.buffers.order_flow), 10);
+
+    const seconds  = Math.round(ctx.config.buffers.order_flow / 10);
+    const imbPct   = `${imbalance >= 0 ? '+' : ''}${(imbalance * 100).toFixed(0)}%`;
+    const askHeavy = -imbalance > IMBALANCE_FLOOR
+      ? `, book ${(-imbalance * 100).toFixed(0)}% ask-heavy over ${levels} levels`
+      : '';
+
+    return {
+      name:        ID,
+      value:       Math.round(risk),
+      severity:    getSeverity(risk),
+      triggered:   risk > ctx.trigger,
+      raw_metrics: {
+        [`OFI ${seconds}s`]: `${netOfi >= 0 ? '+' : ''}${netOfi.toFixed(2)} ${ctx.unit}`,
+        'OFI / Touch':       `${normOfi >= 0 ? '+' : ''}${normOfi.toFixed(2)}×`,
+        'Book Imb':          imbPct,
+        'Touch':             `${meanTouch.toFixed(2)} ${ctx.unit}`,
+        'OFI Risk':          Math.round(ofiRisk),
+        'Imb Risk':          Math.round(imbRisk)
+      },
+      explanation: risk > ctx.trigger
+        ? `Quote pulling: net OFI ${netOfi.toFixed(2)} ${ctx.unit} over ${seconds}s (${normOfi.toFixed(1)}× touch size)${askHeavy}.`
+        : `Top of book balanced — OFI ${normOfi >= 0 ? '+' : ''}${normOfi.toFixed(1)}× touch over ${seconds}s, book ${imbPct} over ${levels} levels.`,
+      confidence,
+      timestamp: tick.processing_timestamp,
+    };
+  },
+
+  confidenceRule: (tick, state, ctx) =>
+    `${state.ofi.size()}/${ctx.config.buffers.order_flow} top-of-book updates (need ≥${Math.min(50, ctx.config.buffers.order_flow)} for HIGH, ≥10 for MEDIUM; LOW under 3 book levels)` +
+    (tick.bids.length === 0 || tick.asks.length === 0 ? ' — no book this tick' : ''),
+
+  summarize: s => `OFI ${s.value.toFixed(0)}/100`
+};
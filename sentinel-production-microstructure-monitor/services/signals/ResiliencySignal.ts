@@ -0,0 +1,169 @@
+import { CircularBuffer } from '../CircularBuffer';
+import { SignalPlugin, safeNum, determineConfidence, getSeverity, defaultSignal } from '../SignalPlugin';
+
+type Side = 'bid' | 'ask';
+
+interface ResiliencyState {
+  // Previous tick's near-touch depth per side; null at start and after a gap
+  prev: Record<Side, number> | null;
+  // The hit being watched: depth before it, lowest since, and when it landed
+  episode: { side: Side; pre: number; trough: number; start: number } | null;
+  halfLives: CircularBuffer<number>; // ms, one per completed episode
+}
+
+const ID = 'Liquidity Resiliency';
+
+// Depth within this distance of the mid counts as near the touch
+const NEAR_BPS = 10;
+// A hit: aggressor volume on one side of ≥50% of its near depth, and that
+// depth down ≥30% from the previous tick
+const SHOCK_SHARE = 0.50;
+const SHOCK_DROP  = 0.30;
+// A side still short of half its loss after this long is recorded at the
+// cap — a book that stays empty must not wait forever to count
+const MAX_WAIT_MS = 30_000;
+// Below this the baseline is tick cadence, not the book
+const BASELINE_FLOOR_MS = 200;
+// Half-lives are skewed — most hits refill within a second, a few never do —
+// so the baseline is the p75 and an open episode only counts once it has
+// outlasted the p90 of past recoveries
+const BASELINE_PCT = 0.75;
+const OPEN_PCT     = 0.90;
+// The recent reading is the median of this many latest episodes
+const RECENT_EPISODES = 5;
+const MIN_EPISODES    = 5;
+// Half-life / baseline: 1.5× = 0, 4× = 100
+const RATIO_FLOOR = 1.5;
+const RATIO_SPAN  = 2.5;
+
+const nearDepth = (levels: [number, number][], mid: number) =>
+  levels.reduce((s, [px, qty]) => Math.abs(px - mid) / mid * 10000 <= NEAR_BPS ? s + qty : s, 0);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid    = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const formatMs = (ms: number) => ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+// ── LIQUIDITY RESILIENCY ──────────────────────────────────────────────────
+// Liquidity compares depth to its p90 anchor, so a book that is hit and
+// refilled at once and a book that is hit and stays empty look the same
+// until the second one has been empty for a while. This watches each hit:
+// when aggressive selling (buying) eats into the bids (asks) within 10 bps
+// of the mid, it times how long that side takes to regain half of what it
+// lost — the recovery half-life. Risk scales with the recent half-life (the
+// median of the last five, or the open episode's elapsed time if longer)
+// against the p75 over the last 50 episodes. Makers that stop refilling
+// after being run over are the step between a sharp print and a cascade.
+// Episodes are timed on exchange time. A depth model's book refills by
+// formula, not by makers, so replays with a synthesized book have no input.
+export const ResiliencySignal: SignalPlugin<ResiliencyState> = {
+  id:      ID,
+  label:   'Resiliency',
+  badge:   'R',
+  short:   'RES',
+  key:     'resiliency',
+  weight:  0.12, // Refill speed, which Liquidity's depth level can't see
+  trigger: 70,   // Half-life 3.25× its p75 — recoveries are skewed
+  pattern: { qualifier: 'BOOK NOT REFILLING' },
+
+  createState: ctx => ({
+    prev:      null,
+    episode:   null,
+    halfLives: new CircularBuffer<number>(ctx.config.buffers.resiliency)
+  }),
+  configure: (state, ctx) => state.halfLives.resize(ctx.config.buffers.resiliency),
+  hasInput:  tick => tick.bids.length > 0 && tick.asks.length > 0 && !tick.synthesized?.book,
+  // Recovery across a gap can't be timed: drop the open episode
+  onGap: state => { state.prev = null; state.episode = null; },
+
+  process(tick, state, ctx) {
+    if (tick.synthesized?.book) {
+      state.prev = null;
+      state.episode = null;
+      return {
+        ...defaultSignal(ID, tick.processing_timestamp),
+        explanation: 'The book on this replay is modelled; its refills say nothing about makers.'
+      };
+    }
+    if (tick.bids.length === 0 || tick.asks.length === 0 || !(tick.mid_price > 0)) {
+      return {
+        ...defaultSignal(ID, tick.processing_timestamp),
+        explanation: 'No order book on this tick.'
+      };
+    }
+
+    const now   = tick.exchange_timestamp;
+    const depth = { bid: nearDepth(tick.bids, tick.mid_price), ask: nearDepth(tick.asks, tick.mid_price) };
+
+    const episode = state.episode;
+    if (episode) {
+      const current = depth[episode.side];
+      episode.trough = Math.min(episode.trough, current);
+      const elapsed  = now - episode.start;
+      if (current >= episode.pre - (episode.pre - episode.trough) / 2) {
+        state.halfLives.push(elapsed);
+        state.episode = null;
+      } else if (elapsed >= MAX_WAIT_MS) {
+        state.halfLives.push(MAX_WAIT_MS);
+        state.episode = null;
+      }
+    }
+    if (!state.episode && state.prev) {
+      const prev = state.prev;
+      const hits: [Side, number][] = [['bid', tick.trades.sell_volume], ['ask', tick.trades.buy_volume]];
+      const hit  = hits.find(([side, volume]) =>
+        prev[side] > 0 && volume >= SHOCK_SHARE * prev[side] && depth[side] <= (1 - SHOCK_DROP) * prev[side]);
+      if (hit) state.episode = { side: hit[0], pre: prev[hit[0]], trough: depth[hit[0]], start: now };
+    }
+    state.prev = depth;
+
+    const n = state.halfLives.size();
+    if (n < MIN_EPISODES) {
+      return {
+        ...defaultSignal(ID, tick.processing_timestamp),
+        explanation: `Waiting for hits on the book to time recovery (${n}/${MIN_EPISODES} episodes).`
+      };
+    }
+
+    const elapsed  = state.episode ? now - state.episode.start : 0;
+    const open     = elapsed > state.halfLives.percentile(OPEN_PCT) ? elapsed : 0;
+    const recent   = median(state.halfLives.getLast(RECENT_EPISODES));
+    const halfLife = Math.max(recent, open);
+    const baseline = Math.max(safeNum(state.halfLives.percentile(BASELINE_PCT), 0), BASELINE_FLOOR_MS);
+    const ratio    = safeNum(halfLife / baseline, 1);
+    const risk     = safeNum(Math.min(100, Math.max(0, ((ratio - RATIO_FLOOR) / RATIO_SPAN) * 100)), 0);
+    const confidence = determineConfidence(n, 20, MIN_EPISODES);
+    const side     = state.episode?.side === 'ask' ? 'asks' : 'bids';
+
+    return {
+      name:        ID,
+      value:       Math.round(risk),
+      severity:    getSeverity(risk),
+      triggered:   risk > ctx.trigger,
+      raw_metrics: {
+        'Baseline':  formatMs(baseline),
+        'Ratio':     `${ratio.toFixed(2)}×`,
+        'Near Bid':  `${depth.bid.toFixed(2)} ${ctx.unit}`,
+        'Near Ask':  `${depth.ask.toFixed(2)} ${ctx.unit}`,
+        'Episodes':  n,
+        'Open':      state.episode ? formatMs(elapsed) : '—'
+      },
+      explanation: risk > ctx.trigger
+        ? open > recent
+          ? `Book not refilling: ${side} within ${NEAR_BPS} bps still short of half their loss after ${formatMs(open)} (${ratio.toFixed(1)}× the usual ${formatMs(baseline)}).`
+          : `Slow replenishment: near-touch depth takes ${formatMs(halfLife)} to regain half of a hit, ${ratio.toFixed(1)}× the usual ${formatMs(baseline)}.`
+        : `Book refilling normally — recovery half-life ${formatMs(halfLife)} (usual ${formatMs(baseline)}).`,
+      confidence,
+      timestamp: tick.processing_timestamp,
+      detail:    { label: 'Recovery half-life', value: formatMs(halfLife) }
+    };
+  },
+
+  confidenceRule: (_tick, state, ctx) =>
+    `${state.halfLives.size()}/${ctx.config.buffers.resiliency} timed recoveries (need ≥20 for HIGH, ≥${MIN_EPISODES} for MEDIUM)`,
+
+  summarize: s => `Resiliency ${s.value.toFixed(0)}/100`
+};
@@ -0,0 +1,84 @@
+import { CircularBuffer } from '../CircularBuffer';
+import { SignalPlugin, safeNum, determineConfidence, getSeverity, defaultSignal } from '../SignalPlugin';
+
+// Effective spread (top-20 VWAP, bps) per tick over the last 60s
+interface SpreadState {
+  spreads: CircularBuffer<number>;
+}
+
+const ID = 'Spread Blowout';
+
+// Below this a tight book's baseline is rounding noise (a 1-tick BTC spread
+// is ~0.002 bps); widening is measured from here at least
+const BASELINE_FLOOR_BPS = 0.5;
+// Spread / baseline: 1.5× = 0, 4× = 100
+const RATIO_FLOOR = 1.5;
+const RATIO_SPAN  = 2.5;
+
+// ── SPREAD BLOWOUT ────────────────────────────────────────────────────────
+// Market makers widen before they pull: the effective spread often blows out
+// while resting depth still looks normal, so this tends to lead Liquidity in
+// the causal sequence. Baseline is the p50 of the 600-tick window — the
+// regime anchor, same logic as the liquidity p90: a crisis has to fill half
+// the window (~30 real seconds) before it counts as the new normal. A depth
+// model's spread is a formula of the candle, so replays with a synthesized
+// book have no input.
+export const SpreadSignal: SignalPlugin<SpreadState> = {
+  id:      ID,
+  label:   'Spread',
+  badge:   'W',
+  short:   'SPRD',
+  key:     'spread',
+  weight:  0.15, // Leads Liquidity rather than repeating it
+  trigger: 60,   // Spread 3× its baseline
+  pattern: { qualifier: 'SPREAD BLOWOUT' },
+
+  createState: ctx => ({ spreads: new CircularBuffer<number>(ctx.config.buffers.spread) }),
+  configure:   (state, ctx) => state.spreads.resize(ctx.config.buffers.spread),
+  hasInput:    tick => tick.spread_bps > 0 && !tick.synthesized?.book,
+
+  process(tick, state, ctx) {
+    if (tick.synthesized?.book) {
+      return {
+        ...defaultSignal(ID, tick.processing_timestamp),
+        explanation: 'The book on this replay is modelled; its spread is not a quote.'
+      };
+    }
+    const spread = safeNum(tick.spread_bps, 0);
+    if (spread <= 0) {
+      return {
+        ...defaultSignal(ID, tick.processing_timestamp),
+        explanation: 'No two-sided book — spread unavailable.'
+      };
+    }
+    state.spreads.push(spread);
+
+    const baseline = Math.max(safeNum(state.spreads.percentile(0.50, spread), 0), BASELINE_FLOOR_BPS);
+    const ratio    = safeNum(spread / baseline, 1);
+    const risk     = safeNum(Math.min(100, Math.max(0, ((ratio - RATIO_FLOOR) / RATIO_SPAN) * 100)), 0);
+    const confidence = determineConfidence(state.spreads.size(), 60, 20);
+    const seconds  = Math.round(ctx.config.buffers.spread / 10);
+
+    return {
+      name:        ID,
+      value:       Math.round(risk),
+      severity:    getSeverity(risk),
+      triggered:   risk > ctx.trigger,
+      raw_metrics: {
+        'Spread':   `${spread.toFixed(2)} bps`,
+        'Baseline': `${baseline.toFixed(2)} bps`,
+        'Ratio':    `${ratio.toFixed(2)}×`
+      },
+      explanation: risk > ctx.trigger
+        ? `Spread blowout: ${spread.toFixed(2)} bps, ${ratio.toFixed(1)}× the ${seconds}s median (${baseline.toFixed(2)} bps) — makers stepping back.`
+        : `Spread ${spread.toFixed(2)} bps, ${ratio.toFixed(1)}× the ${seconds}s median.`,
+      confidence,
+      timestamp: tick.processing_timestamp,
+    };
+  },
+
+  confidenceRule: (_tick, state, ctx) =>
+    `${state.spreads.size()}/${ctx.config.buffers.spread} spread samples (p50 baseline — need ≥60 for HIGH)`,
+
+  summarize: s => `Spread ${s.value.toFixed(0)}/100`
+};
@@ -0,0 +1,102 @@
+import { SignalType } from '../../types';
+import { CircularBuffer } from '../CircularBuffer';
+import { SignalPlugin, safeNum, determineConfidence, getSeverity, defaultSignal } from '../SignalPlugin';
+
+// Venue divergence baselines: 600-tick p90 anchors, same regime logic as
+// liquidity. USD-vs-USDT basis and routine latency skew live inside the
+// band; only dislocation beyond it scores.
+interface VenueDivergenceState {
+  mid:    CircularBuffer<number>;
+  spread: CircularBuffer<number>;
+}
+
+const median = (arr: number[]) => {
+  const sorted = [...arr].sort((a, b) => a - b);
+  const mid    = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// ── VENUE DIVERGENCE ──────────────────────────────────────────────────────
+// Cross-venue dislocation. Two measures, each against its own 60s p90 band:
+//   mid divergence    — (max mid − min mid) / median mid, in bps
+//   spread divergence — widest venue spread / median venue spread
+// Risk scales with how far the current reading exceeds its band: 1× band = 0,
+// 3× band = 100 (same (ratio − 1) × 50 shape as volatility). The larger of the
+// two drives the signal. In March 2020 venues decoupled before the book emptied.
+// Only CONSOLIDATED ticks carry venue quotes.
+export const VenueDivergenceSignal: SignalPlugin<VenueDivergenceState> = {
+  id:      SignalType.VENUE_DIVERGENCE,
+  label:   'Venue divergence',
+  badge:   'D',
+  short:   'VEN',
+  key:     'venueDivergence',
+  weight:  0.15,
+  trigger: 60,
+  pattern: { qualifier: 'VENUE DISLOCATION' },
+
+  createState: ctx => ({
+    mid:    new CircularBuffer<number>(ctx.config.buffers.venue),
+    spread: new CircularBuffer<number>(ctx.config.buffers.venue)
+  }),
+  configure: (state, ctx) => {
+    state.mid.resize(ctx.config.buffers.venue);
+    state.spread.resize(ctx.config.buffers.venue);
+  },
+  hasInput: tick => (tick.venue_quotes?.length ?? 0) >= 2,
+
+  process(tick, state, ctx) {
+    const quotes = (tick.venue_quotes ?? []).filter(q => q.mid_price > 0);
+    if (quotes.length < 2) {
+      return {
+        ...defaultSignal(SignalType.VENUE_DIVERGENCE, tick.processing_timestamp),
+        explanation: 'Single venue — consolidate two or more venues to measure divergence.'
+      };
+    }
+
+    const mids     = quotes.map(q => q.mid_price);
+    const spreads  = quotes.map(q => Math.max(q.spread_bps, 0.01));
+    const midBps   = safeNum(((Math.max(...mids) - Math.min(...mids)) / median(mids)) * 10000, 0);
+    const sprRatio = safeNum(Math.max(...spreads) / median(spreads), 1);
+
+    state.mid.push(midBps);
+    state.spread.push(sprRatio);
+    // Floors stop a perfectly calm band (≈0) from turning noise into 100
+    const midBand    = Math.max(state.mid.percentile(0.90, midBps), 1.0);
+    const sprBand    = Math.max(state.spread.percentile(0.90, sprRatio), 1.5);
+    const midExcess  = midBps / midBand;
+    const sprExcess  = sprRatio / sprBand;
+    const midRisk    = safeNum(Math.min(100, Math.max(0, (midExcess - 1) * 50)), 0);
+    const sprRisk    = safeNum(Math.min(100, Math.max(0, (sprExcess - 1) * 50)), 0);
+    const risk       = Math.max(midRisk, sprRisk);
+    const confidence = determineConfidence(state.mid.size(), 60, 20);
+
+    const lo = quotes.reduce((a, b) => b.mid_price < a.mid_price ? b : a);
+    const hi = quotes.reduce((a, b) => b.mid_price > a.mid_price ? b : a);
+    const driver = midRisk >= sprRisk
+      ? `Mid dislocation ${midBps.toFixed(1)} bps (${lo.venue} ↔ ${hi.venue}), ${midExcess.toFixed(1)}× normal band.`
+      : `Spread dislocation: widest venue ${sprRatio.toFixed(1)}× median spread, ${sprExcess.toFixed(1)}× normal band.`;
+
+    return {
+      name:        SignalType.VENUE_DIVERGENCE,
+      value:       Math.round(risk),
+      severity:    getSeverity(risk),
+      triggered:   risk > ctx.trigger,
+      raw_metrics: {
+        'Mid Δ':      `${midBps.toFixed(1)} bps`,
+        'Mid Band':   `${midBand.toFixed(1)} bps`,
+        'Spread ×':   sprRatio.toFixed(2),
+        'Venues':     quotes.length
+      },
+      explanation: risk > ctx.trigger
+        ? driver
+        : `${quotes.length} venues within normal band (${midBand.toFixed(1)} bps mid).`,
+      confidence,
+      timestamp: tick.processing_timestamp,
+    };
+  },
+
+  confidenceRule: (_tick, state, ctx) =>
+    `${state.mid.size()}/${ctx.config.buffers.venue} cross-venue samples (need ≥60 for HIGH; needs ≥2 venues)`,
+
+  summarize: s => `Venue ${s.value.toFixed(0)}/100`
+};
@@ -0,0 +1,57 @@
+import { SignalType } from '../../types';
+import { CircularBuffer } from '../CircularBuffer';
+import { SignalPlugin, safeNum, determineConfidence, getSeverity, defaultSignal } from '../SignalPlugin';
+
+interface VolatilityState {
+  prices: CircularBuffer<number>;
+}
+
+const std = (arr: number[]) => {
+  const mean = arr.reduce((a, b) => a + b) / arr.length;
+  return Math.sqrt(safeNum(arr.reduce((a, b) => a + (b - mean) ** 2, 0) / arr.length, 0));
+};
+
+// ── VOLATILITY (unchanged — math verified correct) ─────────────────────────
+// Std of the last 10 prices against the std of the whole window.
+export const VolatilitySignal: SignalPlugin<VolatilityState> = {
+  id:      SignalType.VOLATILITY,
+  label:   'Volatility',
+  badge:   'V',
+  short:   'VOL',
+  key:     'volatility',
+  weight:  0.25,
+  trigger: 55,
+  pattern: 'CORE',
+
+  createState: ctx => ({ prices: new CircularBuffer<number>(ctx.config.buffers.price) }),
+  configure:   (state, ctx) => state.prices.resize(ctx.config.buffers.price),
+
+  process(tick, state, ctx) {
+    state.prices.push(safeNum(tick.price, 1));
+    const prices = state.prices.getAll();
+    if (prices.length < 20) return defaultSignal(SignalType.VOLATILITY, tick.processing_timestamp);
+
+    const stdShort = safeNum(std(prices.slice(-10)), 0);
+    const stdLong  = safeNum(std(prices), 1) || 1;
+    const ratio    = safeNum(stdShort / stdLong, 1);
+    const risk     = safeNum(Math.min(100, Math.max(0, (ratio - 1) * 50)), 0);
+    const confidence = determineConfidence(prices.length, 50, 30);
+
+    return {
+      name:        SignalType.VOLATILITY,
+      value:       Math.round(risk),
+      severity:    getSeverity(risk),
+      triggered:   risk > ctx.trigger,
+      raw_metrics: { 'Vol Ratio': ratio.toFixed(2), 'Price Std': stdShort.toFixed(2) },
+      explanation: risk > ctx.trigger
+        ? `Intraday vol expansion: ${ratio.toFixed(2)}× regime baseline.`
+        : 'Price volatility within regime bounds.',
+      confidence,
+      timestamp: tick.processing_timestamp,
+    };
+  },
+
+  confidenceRule: (_tick, state) => `${state.prices.size()} price ticks (need ≥50 for HIGH)`,
+
+  summarize: s => `Vol ${s.value.toFixed(0)}/100`
+};
@@ -0,0 +1,146 @@
+import { CircularBuffer } from '../CircularBuffer';
+import { SignalPlugin, SignalContext, safeNum, determineConfidence, getSeverity, defaultSignal } from '../SignalPlugin';
+
+interface VpinState {
+  rates:   CircularBuffer<number>; // volume_24h readings, for the bucket size
+  size:    number;                 // current bucket's target volume, set as it opens
+  filled:  number;                 // volume in the open bucket
+  buy:     number;                 // aggressor-buy volume in the open bucket
+  buckets: CircularBuffer<number>; // (buy − sell) / size per completed bucket
+  history: CircularBuffer<number>; // VPIN after each completed bucket
+}
+
+const ID = 'VPIN Flow Toxicity';
+
+// Bucket size = 24h volume / this — 15s of an average day's trading, so a
+// 50-bucket window spans ~12 minutes in normal trading and far less in a crash
+const BUCKETS_PER_DAY = 5760;
+// Median of this many volume_24h readings sizes each new bucket. aggTrade
+// replay derives volume_24h from the trailing minute, and a crash must not
+// stretch the volume clock it is being measured on
+const RATE_WINDOW = 3000;
+// The percentile ranks VPIN against this many windows of bucket history
+const HISTORY_WINDOWS = 10;
+// Ranks over fewer VPIN readings are not a distribution yet
+const MIN_HISTORY = 20;
+// Toxicity percentile: 80th = 0, 100th = 100. A rank always has a top
+// decile, so the trigger sits past it — the 92nd percentile scores 60
+const CDF_FLOOR = 0.8;
+const CDF_SPAN  = 0.2;
+
+const historySize = (ctx: SignalContext) => ctx.config.buffers.vpin * HISTORY_WINDOWS;
+
+const closeBucket = (state: VpinState, count = 1) => {
+  const imbalance = safeNum((2 * state.buy - state.size) / state.size, 0);
+  for (let i = 0; i < count; i++) {
+    state.buckets.push(imbalance);
+    state.history.push(state.buckets.getAll().reduce((s, v) => s + Math.abs(v), 0) / state.buckets.size());
+  }
+  state.filled = state.buy = 0;
+};
+
+// ── VPIN (VOLUME-SYNCHRONIZED PROBABILITY OF INFORMED TRADING) ────────────
+// Flow's sell-ratio EMA runs on the tick clock: a quiet minute and a frantic
+// one weigh the same. VPIN runs on a volume clock (Easley, López de Prado &
+// O'Hara). Trades fill equal-volume buckets, each tick's volume split by its
+// aggressor sides, and a tick bigger than a bucket spills into as many as it
+// fills. VPIN = mean |buy − sell| / bucket size over the last 50 buckets, and
+// risk is its percentile against the last 500 readings — toxicity relative
+// to this market's own history. Unsigned: one-sided flow in either direction
+// is what drives makers out; the Net metric shows which side it is.
+export const VpinSignal: SignalPlugin<VpinState> = {
+  id:      ID,
+  label:   'VPIN toxicity',
+  badge:   'T',
+  short:   'VPIN',
+  key:     'vpin',
+  weight:  0.08, // One-sided flow on a volume clock; overlaps Flow and OFI
+  trigger: 60,
+  pattern: { qualifier: 'TOXIC FLOW' },
+
+  createState: ctx => ({
+    rates:   new CircularBuffer<number>(RATE_WINDOW),
+    size:    0,
+    filled:  0,
+    buy:     0,
+    buckets: new CircularBuffer<number>(ctx.config.buffers.vpin),
+    history: new CircularBuffer<number>(historySize(ctx))
+  }),
+  configure: (state, ctx) => {
+    state.buckets.resize(ctx.config.buffers.vpin);
+    state.history.resize(historySize(ctx));
+  },
+  // Buckets fill on volume, not time, so a data gap leaves them valid
+
+  process(tick, state, ctx) {
+    if (tick.volume_24h > 0) state.rates.push(tick.volume_24h);
+    const buyVol  = safeNum(tick.trades.buy_volume, 0);
+    const sellVol = safeNum(tick.trades.sell_volume, 0);
+    let   volume  = buyVol + sellVol;
+    const buyFrac = volume > 0 ? buyVol / volume : 0;
+
+    while (volume > 0 && state.rates.size() > 0) {
+      if (state.filled === 0) state.size = state.rates.percentile(0.50) / BUCKETS_PER_DAY;
+      if (!(state.size > 0)) break;
+      const take = Math.min(volume, state.size - state.filled);
+      state.filled += take;
+      state.buy    += take * buyFrac;
+      volume       -= take;
+      if (state.filled < state.size) break;
+      // Whole buckets left in this tick are identical — past a full window
+      // they would only push out each other
+      const whole = Math.floor(volume / state.size);
+      closeBucket(state);
+      if (whole > 0) {
+        state.buy = state.size * buyFrac;
+        closeBucket(state, Math.min(whole, ctx.config.buffers.vpin));
+        volume -= whole * state.size;
+      }
+    }
+
+    const window = ctx.config.buffers.vpin;
+    const n      = state.buckets.size();
+    if (n < window) {
+      return {
+        ...defaultSignal(ID, tick.processing_timestamp),
+        explanation: `Filling volume buckets (${n}/${window}).`
+      };
+    }
+
+    const history = state.history.getAll();
+    const vpin    = history[history.length - 1];
+    const cdf     = safeNum(history.filter(v => v <= vpin).length / history.length, 0);
+    const risk    = history.length < MIN_HISTORY
+      ? 0
+      : safeNum(Math.min(100, Math.max(0, ((cdf - CDF_FLOOR) / CDF_SPAN) * 100)), 0);
+    const net        = safeNum(state.buckets.mean(), 0);
+    const side       = net < 0 ? 'sell' : 'buy';
+    const confidence = determineConfidence(history.length, window * 2, MIN_HISTORY);
+
+    return {
+      name:        ID,
+      value:       Math.round(risk),
+      severity:    getSeverity(risk),
+      triggered:   risk > ctx.trigger,
+      raw_metrics: {
+        'VPIN':       vpin.toFixed(3),
+        'Percentile': `${(cdf * 100).toFixed(0)}th`,
+        'Net':        `${net >= 0 ? '+' : ''}${(net * 100).toFixed(0)}%`,
+        'Bucket':     `${state.size.toFixed(2)} ${ctx.unit}`,
+        'Readings':   history.length
+      },
+      explanation: history.length < MIN_HISTORY
+        ? `VPIN ${vpin.toFixed(3)} — ranking needs ${MIN_HISTORY} readings (${history.length} so far).`
+        : risk > ctx.trigger
+          ? `Toxic flow: VPIN ${vpin.toFixed(3)} at the ${(cdf * 100).toFixed(0)}th percentile, ${side} side ${Math.abs(net * 100).toFixed(0)}% net over ${window} buckets — makers are trading against informed flow.`
+          : `VPIN ${vpin.toFixed(3)} (${(cdf * 100).toFixed(0)}th percentile over ${history.length} buckets).`,
+      confidence,
+      timestamp: tick.processing_timestamp,
+    };
+  },
+
+  confidenceRule: (_tick, state, ctx) =>
+    `${state.history.size()}/${historySize(ctx)} VPIN readings in the percentile (need ≥${ctx.config.buffers.vpin * 2} for HIGH, ≥${MIN_HISTORY} for MEDIUM)`,
+
+  summarize: s => `VPIN ${s.value.toFixed(0)}/100`
+};
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_SYMBOL } from '../constants';
+import { DepthDiff, DepthSnapshot, LocalOrderBook } from '../services/OrderBook';
+import { BinanceService } from '../services/BinanceService';
+import { setLogSink } from '../services/Log';
+
+setLogSink(() => {});
+
+const snapshot = (lastUpdateId: number, bid: number): DepthSnapshot =>
+  ({ lastUpdateId, bids: [[bid, 1]], asks: [[100, 1]] });
+
+// One diff covering update ids U..u that moves the best bid to `bid`
+const diff = (U: number, u: number, bid: number): DepthDiff => ({ U, u, b: [[bid, 2]], a: [] });
+const frame = (d: DepthDiff) => JSON.stringify({ e: 'depthUpdate', E: 0, s: DEFAULT_SYMBOL.symbol, ...d });
+const trade = JSON.stringify({ e: 'aggTrade', E: 0, a: 1, p: '50', q: '0.1', T: 0, m: false });
+const bidPrices = (feed: BinanceService) => feed.buildTick()?.bids.map(([price]) => price);
+
+// A fetch whose snapshot responses resolve only when the test says so
+const stubSnapshots = () => {
+  const pending: ((body: DepthSnapshot) => void)[] = [];
+  vi.stubGlobal('fetch', vi.fn(() => new Promise(resolve =>
+    pending.push(body => resolve({ ok: true, json: async () => body }))
+  )));
+  return pending;
+};
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('LocalOrderBook sequencing', () => {
+  it('applies consecutive diffs and reports a skipped update id as a gap', () => {
+    const book = new LocalOrderBook();
+    book.applySnapshot(snapshot(100, 50));
+    expect(book.applyDiff(diff(95, 100, 50))).toBe('STALE');
+    expect(book.applyDiff(diff(98, 103, 51))).toBe('APPLIED');
+    expect(book.isSynced()).toBe(true);
+    expect(book.applyDiff(diff(104, 106, 52))).toBe('APPLIED');
+    expect(book.applyDiff(diff(108, 110, 53))).toBe('GAP');
+    expect(book.isSynced()).toBe(false);
+  });
+
+  it('reports a gap when the first diff starts past the snapshot', () => {
+    const book = new LocalOrderBook();
+    book.applySnapshot(snapshot(100, 50));
+    expect(book.applyDiff(diff(102, 104, 51))).toBe('GAP');
+  });
+});
+
+describe('Binance depth resync', () => {
+  afterEach(() => { vi.unstubAllGlobals(); });
+
+  // Diffs buffered before the snapshot, then replayed onto it
+  const synced = () => {
+    const feed = new BinanceService(DEFAULT_SYMBOL, () => {});
+    feed.handleMessage(trade);
+    feed.handleMessage(frame(diff(98, 103, 51)));
+    feed.applySnapshot(snapshot(100, 50));
+    return feed;
+  };
+
+  it('buffers through a gap and rebuilds from a fresh snapshot', async () => {
+    const pending = stubSnapshots();
+    const feed    = synced();
+    feed.handleMessage(frame(diff(104, 106, 52)));
+    expect(bidPrices(feed)).toEqual([52, 51, 50]);
+
+    feed.handleMessage(frame(diff(110, 112, 53))); // 107..109 missed
+    expect(pending).toHaveLength(1);
+    expect(feed.buildTick()).toBeNull();
+
+    // Arrives while the snapshot is in flight: held, not applied to a broken book
+    feed.handleMessage(frame(diff(113, 115, 54)));
+    pending[0](snapshot(111, 49));
+    await settle();
+
+    // The gap diff straddles the new snapshot, so both held diffs land on it
+    feed.handleMessage(frame(diff(116, 116, 55)));
+    expect(bidPrices(feed)).toEqual([55, 54, 53, 49]);
+    expect(pending).toHaveLength(1);
+  });
+
+  it('drops a snapshot fetched for a connection that has since closed', async () => {
+    const pending = stubSnapshots();
+    const feed    = synced();
+    feed.handleMessage(frame(diff(110, 112, 53)));
+    expect(pending).toHaveLength(1);
+
+    feed.stop();
+    pending[0](snapshot(111, 49));
+    await settle();
+    // Had the late snapshot seeded the book, this diff would sync it
+    feed.handleMessage(trade);
+    feed.handleMessage(frame(diff(112, 113, 54)));
+    expect(feed.buildTick()).toBeNull();
+  });
+
+  it('keeps only the newest diffs while waiting for a snapshot', () => {
+    const feed = new BinanceService(DEFAULT_SYMBOL, () => {});
+    for (let id = 1; id <= 1500; id++) feed.handleMessage(frame(diff(id, id, 50 + id / 1000)));
+    // The first 500 were dropped, so a snapshot older than that leaves a gap to resync
+    const pending = stubSnapshots();
+    feed.applySnapshot(snapshot(400, 40));
+    expect(pending).toHaveLength(1);
+  });
+});
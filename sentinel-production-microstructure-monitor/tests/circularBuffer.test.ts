@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { CircularBuffer } from '../services/CircularBuffer';
+
+// 1..7 into five slots: wrapped, head mid-array
+const wrapped = () => {
+  const buffer = new CircularBuffer<number>(5);
+  for (let i = 1; i <= 7; i++) buffer.push(i);
+  return buffer;
+};
+
+describe('CircularBuffer', () => {
+  it('reads a wrapped buffer oldest first', () => {
+    expect(wrapped().getAll()).toEqual([3, 4, 5, 6, 7]);
+    expect(wrapped().getLast(2)).toEqual([6, 7]);
+    expect(wrapped().getLast(10)).toEqual([3, 4, 5, 6, 7]);
+  });
+
+  it('keeps order when a wrapped buffer grows', () => {
+    const buffer = wrapped();
+    buffer.resize(10);
+    expect(buffer.getAll()).toEqual([3, 4, 5, 6, 7]);
+    buffer.push(8);
+    expect(buffer.getAll()).toEqual([3, 4, 5, 6, 7, 8]);
+    expect(buffer.getLast(3)).toEqual([6, 7, 8]);
+  });
+
+  it('keeps the newest values when a wrapped buffer shrinks', () => {
+    const buffer = wrapped();
+    buffer.resize(3);
+    expect(buffer.getAll()).toEqual([5, 6, 7]);
+    buffer.push(8);
+    expect(buffer.getAll()).toEqual([6, 7, 8]);
+  });
+});
@@ -0,0 +1,50 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { SignalType } from '../types';
+import { readTickFile, runTickStream } from '../services/BatchRunner';
+import { DEFAULT_ENGINE_CONFIG } from '../services/EngineConfig';
+import { SIGNAL_REGISTRY } from '../services/SignalRegistry';
+
+const FIXTURE = 'BTCUSDT-1m-2020-03-12.csv';
+const text    = readFileSync(new URL(`./fixtures/${FIXTURE}`, import.meta.url), 'utf8');
+
+describe('default weights', () => {
+  const [stream] = readTickFile(FIXTURE, text);
+
+  it('keeps the configured core ratios on a spot replay', () => {
+    const core = [SignalType.FLOW, SignalType.VOLATILITY, SignalType.FORCED_SELLING];
+    const base = DEFAULT_ENGINE_CONFIG.weights;
+    runTickStream(stream, (_tick, result) => {
+      const weights = Object.fromEntries(result.trace.weight_contributions.map(c => [c.signal, c.weight]));
+      core.forEach(signal =>
+        expect(weights[signal] / weights[SignalType.LIQUIDITY]).toBeCloseTo(base[signal] / base[SignalType.LIQUIDITY]));
+      expect(Object.values(weights).reduce((a, b) => a + b, 0)).toBeCloseTo(1);
+    });
+  });
+
+  it('gives a signal with no input on this replay no share of the score', () => {
+    runTickStream(stream, (tick, result) => {
+      const weights = Object.fromEntries(result.trace.weight_contributions.map(c => [c.signal, c.weight]));
+      SIGNAL_REGISTRY.filter(p => p.hasInput && !p.hasInput(tick)).forEach(p => expect(weights[p.id]).toBe(0));
+    });
+  });
+
+  it('rates headline confidence over the weighted signals with input', () => {
+    const score = { HIGH: 3, MEDIUM: 2, LOW: 1 } as const;
+    let high = 0;
+    runTickStream(stream, (tick, result) => {
+      const counted = SIGNAL_REGISTRY.filter(p => (!p.hasInput || p.hasInput(tick)) && DEFAULT_ENGINE_CONFIG.weights[p.id] > 0);
+      const mean    = counted.reduce((s, p) => s + score[result.signals[p.id].confidence], 0) / counted.length;
+      expect(result.stress.confidence).toBe(mean > 2.5 ? 'HIGH' : mean > 1.5 ? 'MEDIUM' : 'LOW');
+      if (result.stress.confidence === 'HIGH') high++;
+    });
+    expect(high).toBeGreaterThan(0);
+  });
+
+  it('counts only weighted signals toward the shock table', () => {
+    runTickStream(stream, (_tick, result) => {
+      const voting = SIGNAL_REGISTRY.filter(p => result.signals[p.id].triggered && DEFAULT_ENGINE_CONFIG.weights[p.id] > 0);
+      expect(result.stress.signals_aligned).toBe(voting.length);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { readFileSync } from 'node:fs';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { Venue } from '../types';
+import { DEFAULT_SYMBOL } from '../constants';
+import { FeedAdapter } from '../services/FeedAdapter';
+import { createFeedAdapter } from '../services/FeedFactory';
+import { BinanceService } from '../services/BinanceService';
+import { setLogSink } from '../services/Log';
+
+// Recorded frames, one per line, replayed through each adapter with no socket
+const frames = (file: string) =>
+  readFileSync(new URL(`./fixtures/feeds/${file}`, import.meta.url), 'utf8').split('\n').filter(Boolean);
+
+interface VenueCase {
+  venue:     Venue;
+  file:      string;
+  bestBid:   [number, number];
+  bestAsk:   [number, number];
+  buys:      number;
+  sells:     number;
+  volume24h: number;
+  // Replays the recorded frames into a fresh adapter, for venues that need
+  // more than their stream frames
+  replay?:   (recorded: string[]) => FeedAdapter;
+}
+
+// Depth diffs arrive before the REST snapshot and are buffered, as on a live open
+const replayBinance = (recorded: string[]) => {
+  const feed = new BinanceService(DEFAULT_SYMBOL, () => {});
+  recorded.forEach(raw => feed.handleMessage(raw));
+  feed.applySnapshot(JSON.parse(frames('binance-depth-snapshot.json')[0]));
+  return feed;
+};
+
+// Collects what the adapters log instead of printing it
+let logged: string[] = [];
+setLogSink(message => logged.push(message));
+beforeEach(() => { logged = []; });
+
+const CASES: VenueCase[] = [
+  {
+    venue: Venue.BINANCE, file: 'binance.jsonl',
+    bestBid: [37250, 0.8125], bestAsk: [37250.1, 0.9531], buys: 1, sells: 2, volume24h: 28431.5521,
+    replay: replayBinance
+  },
+  { venue: Venue.BYBIT,    file: 'bybit.jsonl',    bestBid: [37250.01, 0.954], bestAsk: [37250.02, 0.803], buys: 1, sells: 1, volume24h: 18234.552 },
+  { venue: Venue.COINBASE, file: 'coinbase.jsonl', bestBid: [37250, 1.1625],   bestAsk: [37250.01, 0.8031], buys: 1, sells: 1, volume24h: 12034.7716 },
+  { venue: Venue.KRAKEN,   file: 'kraken.jsonl',   bestBid: [37250, 1.1625],   bestAsk: [37250.1, 0.8031],  buys: 1, sells: 1, volume24h: 2518.30411 },
+  { venue: Venue.OKX,      file: 'okx.jsonl',      bestBid: [37250, 1.1625],   bestAsk: [37250.1, 0.8031],  buys: 1, sells: 1, volume24h: 8412.3307 }
+];
+
+describe.each(CASES)('$venue adapter', c => {
+  const replay = () => {
+    if (c.replay) return c.replay(frames(c.file));
+    const feed = createFeedAdapter(c.venue, DEFAULT_SYMBOL, () => {});
+    frames(c.file).forEach(raw => feed.handleMessage(raw));
+    return feed;
+  };
+
+  it('builds a tick from recorded frames', () => {
+    const feed = replay();
+    const tick = feed.buildTick();
+    expect(tick).not.toBeNull();
+    expect(tick!.venue).toBe(c.venue);
+    expect(tick!.bids[0]).toEqual(c.bestBid);
+    expect(tick!.asks[0]).toEqual(c.bestAsk);
+    expect(tick!.trades.buy_count).toBe(c.buys);
+    expect(tick!.trades.sell_count).toBe(c.sells);
+    expect(tick!.volume_24h).toBeCloseTo(c.volume24h);
+    expect(feed.getDroppedFrames()).toBe(0);
+  });
+
+  it('counts and drops a frame that is not JSON', () => {
+    const feed   = replay();
+    const before = feed.buildTick();
+    expect(() => feed.handleMessage('{"e":"aggTrade","E":17000000')).not.toThrow();
+    expect(() => feed.handleMessage('')).not.toThrow();
+    expect(feed.getDroppedFrames()).toBe(2);
+    // Only the first drop is reported; later ones every hundredth
+    expect(logged.filter(m => m.includes('dropped unparseable frame'))).toHaveLength(1);
+    expect(feed.buildTick()!.trades).toEqual(before!.trades);
+  });
+});
+
+describe('Binance perpetual streams', () => {
+  it('carries liquidations and mark/funding onto the tick', () => {
+    const tick = replayBinance(frames('binance.jsonl')).buildTick()!;
+    expect(tick.liquidations?.sell_volume).toBeCloseTo(0.12);
+    expect(tick.perp?.mark_price).toBeCloseTo(37268.4);
+    expect(tick.perp?.funding_rate).toBeCloseTo(0.0001);
+  });
+});
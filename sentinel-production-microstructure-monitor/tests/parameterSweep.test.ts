@@ -0,0 +1,36 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { SignalType } from '../types';
+import { readTickFile } from '../services/BatchRunner';
+import { DEFAULT_ENGINE_CONFIG } from '../services/EngineConfig';
+import { DEFAULT_SCENARIO } from '../services/ScenarioCatalogue';
+import { SWEEP_PARAMETERS, SweepDataset, checkSweepable } from '../services/ParameterSweep';
+
+const FIXTURE = 'BTCUSDT-1m-2020-03-12.csv';
+const text    = readFileSync(new URL(`./fixtures/${FIXTURE}`, import.meta.url), 'utf8');
+
+describe('checkSweepable', () => {
+  const [stream]  = readTickFile(FIXTURE, text);
+  const replayed: SweepDataset = { scenario: DEFAULT_SCENARIO, ticks: stream.ticks };
+  // The same candles with processing time left on the candle clock
+  const candleClock: SweepDataset = {
+    scenario: DEFAULT_SCENARIO,
+    ticks:    stream.ticks.map(tick => ({ ...tick, processing_timestamp: tick.exchange_timestamp }))
+  };
+  const param = (id: string) => SWEEP_PARAMETERS.find(p => p.id === id)!;
+
+  it('accepts Flow parameters on the replay clock', () => {
+    expect(() => checkSweepable([param(`trigger:${SignalType.FLOW}`), param('flow_alpha_up')], [replayed], DEFAULT_ENGINE_CONFIG)).not.toThrow();
+  });
+
+  it('rejects Flow parameters when every tick reads as a feed gap', () => {
+    expect(() => checkSweepable([param('flow_alpha_up')], [candleClock], DEFAULT_ENGINE_CONFIG)).toThrow(/reset on every tick/);
+    // Volatility has no gap reset, so its parameters still sweep
+    expect(() => checkSweepable([param(`trigger:${SignalType.VOLATILITY}`)], [candleClock], DEFAULT_ENGINE_CONFIG)).not.toThrow();
+  });
+
+  it('rejects parameters of a signal with no input in the replays', () => {
+    const venueWeight = { ...param(`weight:${SignalType.LIQUIDITY}`), id: 'weight:venue', label: 'Venue weight', signal: SignalType.VENUE_DIVERGENCE };
+    expect(() => checkSweepable([venueWeight], [replayed], DEFAULT_ENGINE_CONFIG)).toThrow(/has no input/);
+  });
+});
@@ -0,0 +1,38 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { SignalType } from '../types';
+import { readTickFile, runTickStream, REPLAY_STEP_MS } from '../services/BatchRunner';
+import { DEFAULT_ENGINE_CONFIG } from '../services/EngineConfig';
+
+// 150 calm 1m candles, then 30 of heavy taker selling (~90% of volume)
+const FIXTURE = 'BTCUSDT-1m-2020-03-12.csv';
+const text    = readFileSync(new URL(`./fixtures/${FIXTURE}`, import.meta.url), 'utf8');
+
+describe('kline replay clock', () => {
+  const [stream] = readTickFile(FIXTURE, text);
+
+  it('steps processing time below the gap threshold, keeping candle time', () => {
+    const ticks = stream.ticks;
+    expect(ticks).toHaveLength(180);
+    for (let i = 1; i < ticks.length; i++) {
+      expect(ticks[i].processing_timestamp - ticks[i - 1].processing_timestamp).toBe(REPLAY_STEP_MS);
+      expect(ticks[i].exchange_timestamp - ticks[i - 1].exchange_timestamp).toBe(60_000);
+    }
+    expect(REPLAY_STEP_MS).toBeLessThan(DEFAULT_ENGINE_CONFIG.flow_reset_gap_ms);
+  });
+
+  it('lets Flow build up and trigger through a sell-off, as a CLI run does', () => {
+    let flowMax = 0;
+    let flowTriggered = 0;
+    let events = 0;
+    runTickStream(stream, (_tick, result) => {
+      const flow = result.signals[SignalType.FLOW];
+      flowMax = Math.max(flowMax, flow.value);
+      if (flow.triggered) flowTriggered++;
+      if (result.criticalEvent) events++;
+    });
+    expect(flowMax).toBeGreaterThan(DEFAULT_ENGINE_CONFIG.triggers[SignalType.FLOW]);
+    expect(flowTriggered).toBeGreaterThan(10);
+    expect(events).toBeGreaterThan(0);
+  });
+});
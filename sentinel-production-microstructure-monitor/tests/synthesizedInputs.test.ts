@@ -0,0 +1,45 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { readTickFile, runTickStream } from '../services/BatchRunner';
+import { HawkesSignal } from '../services/signals/HawkesSignal';
+import { QuoteImbalanceSignal } from '../services/signals/QuoteImbalanceSignal';
+import { ResiliencySignal } from '../services/signals/ResiliencySignal';
+import { SpreadSignal } from '../services/signals/SpreadSignal';
+
+const FIXTURE = 'BTCUSDT-1m-2020-03-12.csv';
+const text    = readFileSync(new URL(`./fixtures/${FIXTURE}`, import.meta.url), 'utf8');
+
+// Kline replays model their book and trade counts; signals built on those
+// must sit out rather than score the model
+describe('signals on synthesized inputs', () => {
+  const [stream] = readTickFile(FIXTURE, text);
+  const outputs  = (id: string) => {
+    const seen: { value: number; triggered: boolean }[] = [];
+    runTickStream(stream, (_tick, result) => seen.push(result.signals[id]));
+    return seen;
+  };
+
+  it('marks kline ticks as synthesized', () => {
+    expect(stream.ticks.every(tick => tick.synthesized?.book && tick.synthesized?.trade_counts)).toBe(true);
+  });
+
+  it('Hawkes reports no input on volume-derived trade counts', () => {
+    expect(stream.ticks.some(tick => HawkesSignal.hasInput!(tick))).toBe(false);
+    expect(outputs(HawkesSignal.id).every(s => s.value === 0 && !s.triggered)).toBe(true);
+  });
+
+  it('Quote Imbalance reports no input on a depth-model book', () => {
+    expect(stream.ticks.some(tick => QuoteImbalanceSignal.hasInput!(tick))).toBe(false);
+    expect(outputs(QuoteImbalanceSignal.id).every(s => s.value === 0 && !s.triggered)).toBe(true);
+  });
+
+  it('Resiliency reports no input on a depth-model book', () => {
+    expect(stream.ticks.some(tick => ResiliencySignal.hasInput!(tick))).toBe(false);
+    expect(outputs(ResiliencySignal.id).every(s => s.value === 0 && !s.triggered)).toBe(true);
+  });
+
+  it('Spread reports no input on a depth-model book', () => {
+    expect(stream.ticks.some(tick => SpreadSignal.hasInput!(tick))).toBe(false);
+    expect(outputs(SpreadSignal.id).every(s => s.value === 0 && !s.triggered)).toBe(true);
+  });
+});
@@ -13,11 +13,51 @@ export enum ConfidenceLevel {
   HIGH   = 'HIGH'
 }
 
+// Ids of the built-in signals, for code that reads one by name. The engine
+// itself only knows the plugins in services/SignalRegistry, so a new signal
+// needs no entry here.
 export enum SignalType {
   LIQUIDITY      = 'Liquidity Fragility',
   FLOW           = 'Order Flow Imbalance',
   VOLATILITY     = 'Volatility Regime Shift',
-  FORCED_SELLING = 'Forced Selling'
+  FORCED_SELLING = 'Forced Selling',
+  VENUE_DIVERGENCE = 'Venue Divergence',
+  LEVERAGE       = 'Leverage & Basis'
+}
+
+export enum Venue {
+  BINANCE  = 'Binance',
+  COINBASE = 'Coinbase',
+  KRAKEN   = 'Kraken',
+  OKX      = 'OKX',
+  BYBIT    = 'Bybit'
+}
+
+// Lifecycle of one live WebSocket stream.
+// BACKING_OFF: dropped, waiting (exponential backoff + jitter) to reconnect.
+// FAILED: retry budget exhausted — needs a manual restart.
+export type StreamState = 'CONNECTING' | 'OPEN' | 'BACKING_OFF' | 'FAILED' | 'CLOSED';
+
+export interface StreamStatus {
+  id:            string;  // `${venue}:${symbol}:${stream}` — unique per socket
+  venue:         Venue;
+  symbol:        string;
+  stream:        string;  // e.g. 'trades', 'depth', 'ticker', 'market'
+  state:         StreamState;
+  attempt:       number;
+  retry_in_ms:   number | null;
+  updated_at:    number;
+}
+
+// A tradeable instrument the live feed can subscribe to.
+// min_block_qty is the smallest trade (in base units) that counts as an
+// institutional block. Every quantity threshold in the engine is expressed
+// as a multiple of it, so "large" means the same notional thing on every pair.
+export interface SymbolConfig {
+  symbol:        string;  // exchange symbol, e.g. 'BTCUSDT'
+  base:          string;  // base asset, e.g. 'BTC'
+  quote:         string;  // quote asset, e.g. 'USDT'
+  min_block_qty: number;
 }
 
 export interface Trade {
@@ -28,8 +68,29 @@ export interface Trade {
   side:      'buy' | 'sell';
 }
 
+// A forced order from a derivatives venue's liquidation engine. side is the
+// order side: 'sell' closes a liquidated long — forced selling in the literal
+// sense — and 'buy' closes a liquidated short.
+export interface Liquidation {
+  price:     number;
+  quantity:  number;
+  timestamp: number;
+  side:      'buy' | 'sell';
+}
+
+// Perpetual-futures state for the symbol. Mark and funding stream every
+// second; open interest has no stream and is polled, hence its own timestamp.
+export interface PerpMetrics {
+  mark_price:              number;
+  index_price:             number;
+  funding_rate:            number;  // per funding interval (8h), 0.0001 = 0.01%
+  next_funding_time:       number;
+  open_interest:           number;  // base units
+  open_interest_timestamp: number;  // 0 until the first poll returns
+}
+
 export interface SignalOutput {
-  name:        SignalType;
+  name:        string;  // the signal plugin's id
   value:       number;
   severity:    StressLevel;
   triggered:   boolean;
@@ -37,6 +98,9 @@ export interface SignalOutput {
   explanation: string;
   confidence:  ConfidenceLevel;
   timestamp:   number;
+  // The reading a signal wants shown above its raw metrics, formatted by the
+  // signal; absent for most
+  detail?:     { label: string; value: number | string };
 }
 
 export interface StressScore {
@@ -53,7 +117,7 @@ export interface StressScore {
 export interface CausalStep {
   sequence_id:                number;
   type:                       'CATALYST' | 'AMPLIFIER' | 'SYSTEMIC';
-  signal:                     SignalType;
+  signal:                     string;
   description:                string;
   severity:                   StressLevel;
   timestamp:                  number;
@@ -67,16 +131,26 @@ export interface CausalStep {
   stress_contribution_pct:    number;
 }
 
+// Self-excitation of trade arrivals, from the Hawkes clustering signal
+export interface Reflexivity {
+  branching_ratio: number;  // share of trades triggered by earlier trades (0–1)
+  intensity:       number;  // trades/s in the last bin
+  base_rate:       number;  // exogenous arrivals/s, mean rate × (1 − n)
+  critical:        boolean; // the signal is triggered
+}
+
 export interface CausalSequence {
   active:           boolean;
   steps:            CausalStep[];
-  catalyst_id:      SignalType | null;
+  catalyst_id:      string | null;
   narrative:        string;
   risk_assessment:  string;
   // NEW: named structural pattern based on which signals are co-active
   pattern_label:    string | null;
   // NEW: average stress change per tick over last 5 ticks (+ve = rising)
   stress_velocity:  number;
+  // Null until the Hawkes signal has enough arrival bins
+  reflexivity:      Reflexivity | null;
 }
 
 export interface TimelineDataPoint {
@@ -92,7 +166,7 @@ export interface TimelineDataPoint {
 // to show exactly what the market looked like when that event occurred.
 export interface MarketSnapshot {
   stress:             StressScore;
-  signals:            Record<SignalType, SignalOutput>;
+  signals:            Record<string, SignalOutput>;
   causal:             CausalSequence;
   trace:              DecisionTrace;
   tick:               NormalizedMarketTick;
@@ -106,14 +180,26 @@ export interface CriticalEvent {
   price:          number;
   stress_score:   number;
   level:          StressLevel;
-  primary_factor: SignalType | string;
+  primary_factor: string;
   narrative:      string;
-  signals:        SignalType[];
+  signals:        string[];
+  symbol:         string;
   // snapshot is attached by App.tsx when the event is logged
   snapshot?:      MarketSnapshot;
 }
 
+// One venue's top-of-book summary inside a consolidated tick.
+export interface VenueQuote {
+  venue:        Venue;
+  mid_price:    number;
+  spread_bps:   number;
+  total_depth:  number;
+  timestamp:    number; // local receive time of the venue's last tick
+}
+
 export interface NormalizedMarketTick {
+  symbol:               string;
+  venue:                Venue | 'CONSOLIDATED';
   exchange_timestamp:   number;
   received_timestamp:   number;
   processing_timestamp: number;
@@ -134,6 +220,22 @@ export interface NormalizedMarketTick {
   total_depth:  number;
   is_valid:     boolean;
   data_quality: 'GOOD' | 'DEGRADED' | 'STALE';
+  // Present only on CONSOLIDATED ticks: per-venue quotes behind the merged book
+  venue_quotes?: VenueQuote[];
+  // Present only when the feed carries a liquidation stream (Binance USD-M
+  // @forceOrder). Absent ≠ zero: absent means "no input", so the Forced
+  // Selling signal falls back to the block-trade heuristic alone.
+  liquidations?: {
+    sell_volume: number;  // longs liquidated this tick, base units
+    buy_volume:  number;  // shorts liquidated this tick, base units
+    orders:      Liquidation[];
+  };
+  // Present only when the feed carries perpetual mark/funding data
+  perp?: PerpMetrics;
+  // Present only on replays that model inputs they don't have: book = the
+  // depth model's ladder, trade_counts = derived from volume. Signals built
+  // on those inputs report no input rather than scoring the model.
+  synthesized?: { book: boolean; trade_counts: boolean };
 }
 
 export interface WeightContribution {
@@ -144,16 +246,33 @@ export interface WeightContribution {
   pct_of_total: number;
 }
 
+// Which engine config produced a trace. The fingerprint covers every tunable
+// value, so edits that were never saved as a preset still show in an audit.
+export interface EngineConfigStamp {
+  name:        string;
+  version:     number;
+  fingerprint: string;
+}
+
 export interface DecisionTrace {
   weight_contributions: WeightContribution[];
   raw_score:            number;
   signals_aligned:      number;
   shock_multiplier:     number;
+  // The table shock_multiplier was read from
+  shock_table:          number[];
   pre_smooth_score:     number;
   smoothing_alpha:      number;
   previous_score:       number;
   final_score:          number;
   confidence_reasons:   Record<string, string>;
   audit_narrative:      string;
+  engine_config:        EngineConfigStamp;
   timestamp:            number;
 }
+
+// A row an offline import rejected. line is 1-based in the source file.
+export interface ImportRowError {
+  line:   number;
+  reason: string;
+}